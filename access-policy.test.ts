@@ -0,0 +1,188 @@
+/**
+ * Access Policy Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { enforcePolicy, AccessPolicy } from './access-policy';
+import { PolicyViolationError } from './errors';
+import { QueryBuilder, QueryConfig, Operator, field, or, expr } from './query-builder';
+
+function violationsOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof PolicyViolationError) {
+      return error.violations;
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('Access Policy', () => {
+
+  // ============================================================================
+  // Server-Side JavaScript
+  // ============================================================================
+
+  describe('Server-Side JavaScript', () => {
+    it('should block $where by default', () => {
+      const config: QueryConfig = {
+        conditions: [field('score', '$where', 'this.score > 10')]
+      };
+
+      expect(() => QueryBuilder.build(config)).toThrow(PolicyViolationError);
+    });
+
+    it('should block top-level $where in static filters', () => {
+      const config: QueryConfig = {
+        staticFilters: { $where: 'sleep(1000)' }
+      };
+
+      expect(violationsOf(() => QueryBuilder.build(config))).toEqual([
+        {
+          code: 'OPERATOR_BANNED',
+          path: '$where',
+          field: undefined,
+          operator: '$where',
+          message: "Operator '$where' is not allowed"
+        }
+      ]);
+    });
+
+    it('should block $function and $accumulator inside $expr', () => {
+      const fn = { $function: { body: 'function() { return true; }', args: [], lang: 'js' } };
+
+      expect(violationsOf(() => QueryBuilder.build({ staticFilters: { $expr: fn } }))).toEqual([
+        {
+          code: 'OPERATOR_BANNED',
+          path: '$expr.$function',
+          field: undefined,
+          operator: '$function',
+          message: "Operator '$function' is not allowed"
+        }
+      ]);
+      expect(violationsOf(() => QueryBuilder.build({
+        conditions: [expr({ $and: [{ $gt: ['$a', 1] }, fn] })]
+      })).map(v => v.path)).toEqual(['$expr.$and[1].$function']);
+      expect(violationsOf(() => QueryBuilder.build({
+        conditions: [or(field('x', Operator.EQ, 1), expr({ $eq: [{ $accumulator: {} }, 1] }))]
+      })).map(v => v.path)).toEqual(['$or[1].$expr.$eq[0].$accumulator']);
+    });
+
+    it('should block server-side JavaScript under $elemMatch and $not', () => {
+      const fn = { $function: { body: 'function() { return true; }', args: [], lang: 'js' } };
+
+      expect(violationsOf(() => enforcePolicy({ items: { $elemMatch: { $expr: fn } } })).map(v => v.path))
+        .toEqual(['items.$elemMatch.$expr.$function']);
+      expect(violationsOf(() => enforcePolicy({ items: { $not: { $elemMatch: { qty: 1, $where: 'x' } } } }))
+        .map(v => v.path)).toEqual(['items.$not.$elemMatch.$where']);
+    });
+
+    it('should check operator objects without a prototype', () => {
+      const operators = Object.assign(Object.create(null), { $elemMatch: { $where: 'x' } });
+
+      expect(violationsOf(() => enforcePolicy({ items: operators })).map(v => v.path))
+        .toEqual(['items.$elemMatch.$where']);
+    });
+
+    it('should allow server-side JavaScript when explicitly enabled', () => {
+      const config: QueryConfig = {
+        staticFilters: { $where: 'this.a > 1' }
+      };
+
+      expect(() =>
+        QueryBuilder.build(config, {}, { policy: { allowServerSideJavaScript: true } })
+      ).not.toThrow();
+    });
+  });
+
+  // ============================================================================
+  // Field and Operator Whitelists
+  // ============================================================================
+
+  describe('Field and Operator Whitelists', () => {
+    const policy: AccessPolicy = {
+      allowedFields: ['status', 'priority', 'address.*'],
+      fieldOperators: {
+        status: ['$eq', '$in'],
+        priority: ['$gte', '$lte']
+      },
+      bannedOperators: ['$regex']
+    };
+
+    it('should accept queries within the policy', () => {
+      const config: QueryConfig = {
+        conditions: [
+          field('status', Operator.IN, ['active', 'pending']),
+          field('priority', Operator.GTE, 3),
+          field('address.city', Operator.EQ, 'Kochi')
+        ]
+      };
+
+      expect(() => QueryBuilder.build(config, {}, { policy })).not.toThrow();
+    });
+
+    it('should report fields outside the whitelist with their path', () => {
+      const config: QueryConfig = {
+        conditions: [
+          or(
+            field('status', Operator.EQ, 'active'),
+            field('password', Operator.EQ, 'secret')
+          )
+        ]
+      };
+
+      const violations = violationsOf(() => QueryBuilder.build(config, {}, { policy }));
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        code: 'FIELD_NOT_ALLOWED',
+        field: 'password',
+        path: '$or[1].password'
+      });
+    });
+
+    it('should report operators not allowed on a field, including implicit equality', () => {
+      const config: QueryConfig = {
+        staticFilters: { priority: 5 },
+        conditions: [field('status', Operator.NE, 'deleted')]
+      };
+
+      const violations = violationsOf(() => QueryBuilder.build(config, {}, { policy }));
+
+      expect(violations.map(v => [v.code, v.field, v.operator])).toEqual([
+        ['OPERATOR_NOT_ALLOWED', 'priority', '$eq'],
+        ['OPERATOR_NOT_ALLOWED', 'status', '$ne']
+      ]);
+    });
+
+    it('should report banned operators', () => {
+      const config: QueryConfig = {
+        conditions: [field('address.city', Operator.REGEX, '^Ko')]
+      };
+
+      const violations = violationsOf(() => QueryBuilder.build(config, {}, { policy }));
+
+      expect(violations).toEqual([
+        expect.objectContaining({ code: 'OPERATOR_BANNED', operator: '$regex', path: 'address.city.$regex' })
+      ]);
+    });
+
+    it('should check fields inside $elemMatch and operators inside $not', () => {
+      const filter = {
+        items: { $elemMatch: { sku: 'A-1', qty: { $where: 'x' } } },
+        status: { $not: { $regex: 'x' } }
+      };
+
+      const violations = violationsOf(() =>
+        enforcePolicy(filter, { allowedFields: ['items', 'items.sku', 'status'] })
+      );
+
+      expect(violations.map(v => [v.code, v.path])).toEqual([
+        ['FIELD_NOT_ALLOWED', 'items.$elemMatch.qty'],
+        ['OPERATOR_BANNED', 'items.$elemMatch.qty.$where']
+      ]);
+    });
+  });
+});
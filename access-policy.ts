@@ -0,0 +1,192 @@
+/**
+ * Field-Level Access Policy
+ *
+ * Checks built MongoDB filters against a whitelist of fields and operators.
+ * The check runs on the built filter rather than the config, so static
+ * filters, field mappings and injected data values are all covered.
+ */
+
+import { PolicyViolation, PolicyViolationError } from './errors';
+import { isOperatorObject, isPlainObject } from './utils';
+
+export interface AccessPolicy {
+  // Fields that may appear in the filter. Supports 'prefix.*' wildcards.
+  // When omitted, every field is allowed.
+  allowedFields?: string[];
+
+  // Operators allowed per field. Implicit equality counts as '$eq'.
+  // Fields not listed here may use any non-banned operator.
+  fieldOperators?: Record<string, string[]>;
+
+  // Operators rejected anywhere in the filter
+  bannedOperators?: string[];
+
+  // Allow $where, $function and $accumulator (blocked by default)
+  allowServerSideJavaScript?: boolean;
+}
+
+// Operators that execute JavaScript on the server
+export const SERVER_SIDE_JS_OPERATORS = ['$where', '$function', '$accumulator'];
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor'];
+
+/**
+ * Check a built filter against an access policy
+ *
+ * Server-side JavaScript operators are rejected even without a policy,
+ * unless `allowServerSideJavaScript` is set.
+ *
+ * @throws PolicyViolationError listing every violation found
+ */
+export function enforcePolicy(filter: Record<string, any>, policy: AccessPolicy = {}): void {
+  const violations: PolicyViolation[] = [];
+  const banned = new Set(policy.bannedOperators ?? []);
+
+  if (!policy.allowServerSideJavaScript) {
+    SERVER_SIDE_JS_OPERATORS.forEach(op => banned.add(op));
+  }
+
+  checkFilter(filter, '', '', policy, banned, violations);
+
+  if (violations.length > 0) {
+    throw new PolicyViolationError(violations);
+  }
+}
+
+function checkFilter(
+  filter: Record<string, any>,
+  fieldPrefix: string,
+  path: string,
+  policy: AccessPolicy,
+  banned: Set<string>,
+  violations: PolicyViolation[]
+): void {
+  for (const [key, value] of Object.entries(filter)) {
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (key.startsWith('$')) {
+      checkOperator(key, undefined, keyPath, policy, banned, violations);
+
+      if (LOGICAL_OPERATORS.includes(key) && Array.isArray(value)) {
+        value.forEach((subFilter, i) => {
+          if (isPlainObject(subFilter)) {
+            checkFilter(subFilter, fieldPrefix, `${keyPath}[${i}]`, policy, banned, violations);
+          }
+        });
+      } else if (key === '$expr') {
+        checkExpression(value, keyPath, policy, banned, violations);
+      }
+      continue;
+    }
+
+    const field = fieldPrefix + key;
+    if (!isFieldAllowed(field, policy.allowedFields)) {
+      violations.push({
+        code: 'FIELD_NOT_ALLOWED',
+        path: keyPath,
+        field,
+        message: `Field '${field}' is not allowed`
+      });
+    }
+
+    checkFieldValue(field, value, keyPath, policy, banned, violations);
+  }
+}
+
+function checkFieldValue(
+  field: string,
+  value: any,
+  path: string,
+  policy: AccessPolicy,
+  banned: Set<string>,
+  violations: PolicyViolation[]
+): void {
+  if (!isOperatorObject(value)) {
+    checkOperator('$eq', field, path, policy, banned, violations);
+    return;
+  }
+
+  for (const [operator, operand] of Object.entries(value)) {
+    const operatorPath = `${path}.${operator}`;
+    checkOperator(operator, field, operatorPath, policy, banned, violations);
+
+    if (operator === '$expr') {
+      checkExpression(operand, operatorPath, policy, banned, violations);
+    } else if (operator === '$not' && isOperatorObject(operand)) {
+      checkFieldValue(field, operand, operatorPath, policy, banned, violations);
+    } else if (operator === '$elemMatch' && isPlainObject(operand)) {
+      if (isOperatorObject(operand)) {
+        checkFieldValue(field, operand, operatorPath, policy, banned, violations);
+      } else {
+        checkFilter(operand, `${field}.`, operatorPath, policy, banned, violations);
+      }
+    }
+  }
+}
+
+/**
+ * Check the operators of an aggregation expression ($expr) against the
+ * banned operators; $function and $accumulator can only run in expressions
+ */
+function checkExpression(
+  expression: any,
+  path: string,
+  policy: AccessPolicy,
+  banned: Set<string>,
+  violations: PolicyViolation[]
+): void {
+  if (Array.isArray(expression)) {
+    expression.forEach((item, i) => checkExpression(item, `${path}[${i}]`, policy, banned, violations));
+    return;
+  }
+  if (!isPlainObject(expression)) {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(expression)) {
+    const keyPath = `${path}.${key}`;
+    if (key.startsWith('$')) {
+      checkOperator(key, undefined, keyPath, policy, banned, violations);
+    }
+    checkExpression(value, keyPath, policy, banned, violations);
+  }
+}
+
+function checkOperator(
+  operator: string,
+  field: string | undefined,
+  path: string,
+  policy: AccessPolicy,
+  banned: Set<string>,
+  violations: PolicyViolation[]
+): void {
+  if (banned.has(operator)) {
+    violations.push({
+      code: 'OPERATOR_BANNED',
+      path,
+      field,
+      operator,
+      message: `Operator '${operator}' is not allowed`
+    });
+    return;
+  }
+
+  const allowed = field !== undefined ? policy.fieldOperators?.[field] : undefined;
+  if (allowed && !allowed.includes(operator)) {
+    violations.push({
+      code: 'OPERATOR_NOT_ALLOWED',
+      path,
+      field,
+      operator,
+      message: `Operator '${operator}' is not allowed on field '${field}'`
+    });
+  }
+}
+
+function isFieldAllowed(field: string, allowedFields?: string[]): boolean {
+  if (!allowedFields) return true;
+  return allowedFields.some(allowed =>
+    allowed === field ||
+    (allowed.endsWith('.*') && field.startsWith(allowed.slice(0, -1)))
+  );
+}
@@ -65,6 +65,23 @@ function benchmarkQueryBuilder(iterations: number): number {
   return endTime - startTime;
 }
 
+// ============================================================================
+// Compiled Query Builder
+// ============================================================================
+
+const compiledComplexQuery = QueryBuilder.compile(complexConfig);
+
+function benchmarkCompiledQueryBuilder(iterations: number): number {
+  const startTime = performance.now();
+  
+  for (let i = 0; i < iterations; i++) {
+    compiledComplexQuery(testData);
+  }
+  
+  const endTime = performance.now();
+  return endTime - startTime;
+}
+
 // ============================================================================
 // Native JavaScript Object Building
 // ============================================================================
@@ -145,6 +162,19 @@ function benchmarkSimpleQuery(iterations: number): number {
   return endTime - startTime;
 }
 
+const compiledSimpleQuery = QueryBuilder.compile(simpleConfig);
+
+function benchmarkCompiledSimpleQuery(iterations: number): number {
+  const startTime = performance.now();
+  
+  for (let i = 0; i < iterations; i++) {
+    compiledSimpleQuery(simpleData);
+  }
+  
+  const endTime = performance.now();
+  return endTime - startTime;
+}
+
 // ============================================================================
 // Run Benchmarks
 // ============================================================================
@@ -160,8 +190,10 @@ function runBenchmarks() {
   // Warm up
   console.log('Warming up...');
   benchmarkQueryBuilder(1000);
+  benchmarkCompiledQueryBuilder(1000);
   benchmarkNativeJS(1000);
   benchmarkSimpleQuery(1000);
+  benchmarkCompiledSimpleQuery(1000);
   
   console.log('\n' + '-'.repeat(80));
   console.log('COMPLEX QUERY BENCHMARK');
@@ -180,6 +212,12 @@ function runBenchmarks() {
   console.log(`\nOverhead:              ${overhead}% slower than native JS`);
   console.log(`Performance ratio:     ${(nativeTime / queryBuilderTime).toFixed(2)}x`);
   
+  // Complex query - Compiled Query Builder
+  const compiledTime = benchmarkCompiledQueryBuilder(iterations);
+  console.log(`\nCompiled Query Builder: ${compiledTime.toFixed(2)}ms (${(iterations / compiledTime * 1000).toFixed(0)} ops/sec)`);
+  console.log(`Compiled vs build():   ${(queryBuilderTime / compiledTime).toFixed(2)}x faster`);
+  console.log(`Compiled vs native JS: ${((compiledTime / nativeTime - 1) * 100).toFixed(1)}% slower`);
+  
   console.log('\n' + '-'.repeat(80));
   console.log('SIMPLE QUERY BENCHMARK');
   console.log('-'.repeat(80));
@@ -188,6 +226,10 @@ function runBenchmarks() {
   console.log(`Query Builder:         ${simpleTime.toFixed(2)}ms (${(iterations / simpleTime * 1000).toFixed(0)} ops/sec)`);
   console.log(`Time per query:        ${(simpleTime / iterations * 1000).toFixed(3)}μs`);
   
+  const compiledSimpleTime = benchmarkCompiledSimpleQuery(iterations);
+  console.log(`Compiled:              ${compiledSimpleTime.toFixed(2)}ms (${(iterations / compiledSimpleTime * 1000).toFixed(0)} ops/sec)`);
+  console.log(`Time per query:        ${(compiledSimpleTime / iterations * 1000).toFixed(3)}μs`);
+  
   console.log('\n' + '-'.repeat(80));
   console.log('MEMORY USAGE');
   console.log('-'.repeat(80));
@@ -291,27 +333,38 @@ function profileQueryBuilding() {
     'Complex (All Features)': complexConfig
   };
   
-  console.log('Configuration Type'.padEnd(30) + 'Time (ms)'.padEnd(15) + 'Ops/sec'.padEnd(15) + 'μs/query');
-  console.log('-'.repeat(75));
+  console.log(
+    'Configuration Type'.padEnd(30) + 'Mode'.padEnd(12) + 'Time (ms)'.padEnd(15) + 'Ops/sec'.padEnd(15) + 'μs/query'
+  );
+  console.log('-'.repeat(87));
   
   for (const [name, config] of Object.entries(configs)) {
-    const startTime = performance.now();
+    const compiled = QueryBuilder.compile(config);
+    const modes: [string, () => void][] = [
+      ['build', () => QueryBuilder.build(config, testData)],
+      ['compiled', () => compiled(testData)]
+    ];
     
-    for (let i = 0; i < iterations; i++) {
-      QueryBuilder.build(config, testData);
+    for (const [mode, run] of modes) {
+      const startTime = performance.now();
+      
+      for (let i = 0; i < iterations; i++) {
+        run();
+      }
+      
+      const endTime = performance.now();
+      const duration = endTime - startTime;
+      const opsPerSec = iterations / duration * 1000;
+      const microSecPerOp = duration / iterations * 1000;
+      
+      console.log(
+        (mode === 'build' ? name : '').padEnd(30) +
+        mode.padEnd(12) +
+        duration.toFixed(2).padEnd(15) +
+        opsPerSec.toFixed(0).padEnd(15) +
+        microSecPerOp.toFixed(2)
+      );
     }
-    
-    const endTime = performance.now();
-    const duration = endTime - startTime;
-    const opsPerSec = iterations / duration * 1000;
-    const microSecPerOp = duration / iterations * 1000;
-    
-    console.log(
-      name.padEnd(30) +
-      duration.toFixed(2).padEnd(15) +
-      opsPerSec.toFixed(0).padEnd(15) +
-      microSecPerOp.toFixed(2)
-    );
   }
   
   console.log('='.repeat(80) + '\n');
@@ -377,6 +430,8 @@ export {
   profileQueryBuilding,
   testCachePerformance,
   benchmarkQueryBuilder,
+  benchmarkCompiledQueryBuilder,
   benchmarkNativeJS,
-  benchmarkSimpleQuery
+  benchmarkSimpleQuery,
+  benchmarkCompiledSimpleQuery
 };
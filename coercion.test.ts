@@ -0,0 +1,152 @@
+/**
+ * Type Coercion Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { coerceValue } from './coercion';
+import { CoercionError } from './errors';
+import { QueryBuilder, QueryConfig, Operator, field } from './query-builder';
+
+describe('Type Coercion', () => {
+
+  // ============================================================================
+  // coerceValue
+  // ============================================================================
+
+  describe('coerceValue', () => {
+    it('should convert query string values', () => {
+      expect(coerceValue('3', 'number', 'p')).toBe(3);
+      expect(coerceValue('-2.5', 'number', 'p')).toBe(-2.5);
+      expect(coerceValue('true', 'boolean', 'p')).toBe(true);
+      expect(coerceValue('0', 'boolean', 'p')).toBe(false);
+      expect(coerceValue('2025-06-30T00:00:00.000Z', 'date', 'p')).toEqual(new Date('2025-06-30T00:00:00.000Z'));
+      expect(coerceValue(42, 'string', 'p')).toBe('42');
+      expect(coerceValue('a, b,,c', 'stringArray', 'p')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should convert arrays element by element', () => {
+      expect(coerceValue(['1', '2'], 'number', 'p')).toEqual([1, 2]);
+    });
+
+    it('should build ObjectIds and decimals with the supplied factories', () => {
+      const factories = {
+        objectIdFactory: (hex: string) => ({ oid: hex }),
+        decimalFactory: (value: string) => ({ decimal: value })
+      };
+
+      expect(coerceValue('65f1c0ffee0000000000abcd', 'objectId', 'p', factories))
+        .toEqual({ oid: '65f1c0ffee0000000000abcd' });
+      expect(coerceValue(' 19.99 ', 'decimal', 'p', factories)).toEqual({ decimal: '19.99' });
+    });
+
+    it('should require a factory for ObjectId and decimal values', () => {
+      expect(() => coerceValue('65f1c0ffee0000000000abcd', 'objectId', 'p'))
+        .toThrow('requires the objectIdFactory build option');
+      expect(() => coerceValue('1.5', 'decimal', 'p'))
+        .toThrow('requires the decimalFactory build option');
+    });
+
+    it('should throw typed errors for values that cannot be converted', () => {
+      const cases: [any, any][] = [
+        ['abc', 'number'],
+        ['', 'number'],
+        ['yes please', 'boolean'],
+        ['not a date', 'date'],
+        ['xyz', 'objectId'],
+        [{ a: 1 }, 'string'],
+        [5, 'stringArray']
+      ];
+
+      for (const [value, type] of cases) {
+        expect(() => coerceValue(value, type, 'p')).toThrow(CoercionError);
+      }
+    });
+
+    it('should describe the failing value', () => {
+      try {
+        coerceValue('abc', 'number', 'filters.minPrice');
+        throw new Error('expected CoercionError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CoercionError);
+        expect(error).toMatchObject({ dataPath: 'filters.minPrice', targetType: 'number', value: 'abc' });
+      }
+    });
+  });
+
+  // ============================================================================
+  // QueryBuilder Integration
+  // ============================================================================
+
+  describe('QueryBuilder Integration', () => {
+    it('should coerce field condition data references', () => {
+      const config: QueryConfig = {
+        conditions: [
+          { ...field('priority', Operator.GTE, '$minPriority'), type: 'number' },
+          { ...field('archived', Operator.EQ, '$archived'), type: 'boolean' },
+          { ...field('tags', Operator.IN, '$tags'), type: 'stringArray' }
+        ]
+      };
+
+      const query = QueryBuilder.build(config, { minPriority: '3', archived: 'false', tags: 'a,b' });
+
+      expect(query.$and).toEqual([
+        { priority: { $gte: 3 } },
+        { archived: false },
+        { tags: { $in: ['a', 'b'] } }
+      ]);
+    });
+
+    it('should coerce typed field mappings', () => {
+      const config: QueryConfig = {
+        fieldMappings: {
+          accountId: 'accountId',
+          age: { path: 'filters.age', type: 'number' }
+        }
+      };
+
+      const query = QueryBuilder.build(config, { accountId: 'acc-1', filters: { age: '42' } });
+
+      expect(query).toEqual({ accountId: 'acc-1', age: 42 });
+    });
+
+    it('should coerce date range bounds from data and config', () => {
+      const config: QueryConfig = {
+        dateRanges: [{ field: 'createdAt', type: 'date' }],
+        conditions: [{ field: 'updatedAt', from: '2025-01-01T00:00:00.000Z', type: 'date' }]
+      };
+
+      const query = QueryBuilder.build(config, { createdAt: { to: '2025-06-30T00:00:00.000Z' } });
+
+      expect(query.createdAt).toEqual({ $lte: new Date('2025-06-30T00:00:00.000Z') });
+      expect(query.updatedAt).toEqual({ $gte: new Date('2025-01-01T00:00:00.000Z') });
+    });
+
+    it('should surface coercion failures as CoercionError', () => {
+      const config: QueryConfig = {
+        conditions: [{ ...field('priority', Operator.GTE, '$minPriority'), type: 'number' }]
+      };
+
+      expect(() => QueryBuilder.build(config, { minPriority: 'high' })).toThrow(CoercionError);
+    });
+
+    it('should pass factories from build options', () => {
+      const config: QueryConfig = {
+        fieldMappings: { _id: { path: 'id', type: 'objectId' } }
+      };
+
+      const query = QueryBuilder.build(config, { id: '65f1c0ffee0000000000abcd' }, {
+        objectIdFactory: hex => ({ oid: hex })
+      });
+
+      expect(query).toEqual({ _id: { oid: '65f1c0ffee0000000000abcd' } });
+    });
+
+    it('should reject unknown types in the config', () => {
+      const config = {
+        conditions: [{ field: 'age', operator: Operator.GTE, value: '$age', type: 'integer' }]
+      } as unknown as QueryConfig;
+
+      expect(() => QueryBuilder.build(config, { age: '1' })).toThrow();
+    });
+  });
+});
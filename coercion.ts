@@ -0,0 +1,148 @@
+/**
+ * Declarative Type Coercion
+ *
+ * Input often comes from query strings, so '3', 'true' and ISO dates reach
+ * the builder as strings and would never match typed fields. Conditions,
+ * field mappings and date ranges can declare a target type and values are
+ * converted before they are emitted.
+ */
+
+import { CoercionError } from './errors';
+import { DateExpressionOptions, isDateExpression, resolveDateExpression } from './date-expressions';
+
+export type ValueType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'objectId'
+  | 'decimal'
+  | 'stringArray';
+
+// Date expressions ('now-7d/d') coerced to 'date' resolve against `clock` and `timeZone`
+export interface CoercionFactories extends DateExpressionOptions {
+  // Creates ObjectId values from their hex string (e.g. `hex => new ObjectId(hex)`)
+  objectIdFactory?: (hex: string) => any;
+  // Creates Decimal128 values from their string form (e.g. `Decimal128.fromString`)
+  decimalFactory?: (value: string) => any;
+}
+
+export const VALUE_TYPES: ValueType[] = [
+  'string', 'number', 'boolean', 'date', 'objectId', 'decimal', 'stringArray'
+];
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+const DECIMAL_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Convert a value to the declared type
+ *
+ * Arrays are converted element by element, except for 'stringArray' which
+ * also accepts a comma-separated string.
+ *
+ * @param value - Value to convert (null and undefined are returned unchanged)
+ * @param type - Target type
+ * @param dataPath - Data path or field the value belongs to (used in errors)
+ * @param factories - Constructors for BSON types, and the clock and time
+ * zone for date expressions
+ * @throws CoercionError if the value cannot be converted
+ * @throws DateExpressionError if a date expression is malformed
+ */
+export function coerceValue(
+  value: any,
+  type: ValueType,
+  dataPath: string,
+  factories: CoercionFactories = {}
+): any {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (type === 'stringArray') {
+    const items = typeof value === 'string'
+      ? value.split(',').map(item => item.trim()).filter(item => item.length > 0)
+      : value;
+    if (!Array.isArray(items)) {
+      throw new CoercionError(dataPath, type, value);
+    }
+    return items.map(item => coerceScalar(item, 'string', dataPath, factories));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => coerceScalar(item, type, dataPath, factories));
+  }
+
+  return coerceScalar(value, type, dataPath, factories);
+}
+
+function coerceScalar(
+  value: any,
+  type: Exclude<ValueType, 'stringArray'>,
+  dataPath: string,
+  factories: CoercionFactories
+): any {
+  switch (type) {
+    case 'string':
+      if (['string', 'number', 'boolean'].includes(typeof value)) {
+        return String(value);
+      }
+      break;
+
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return value;
+      }
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        return Number(value);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === '1' || value === 1) return true;
+      if (value === 'false' || value === '0' || value === 0) return false;
+      break;
+
+    case 'date': {
+      if (value instanceof Date) {
+        if (!isNaN(value.getTime())) return value;
+        break;
+      }
+      if (isDateExpression(value)) {
+        return resolveDateExpression(value, { clock: factories.clock, timeZone: factories.timeZone });
+      }
+      if (typeof value === 'string' || typeof value === 'number') {
+        const date = new Date(value);
+        if (value !== '' && !isNaN(date.getTime())) return date;
+      }
+      break;
+    }
+
+    case 'objectId':
+      if (value?._bsontype === 'ObjectId') {
+        return value;
+      }
+      if (typeof value === 'string' && OBJECT_ID_PATTERN.test(value)) {
+        if (!factories.objectIdFactory) {
+          throw new Error(`ObjectId coercion for '${dataPath}' requires the objectIdFactory build option`);
+        }
+        return factories.objectIdFactory(value);
+      }
+      break;
+
+    case 'decimal':
+      if (value?._bsontype === 'Decimal128') {
+        return value;
+      }
+      if ((typeof value === 'number' && Number.isFinite(value)) ||
+        (typeof value === 'string' && DECIMAL_PATTERN.test(value.trim()))) {
+        if (!factories.decimalFactory) {
+          throw new Error(`Decimal coercion for '${dataPath}' requires the decimalFactory build option`);
+        }
+        return factories.decimalFactory(String(value).trim());
+      }
+      break;
+  }
+
+  throw new CoercionError(dataPath, type, value);
+}
@@ -0,0 +1,155 @@
+/**
+ * Config Cache Test Suite
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import {
+  ConfigCache,
+  ConfigChangeEvent,
+  ConfigStamp,
+  InMemoryInvalidator,
+  PollingInvalidator
+} from './config-cache';
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+describe('Config Cache', () => {
+  it('should expire entries after the TTL', () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    const cache = new ConfigCache<number>({ ttlMs: 1000 });
+
+    cache.set('a', 1);
+    jest.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe(1);
+
+    jest.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should restart the TTL when an entry is set again', () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    const cache = new ConfigCache<number>({ ttlMs: 1000 });
+
+    cache.set('a', 1);
+    jest.advanceTimersByTime(800);
+    cache.set('a', 2);
+    jest.advanceTimersByTime(800);
+
+    expect(cache.get('a')).toBe(2);
+  });
+
+  it('should evict the least recently used entries past the maximum size', () => {
+    const cache = new ConfigCache<number>({ maxSize: 2 });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should keep everything without options', () => {
+    const cache = new ConfigCache<number>();
+    for (let i = 0; i < 100; i++) {
+      cache.set(`config${i}`, i);
+    }
+
+    expect(cache.size).toBe(100);
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
+
+// ============================================================================
+// Invalidators
+// ============================================================================
+
+describe('In-Memory Invalidator', () => {
+  it('should deliver published events to every subscriber until it unsubscribes', () => {
+    const bus = new InMemoryInvalidator();
+    const first: ConfigChangeEvent[] = [];
+    const second: ConfigChangeEvent[] = [];
+
+    const stopFirst = bus.subscribe(event => first.push(event));
+    bus.subscribe(event => second.push(event));
+
+    bus.publish({ type: 'saved', name: 'tasks', version: 2 });
+    stopFirst();
+    bus.publish({ type: 'deleted', name: 'tasks' });
+
+    expect(first).toEqual([{ type: 'saved', name: 'tasks', version: 2 }]);
+    expect(second).toEqual([
+      { type: 'saved', name: 'tasks', version: 2 },
+      { type: 'deleted', name: 'tasks' }
+    ]);
+  });
+});
+
+describe('Polling Invalidator', () => {
+  const at = (iso: string) => new Date(iso);
+
+  it('should announce saved and deleted configs between polls', async () => {
+    let stored: ConfigStamp[] = [
+      { name: 'tasks', version: 1, updatedAt: at('2025-01-01') },
+      { name: 'users', version: 3, updatedAt: at('2025-01-01') }
+    ];
+    const invalidator = new PollingInvalidator(async () => stored);
+    const events: ConfigChangeEvent[] = [];
+    const unsubscribe = invalidator.subscribe(event => events.push(event));
+
+    // The first poll only records the stamps
+    await invalidator.check();
+    expect(events).toEqual([]);
+
+    stored = [
+      { name: 'tasks', version: 2, updatedAt: at('2025-01-02') },
+      { name: 'projects', version: 1, updatedAt: at('2025-01-02') }
+    ];
+    await invalidator.check();
+    unsubscribe();
+
+    expect(events).toEqual([
+      { type: 'saved', name: 'tasks', version: 2 },
+      { type: 'saved', name: 'projects', version: 1 },
+      { type: 'deleted', name: 'users' }
+    ]);
+  });
+
+  it('should poll on the interval while subscribed', async () => {
+    jest.useFakeTimers();
+    const poll = jest.fn(async (): Promise<ConfigStamp[]> => []);
+    const invalidator = new PollingInvalidator(poll, { intervalMs: 1000 });
+
+    const unsubscribe = invalidator.subscribe(() => undefined);
+    await jest.advanceTimersByTimeAsync(3000);
+    unsubscribe();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    // One poll on subscribe, then one per interval
+    expect(poll).toHaveBeenCalledTimes(4);
+  });
+
+  it('should report failed polls and keep polling', async () => {
+    const errors: unknown[] = [];
+    const poll = jest.fn(async (): Promise<ConfigStamp[]> => []);
+    poll.mockRejectedValueOnce(new Error('connection lost'));
+    const invalidator = new PollingInvalidator(poll, { onError: error => errors.push(error) });
+
+    await invalidator.check();
+    await invalidator.check();
+
+    expect(errors).toEqual([new Error('connection lost')]);
+    expect(poll).toHaveBeenCalledTimes(2);
+  });
+});
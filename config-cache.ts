@@ -0,0 +1,215 @@
+/**
+ * Config Cache
+ *
+ * The cache behind `QueryConfigManager`: entries can expire after a TTL and
+ * the least recently used ones are evicted past a maximum size. An
+ * invalidator tells every manager instance when another one saved or
+ * deleted a config, so no instance keeps serving a stale version.
+ *
+ * `InMemoryInvalidator` connects instances in one process (e.g. in tests),
+ * `PollingInvalidator` compares `updatedAt` stamps on an interval, and the
+ * MongoDB change stream invalidator lives in `mongo-invalidation.ts`.
+ */
+
+export type ConfigChangeEvent =
+  | { type: 'saved'; name: string; version?: number }
+  | { type: 'deleted'; name: string }
+  // Anything may have changed, e.g. after the change feed was interrupted
+  | { type: 'reset' };
+
+export type ConfigChangeListener = (event: ConfigChangeEvent) => void;
+
+export interface CacheInvalidator {
+  // Start delivering change events; returns a function that stops them
+  subscribe(listener: ConfigChangeListener): () => void;
+  // Announce a change made by this process, for invalidators that do not
+  // observe the database themselves
+  publish?(event: ConfigChangeEvent): void;
+}
+
+export interface CacheOptions {
+  // Drop entries this many milliseconds after they were cached
+  ttlMs?: number;
+  // Keep at most this many entries, evicting the least recently used
+  maxSize?: number;
+  // Clears entries that other instances changed
+  invalidator?: CacheInvalidator;
+}
+
+// updatedAt/version of a stored config, as read by a PollingInvalidator
+export interface ConfigStamp {
+  name: string;
+  updatedAt?: Date;
+  version?: number;
+}
+
+export interface PollingOptions {
+  // Milliseconds between polls (default 30 seconds)
+  intervalMs?: number;
+  // Called when a poll fails (default: log to the console)
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Map with optional TTL and least-recently-used eviction
+ */
+export class ConfigCache<V> {
+  private readonly entries = new Map<string, { value: V; expiresAt: number }>();
+
+  constructor(private readonly options: Pick<CacheOptions, 'ttlMs' | 'maxSize'> = {}) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  set(key: string, value: V): void {
+    const { ttlMs, maxSize } = this.options;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : Infinity });
+
+    if (maxSize !== undefined) {
+      for (const oldest of this.entries.keys()) {
+        if (this.entries.size <= maxSize) {
+          break;
+        }
+        this.entries.delete(oldest);
+      }
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Delivers published changes to every subscriber in this process
+ */
+export class InMemoryInvalidator implements CacheInvalidator {
+  private readonly listeners = new Set<ConfigChangeListener>();
+
+  subscribe(listener: ConfigChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  publish(event: ConfigChangeEvent): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+}
+
+/**
+ * Detects saves and deletes by polling the stored configs' `updatedAt`
+ * stamps, for deployments without change streams
+ *
+ * Polling starts with the first subscriber and stops with the last.
+ */
+export class PollingInvalidator implements CacheInvalidator {
+  private readonly listeners = new Set<ConfigChangeListener>();
+  private stamps: Map<string, ConfigStamp> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  /**
+   * @param poll - Reads the stamps of every stored config
+   */
+  constructor(
+    private readonly poll: () => Promise<ConfigStamp[]>,
+    private readonly options: PollingOptions = {}
+  ) {}
+
+  subscribe(listener: ConfigChangeListener): () => void {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.check(), this.options.intervalMs ?? 30000);
+      // Do not keep the process alive just to poll
+      this.timer.unref?.();
+      void this.check();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+        this.stamps = null;
+      }
+    };
+  }
+
+  /**
+   * Poll once and announce what changed since the previous poll. The
+   * first poll only records the stamps; a poll already running is shared.
+   */
+  check(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.compare().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async compare(): Promise<void> {
+    try {
+      const stamps = new Map((await this.poll()).map(stamp => [stamp.name, stamp]));
+      const previous = this.stamps;
+      this.stamps = stamps;
+      if (!previous) {
+        return;
+      }
+
+      for (const [name, stamp] of stamps) {
+        const before = previous.get(name);
+        if (!before || before.updatedAt?.getTime() !== stamp.updatedAt?.getTime() || before.version !== stamp.version) {
+          this.emit({ type: 'saved', name, version: stamp.version });
+        }
+      }
+      for (const name of previous.keys()) {
+        if (!stamps.has(name)) {
+          this.emit({ type: 'deleted', name });
+        }
+      }
+    } catch (error) {
+      (this.options.onError ?? logPollError)(error);
+    }
+  }
+
+  private emit(event: ConfigChangeEvent): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+}
+
+function logPollError(error: unknown): void {
+  console.error(`Failed to poll configurations: ${error instanceof Error ? error.message : String(error)}`);
+}
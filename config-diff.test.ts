@@ -0,0 +1,55 @@
+/**
+ * Config Diff Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { diffConfigs } from './config-diff';
+import { QueryConfig, Operator, field, or } from './query-builder';
+
+describe('Config Diff', () => {
+  it('should list added, removed and changed values by path', () => {
+    const before: QueryConfig = {
+      staticFilters: { status: 'active', deleted: false },
+      conditions: [field('priority', Operator.GTE, '$minPriority')]
+    };
+    const after: QueryConfig = {
+      staticFilters: { status: 'open' },
+      fieldMappings: { ownerId: 'user.id' },
+      conditions: [field('priority', Operator.GT, '$minPriority'), field('shared', Operator.EQ, true)]
+    };
+
+    expect(diffConfigs(before, after)).toEqual([
+      { path: 'staticFilters.status', kind: 'changed', before: 'active', after: 'open' },
+      { path: 'staticFilters.deleted', kind: 'removed', before: false },
+      { path: 'conditions[0].operator', kind: 'changed', before: '$gte', after: '$gt' },
+      { path: 'conditions[1]', kind: 'added', after: field('shared', Operator.EQ, true) },
+      { path: 'fieldMappings', kind: 'added', after: { ownerId: 'user.id' } }
+    ]);
+  });
+
+  it('should report nothing for equal configs', () => {
+    const config = (): QueryConfig => ({
+      conditions: [or(field('createdAt', Operator.GTE, new Date('2025-01-01')), field('name', Operator.REGEX, /^a/i))]
+    });
+
+    expect(diffConfigs(config(), config())).toEqual([]);
+  });
+
+  it('should compare dates and regular expressions as values', () => {
+    expect(diffConfigs(
+      { staticFilters: { createdAt: new Date('2025-01-01'), name: /^a/ } },
+      { staticFilters: { createdAt: new Date('2025-02-01'), name: /^a/i } }
+    )).toEqual([
+      { path: 'staticFilters.createdAt', kind: 'changed', before: new Date('2025-01-01'), after: new Date('2025-02-01') },
+      { path: 'staticFilters.name', kind: 'changed', before: /^a/, after: /^a/i }
+    ]);
+  });
+
+  it('should leave out ignored top-level keys', () => {
+    expect(diffConfigs(
+      { version: 1, updatedAt: new Date('2025-01-01'), staticFilters: { a: 1 } },
+      { version: 2, updatedAt: new Date('2025-02-01'), staticFilters: { a: 2 } },
+      { ignore: ['version', 'updatedAt'] }
+    )).toEqual([{ path: 'staticFilters.a', kind: 'changed', before: 1, after: 2 }]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Config Diff
+ *
+ * Lists what changed between two versions of a config, e.g. to review a
+ * stored config's history. Objects are compared key by key and arrays
+ * index by index; dates and regular expressions are compared as values.
+ */
+
+import { isDeepEqual, isPlainObject } from './utils';
+
+export type ConfigChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ConfigChange {
+  // Location of the change, e.g. 'conditions[1].value' or 'staticFilters.status'
+  path: string;
+  kind: ConfigChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface DiffOptions {
+  // Top-level keys to leave out, e.g. timestamps
+  ignore?: string[];
+}
+
+/**
+ * Compare two configs and list every added, removed and changed value
+ */
+export function diffConfigs(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  options: DiffOptions = {}
+): ConfigChange[] {
+  const ignore = new Set(options.ignore ?? []);
+  const changes: ConfigChange[] = [];
+
+  for (const key of unionKeys(before, after)) {
+    if (!ignore.has(key)) {
+      diffValues(before[key], after[key], key, changes);
+    }
+  }
+
+  return changes;
+}
+
+function diffValues(before: any, after: any, path: string, changes: ConfigChange[]): void {
+  if (before === undefined && after === undefined) {
+    return;
+  }
+  if (before === undefined) {
+    changes.push({ path, kind: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: 'removed', before });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffValues(before[i], after[i], `${path}[${i}]`, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of unionKeys(before, after)) {
+      diffValues(before[key], after[key], `${path}.${key}`, changes);
+    }
+    return;
+  }
+
+  if (!isDeepEqual(before, after)) {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+function unionKeys(a: Record<string, any>, b: Record<string, any>): string[] {
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])];
+}
@@ -0,0 +1,192 @@
+/**
+ * Config Inheritance Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { resolveStoredConfig, ref, ConfigLoader } from './config-inheritance';
+import { StoredQueryConfig } from './config-store';
+import { ConfigResolutionError, UnresolvedReferenceError } from './errors';
+import { QueryBuilder, Operator, field, or, not, ifElse } from './query-builder';
+
+function loaderFor(...configs: StoredQueryConfig[]): ConfigLoader {
+  const byName = new Map(configs.map(config => [config.name, config]));
+  return async name => byName.get(name) ?? null;
+}
+
+async function resolutionErrorOf(config: StoredQueryConfig, load: ConfigLoader): Promise<ConfigResolutionError> {
+  try {
+    await resolveStoredConfig(config, load);
+  } catch (error) {
+    if (error instanceof ConfigResolutionError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a ConfigResolutionError');
+}
+
+const tenantBase: StoredQueryConfig = {
+  name: 'tenant-base',
+  description: 'Live documents of the caller\'s tenant',
+  version: 4,
+  tags: ['base'],
+  staticFilters: { deleted: false, archived: false },
+  fieldMappings: { tenantId: 'user.tenantId', ownerId: 'user.id' },
+  dateRanges: [{ field: 'createdAt' }, { field: 'updatedAt' }],
+  conditions: [field('visibility', Operator.NE, 'hidden')],
+  sort: { value: { createdAt: -1 } },
+  collection: 'documents'
+};
+
+const visibleToUser: StoredQueryConfig = {
+  name: 'visible-to-user',
+  conditions: [or(field('ownerId', Operator.EQ, '$user.id'), field('shared', Operator.EQ, true))]
+};
+
+// ============================================================================
+// Extends
+// ============================================================================
+
+describe('Config Inheritance', () => {
+  it('should apply a config on top of its base', async () => {
+    const orders: StoredQueryConfig = {
+      name: 'orders',
+      extends: 'tenant-base',
+      staticFilters: { archived: true, type: 'order' },
+      fieldMappings: { ownerId: 'user.accountId' },
+      dateRanges: [{ field: 'createdAt', from: '$from' }],
+      conditions: [field('total', Operator.GTE, '$minTotal')]
+    };
+
+    expect(await resolveStoredConfig(orders, loaderFor(tenantBase))).toEqual({
+      name: 'orders',
+      staticFilters: { deleted: false, archived: true, type: 'order' },
+      fieldMappings: { tenantId: 'user.tenantId', ownerId: 'user.accountId' },
+      dateRanges: [{ field: 'updatedAt' }, { field: 'createdAt', from: '$from' }],
+      conditions: [field('visibility', Operator.NE, 'hidden'), field('total', Operator.GTE, '$minTotal')],
+      sort: { value: { createdAt: -1 } },
+      collection: 'documents'
+    });
+  });
+
+  it('should resolve bases of bases', async () => {
+    const reports: StoredQueryConfig = { name: 'reports', extends: 'documents', staticFilters: { type: 'report' } };
+    const documents: StoredQueryConfig = { name: 'documents', extends: 'tenant-base', sort: { value: { title: 1 } } };
+
+    const resolved = await resolveStoredConfig(reports, loaderFor(tenantBase, documents));
+
+    expect(resolved.staticFilters).toEqual({ deleted: false, archived: false, type: 'report' });
+    expect(resolved.sort).toEqual({ value: { title: 1 } });
+    expect(resolved.extends).toBeUndefined();
+  });
+
+  it('should not change the configs it resolves', async () => {
+    const base: StoredQueryConfig = { name: 'base', staticFilters: { deleted: false }, conditions: [ref('visible-to-user')] };
+    const config: StoredQueryConfig = { name: 'child', extends: 'base', staticFilters: { type: 'note' } };
+    const snapshot = JSON.stringify([base, config]);
+
+    await resolveStoredConfig(config, loaderFor(base, visibleToUser));
+
+    expect(JSON.stringify([base, config])).toBe(snapshot);
+  });
+
+  // ============================================================================
+  // Fragments
+  // ============================================================================
+
+  it('should replace $ref conditions with the fragment, at any depth', async () => {
+    const scoped: StoredQueryConfig = { name: 'scoped', conditions: [ref('visible-to-user'), field('priority', Operator.GT, 2)] };
+    const config: StoredQueryConfig = {
+      name: 'tasks',
+      conditions: [
+        ref('scoped'),
+        ifElse('includeDrafts', field('status', Operator.IN, ['open', 'draft']), ref('visible-to-user'))
+      ]
+    };
+
+    const resolved = await resolveStoredConfig(config, loaderFor(scoped, visibleToUser));
+
+    expect(resolved.conditions).toEqual([
+      { operator: '$and', conditions: [visibleToUser.conditions![0], field('priority', Operator.GT, 2)] },
+      ifElse('includeDrafts', field('status', Operator.IN, ['open', 'draft']), visibleToUser.conditions![0])
+    ]);
+  });
+
+  it('should keep when/unless rules of a reference', async () => {
+    const config: StoredQueryConfig = { name: 'tasks', conditions: [ref('visible-to-user', { unless: 'user.isAdmin' })] };
+
+    const resolved = await resolveStoredConfig(config, loaderFor(visibleToUser));
+
+    expect(resolved.conditions).toEqual([
+      { operator: '$and', conditions: visibleToUser.conditions, unless: 'user.isAdmin' }
+    ]);
+    expect(QueryBuilder.build(resolved, { user: { id: 'u1', isAdmin: true } })).toEqual({});
+  });
+
+  it('should build resolved configs', async () => {
+    const config: StoredQueryConfig = { name: 'notes', extends: 'tenant-base', conditions: [ref('visible-to-user')] };
+
+    const resolved = await resolveStoredConfig(config, loaderFor(tenantBase, visibleToUser));
+
+    expect(QueryBuilder.build(resolved, { user: { id: 'u1', tenantId: 't1' } })).toEqual({
+      deleted: false,
+      archived: false,
+      tenantId: 't1',
+      ownerId: 'u1',
+      $and: [{ visibility: { $ne: 'hidden' } }, { $or: [{ ownerId: 'u1' }, { shared: true }] }]
+    });
+  });
+
+  // ============================================================================
+  // Errors
+  // ============================================================================
+
+  it('should report missing references with the chain that led to them', async () => {
+    const config: StoredQueryConfig = { name: 'orders', extends: 'documents' };
+    const documents: StoredQueryConfig = { name: 'documents', conditions: [ref('tenant-scope')] };
+
+    const error = await resolutionErrorOf(config, loaderFor(documents));
+
+    expect(error.chain).toEqual(['orders', 'documents', 'tenant-scope']);
+    expect(error.message).toContain("$ref references 'tenant-scope', which does not exist");
+  });
+
+  it('should detect cycles through extends and $ref', async () => {
+    const a: StoredQueryConfig = { name: 'a', extends: 'b' };
+    const b: StoredQueryConfig = { name: 'b', conditions: [ref('c')] };
+    const c: StoredQueryConfig = { name: 'c', conditions: [ref('a')] };
+
+    expect((await resolutionErrorOf(a, loaderFor(a, b, c))).chain).toEqual(['a', 'b', 'c', 'a']);
+    expect((await resolutionErrorOf({ name: 'self', extends: 'self' }, loaderFor())).message).toContain('cycle');
+  });
+
+  it('should only accept fragments that have conditions and nothing else', async () => {
+    const config: StoredQueryConfig = { name: 'tasks', conditions: [ref('tenant-base')] };
+
+    expect((await resolutionErrorOf(config, loaderFor(tenantBase))).message)
+      .toContain("'tenant-base' has staticFilters, fieldMappings, dateRanges, sort");
+    expect((await resolutionErrorOf(config, loaderFor({ name: 'tenant-base' }))).message)
+      .toContain('has no conditions');
+  });
+
+  it('should refuse to build configs that still hold references, at any depth', () => {
+    const config: StoredQueryConfig = {
+      name: 'tasks',
+      conditions: [
+        field('priority', Operator.GT, 2),
+        ifElse('includeDrafts', field('status', Operator.EQ, 'draft'), not(ref('visible-to-user', { when: 'user' })))
+      ]
+    };
+
+    for (const build of [
+      () => QueryBuilder.build(config, {}),
+      () => QueryBuilder.compile(config),
+      () => QueryBuilder.getParameters(config)
+    ]) {
+      expect(build).toThrow(UnresolvedReferenceError);
+    }
+    expect(() => QueryBuilder.build(config)).toThrow(
+      "Condition at 'conditions[1].else.condition' references stored config 'visible-to-user'"
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Config Inheritance
+ *
+ * Flattens stored configs that build on others. `extends: 'base'` starts
+ * from the resolved `base` config and applies the config on top of it, and
+ * a `{ $ref: 'fragment' }` condition is replaced by the conditions of the
+ * stored config named `fragment`.
+ *
+ * Override semantics for a config extending a base:
+ * - `staticFilters`, `fieldMappings` and `parameters` are merged key by key;
+ *   the config's keys replace the base's
+ * - `conditions` are the base's followed by the config's
+ * - `dateRanges` are the base's followed by the config's; a range on a
+ *   field the config also ranges over is replaced
+ * - `sort`, `projection`, `limit`, `skip`, `policy` and `collection` are the
+ *   config's if set, otherwise the base's
+ * - `name`, `description`, `tags` and version metadata are not inherited
+ */
+
+import { ConditionRef, Operator, QueryCondition, QueryConfig } from './query-builder';
+import type { ConditionRules } from './predicates';
+import type { StoredQueryConfig } from './config-store';
+import { ConfigResolutionError } from './errors';
+import { isPlainObject } from './utils';
+
+// Loads a stored config by name, or null if there is none
+export type ConfigLoader = (name: string) => Promise<StoredQueryConfig | null>;
+
+// Fields describing the stored config itself rather than its query
+const OWN_FIELDS = ['_id', 'name', 'description', 'version', 'createdAt', 'updatedAt', 'tags', 'extends'];
+
+// Sections merged key by key, the extending config's keys winning
+const MERGED_SECTIONS = ['staticFilters', 'fieldMappings', 'parameters'] as const;
+
+// Query sections a fragment may not have, as only its conditions are used
+const QUERY_SECTIONS: Array<keyof QueryConfig> = [
+  'staticFilters', 'fieldMappings', 'dateRanges', 'parameters', 'sort', 'projection', 'limit', 'skip'
+];
+
+/**
+ * Reference the conditions of a stored config (a fragment); replaced when
+ * the config is resolved
+ */
+export function ref(name: string, rules: ConditionRules = {}): ConditionRef {
+  return { $ref: name, ...rules };
+}
+
+/**
+ * Resolve a stored config's `extends` chain and `$ref` fragments into one
+ * flat config
+ *
+ * @throws ConfigResolutionError if a referenced config is missing, a
+ * fragment has more than conditions, or the references form a cycle
+ */
+export async function resolveStoredConfig(config: StoredQueryConfig, load: ConfigLoader): Promise<StoredQueryConfig> {
+  return resolve(config, load, [config.name]);
+}
+
+async function resolve(config: StoredQueryConfig, load: ConfigLoader, chain: string[]): Promise<StoredQueryConfig> {
+  const resolved: StoredQueryConfig = { ...config };
+  delete resolved.extends;
+  if (config.conditions) {
+    resolved.conditions = await resolveConditions(config.conditions, load, chain);
+  }
+
+  if (config.extends === undefined) {
+    return resolved;
+  }
+  const base = await loadReference(config.extends, load, chain, 'extends');
+  return extendConfig(await resolve(base, load, [...chain, base.name]), resolved);
+}
+
+async function resolveConditions(
+  conditions: QueryCondition[],
+  load: ConfigLoader,
+  chain: string[]
+): Promise<QueryCondition[]> {
+  return Promise.all(conditions.map(condition => resolveCondition(condition, load, chain)));
+}
+
+async function resolveCondition(condition: QueryCondition, load: ConfigLoader, chain: string[]): Promise<QueryCondition> {
+  if ('$ref' in condition) {
+    const { $ref, ...rules } = condition;
+    const fragment = await loadReference($ref, load, chain, '$ref');
+    const resolved = await resolve(fragment, load, [...chain, $ref]);
+
+    const sections = QUERY_SECTIONS.filter(section => resolved[section] !== undefined);
+    if (sections.length > 0 || !resolved.conditions?.length) {
+      throw new ConfigResolutionError([...chain, $ref], sections.length > 0
+        ? `a $ref fragment may only have conditions, but '${$ref}' has ${sections.join(', ')}`
+        : `'${$ref}' has no conditions to reference`);
+    }
+
+    // Keep the reference's when/unless rules on the replacement
+    if (resolved.conditions.length === 1 && Object.keys(rules).length === 0) {
+      return resolved.conditions[0];
+    }
+    return { operator: Operator.AND, conditions: resolved.conditions, ...rules };
+  }
+
+  const resolved: Record<string, any> = { ...condition };
+  if (Array.isArray(resolved.conditions)) {
+    resolved.conditions = await resolveConditions(resolved.conditions, load, chain);
+  }
+  for (const key of ['condition', 'then', 'else']) {
+    if (isPlainObject(resolved[key])) {
+      resolved[key] = await resolveCondition(resolved[key] as QueryCondition, load, chain);
+    }
+  }
+  return resolved as QueryCondition;
+}
+
+async function loadReference(
+  name: string,
+  load: ConfigLoader,
+  chain: string[],
+  kind: 'extends' | '$ref'
+): Promise<StoredQueryConfig> {
+  if (chain.includes(name)) {
+    throw new ConfigResolutionError([...chain, name], `'${name}' is referenced in a cycle`);
+  }
+  const config = await load(name);
+  if (!config) {
+    throw new ConfigResolutionError([...chain, name], `${kind} references '${name}', which does not exist`);
+  }
+  return config;
+}
+
+/**
+ * Apply a resolved config on top of its resolved base
+ */
+function extendConfig(base: StoredQueryConfig, config: StoredQueryConfig): StoredQueryConfig {
+  const extended: Record<string, any> = {};
+  for (const [key, value] of Object.entries(base)) {
+    if (!OWN_FIELDS.includes(key)) {
+      extended[key] = value;
+    }
+  }
+  Object.assign(extended, withoutUndefined(config));
+
+  for (const section of MERGED_SECTIONS) {
+    if (base[section] && config[section]) {
+      extended[section] = { ...base[section], ...config[section] };
+    }
+  }
+  if (base.conditions && config.conditions) {
+    extended.conditions = [...base.conditions, ...config.conditions];
+  }
+  if (base.dateRanges && config.dateRanges) {
+    const fields = new Set(config.dateRanges.map(range => range.field));
+    extended.dateRanges = [...base.dateRanges.filter(range => !fields.has(range.field)), ...config.dateRanges];
+  }
+
+  return extended as StoredQueryConfig;
+}
+
+function withoutUndefined(value: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined));
+}
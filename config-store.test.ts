@@ -0,0 +1,223 @@
+/**
+ * Config Store Test Suite
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, unlinkSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryConfigStore, QueryConfigRevision, StoredQueryConfig } from './config-store';
+import { FileConfigStore } from './file-config-store';
+import { ConfigChangeEvent } from './config-cache';
+import { QueryBuilder, Operator } from './query-builder';
+
+function revision(config: StoredQueryConfig, version: number): QueryConfigRevision {
+  return { name: config.name, version, config: { ...config, version }, createdAt: new Date('2025-01-01') };
+}
+
+const tasks: StoredQueryConfig = {
+  name: 'tasks',
+  tags: ['work'],
+  staticFilters: { status: 'open' },
+  conditions: [{ field: 'priority', operator: Operator.GTE, value: '$minPriority' }]
+};
+
+// ============================================================================
+// Memory Store
+// ============================================================================
+
+describe('Memory Config Store', () => {
+  it('should save, read, list and delete configs', async () => {
+    const store = new MemoryConfigStore();
+
+    expect(await store.save(revision(tasks, 1))).toBe(true);
+    expect(await store.get('tasks')).toEqual({ ...tasks, version: 1 });
+    expect(await store.list({ tags: ['work'] })).toHaveLength(1);
+    expect(await store.list({ tags: ['home'] })).toHaveLength(0);
+
+    expect(await store.delete('tasks')).toBe(true);
+    expect(await store.delete('tasks')).toBe(false);
+    expect(await store.get('tasks')).toBeNull();
+  });
+
+  it('should only replace the expected version', async () => {
+    const store = new MemoryConfigStore();
+
+    expect(await store.save(revision(tasks, 1), 0)).toBe(true);
+    expect(await store.save(revision(tasks, 2), 0)).toBe(false);
+    expect(await store.save(revision(tasks, 2), 1)).toBe(true);
+    expect((await store.get('tasks'))?.version).toBe(2);
+  });
+
+  it('should keep revisions newest first, after a delete as well', async () => {
+    const store = new MemoryConfigStore();
+    await store.save(revision(tasks, 1));
+    await store.save(revision({ ...tasks, staticFilters: { status: 'done' } }, 2));
+    await store.delete('tasks');
+
+    expect((await store.history('tasks')).map(r => r.version)).toEqual([2, 1]);
+    expect((await store.history('tasks', { limit: 1 })).map(r => r.version)).toEqual([2]);
+    expect((await store.history('tasks', { version: 1 }))[0].config.staticFilters).toEqual({ status: 'open' });
+  });
+
+  it('should copy values in and out', async () => {
+    const store = new MemoryConfigStore([tasks]);
+
+    const loaded = (await store.get('tasks'))!;
+    loaded.staticFilters!.status = 'changed';
+
+    expect((await store.get('tasks'))!.staticFilters).toEqual({ status: 'open' });
+    expect(loaded).not.toBe(tasks);
+  });
+
+  it('should report saves and deletes to watchers', async () => {
+    const store = new MemoryConfigStore();
+    const events: ConfigChangeEvent[] = [];
+    const stop = store.watch(event => events.push(event));
+
+    await store.save(revision(tasks, 1));
+    await store.delete('tasks');
+    stop();
+    await store.save(revision(tasks, 2));
+
+    expect(events).toEqual([
+      { type: 'saved', name: 'tasks', version: 1 },
+      { type: 'deleted', name: 'tasks' }
+    ]);
+  });
+});
+
+// ============================================================================
+// File Store
+// ============================================================================
+
+describe('File Config Store', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'config-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read configs from JSON files named after them', async () => {
+    writeFileSync(join(directory, 'tasks.json'), JSON.stringify({
+      staticFilters: { status: 'open' },
+      updatedAt: '2025-01-02T00:00:00.000Z'
+    }));
+    writeFileSync(join(directory, 'notes.txt'), 'not a config');
+    writeFileSync(join(directory, 'my config.json'), '{}');
+
+    const store = new FileConfigStore(directory);
+
+    expect(await store.get('tasks')).toEqual({
+      name: 'tasks',
+      staticFilters: { status: 'open' },
+      updatedAt: new Date('2025-01-02T00:00:00.000Z')
+    });
+    expect((await store.list()).map(config => config.name)).toEqual(['tasks']);
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should write configs as JSON and only over the expected version', async () => {
+    const store = new FileConfigStore(directory);
+
+    expect(await store.save(revision(tasks, 1), 0)).toBe(true);
+    expect(await store.save(revision(tasks, 2), 0)).toBe(false);
+    expect(await store.save(revision(tasks, 2), 1)).toBe(true);
+
+    const written = JSON.parse(readFileSync(join(directory, 'tasks.json'), 'utf8'));
+    expect(written.version).toBe(2);
+    expect(await store.history('tasks')).toHaveLength(1);
+    expect(await store.delete('tasks')).toBe(true);
+    expect(existsSync(join(directory, 'tasks.json'))).toBe(false);
+  });
+
+  it('should read back dates and regular expressions as they were saved', async () => {
+    const store = new FileConfigStore(directory);
+    const config: StoredQueryConfig = {
+      name: 'users',
+      staticFilters: { name: /^ann/i, deletedAt: { $exists: false } },
+      dateRanges: [{ field: 'createdAt', from: new Date('2025-01-01T00:00:00.000Z') }],
+      updatedAt: new Date('2025-01-02T00:00:00.000Z')
+    };
+    await store.save(revision(config, 1));
+
+    const written = JSON.parse(readFileSync(join(directory, 'users.json'), 'utf8'));
+    expect(written.staticFilters.name).toEqual({ $regularExpression: { pattern: '^ann', options: 'i' } });
+    expect(written.dateRanges[0].from).toEqual({ $date: '2025-01-01T00:00:00.000Z' });
+
+    const read = (await store.get('users'))!;
+    expect(read).toEqual({ ...config, version: 1 });
+    expect(QueryBuilder.build(read)).toEqual({
+      name: /^ann/i,
+      deletedAt: { $exists: false },
+      createdAt: { $gte: new Date('2025-01-01T00:00:00.000Z') }
+    });
+  });
+
+  it('should refuse to save values a file cannot hold', async () => {
+    class ObjectId {
+      constructor(readonly id: string) {}
+    }
+    const store = new FileConfigStore(directory);
+
+    await expect(store.save(revision({ name: 'users', staticFilters: { ownerId: new ObjectId('abc') } }, 1)))
+      .rejects.toThrow("Configuration value at 'users.staticFilters.ownerId' cannot be written to a file");
+    expect(existsSync(join(directory, 'users.json'))).toBe(false);
+  });
+
+  it('should read and write YAML files with the yaml option', async () => {
+    // JSON is valid YAML, which keeps this test free of a YAML dependency
+    const yaml = { parse: (text: string) => JSON.parse(text), stringify: (value: unknown) => JSON.stringify(value) };
+    writeFileSync(join(directory, 'tasks.yml'), JSON.stringify({ staticFilters: { status: 'open' } }));
+
+    const store = new FileConfigStore(directory, { yaml, format: 'yaml' });
+    await store.save(revision({ name: 'users', staticFilters: { active: true } }, 1));
+
+    expect((await store.get('tasks'))?.staticFilters).toEqual({ status: 'open' });
+    expect(existsSync(join(directory, 'users.yaml'))).toBe(true);
+    await expect(new FileConfigStore(directory).get('tasks')).rejects.toThrow('pass the yaml option');
+  });
+
+  it('should reject files that are not config objects or name another config', async () => {
+    writeFileSync(join(directory, 'broken.json'), '{ "staticFilters": ');
+    writeFileSync(join(directory, 'list.json'), '[]');
+    writeFileSync(join(directory, 'renamed.json'), JSON.stringify({ name: 'other' }));
+    const store = new FileConfigStore(directory);
+
+    await expect(store.get('broken')).rejects.toThrow("Invalid configuration file");
+    await expect(store.get('list')).rejects.toThrow('expected an object');
+    await expect(store.get('renamed')).rejects.toThrow("name 'other' does not match the file name");
+    await expect(store.get('../secrets')).rejects.toThrow('cannot be used as a file name');
+  });
+
+  it('should report files changed on disk to watchers', async () => {
+    const store = new FileConfigStore(directory);
+    const events: ConfigChangeEvent[] = [];
+    const stop = store.watch(event => events.push(event));
+
+    try {
+      writeFileSync(join(directory, 'my config.json'), '{}');
+      writeFileSync(join(directory, 'tasks.json'), '{}');
+      await waitFor(() => events.some(event => event.type === 'saved' && event.name === 'tasks'));
+      unlinkSync(join(directory, 'tasks.json'));
+      await waitFor(() => events.some(event => event.type === 'deleted' && event.name === 'tasks'));
+      expect(events.flatMap(event => (event.type === 'reset' ? [] : [event.name]))).not.toContain('my config');
+    } finally {
+      stop();
+    }
+  });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for a change event');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Config Stores
+ *
+ * Where `QueryConfigManager` keeps its configs. A store reads and writes the
+ * current version of each config, records revisions and reports changes;
+ * validation, versioning and caching stay in the manager, so they behave
+ * the same with every store.
+ *
+ * `MemoryConfigStore` keeps everything in process (e.g. for unit tests),
+ * `FileConfigStore` reads JSON/YAML files from a directory and
+ * `MongoConfigStore` (in `mongo-config-store.ts`) uses a MongoDB collection.
+ */
+
+import type { QueryConfig } from './query-builder';
+import type { AccessPolicy } from './access-policy';
+import { ConfigChangeEvent, ConfigChangeListener } from './config-cache';
+import { cloneValue } from './utils';
+
+export interface StoredQueryConfig extends QueryConfig {
+  name: string;
+  description?: string;
+  // Set by saveConfig: 1 for the first save, +1 for every save after that
+  version?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+  tags?: string[];
+  // Access policy enforced by buildQuery
+  policy?: AccessPolicy;
+  // Collection QueryExecutor runs the query against by default
+  collection?: string;
+  // Name of a stored config this one builds on (see config-inheritance.ts)
+  extends?: string;
+}
+
+// An immutable snapshot of a config, written on every save
+export interface QueryConfigRevision {
+  name: string;
+  version: number;
+  config: StoredQueryConfig;
+  author?: string;
+  // Change note
+  note?: string;
+  createdAt: Date;
+}
+
+export interface ConfigListFilter {
+  // Configs with any of these tags
+  tags?: string[];
+}
+
+export interface HistoryOptions {
+  limit?: number;
+  // Only this version
+  version?: number;
+}
+
+export interface ConfigStore {
+  get(name: string): Promise<StoredQueryConfig | null>;
+  /**
+   * Store `revision.config` as the current version and record the revision
+   *
+   * @param expectedVersion - Only replace this version (0: a config that
+   * does not exist or has no version); omit to overwrite
+   * @returns false if the expected version is no longer stored
+   */
+  save(revision: QueryConfigRevision, expectedVersion?: number): Promise<boolean>;
+  // Delete the current version; revisions are kept
+  delete(name: string): Promise<boolean>;
+  list(filter?: ConfigListFilter): Promise<StoredQueryConfig[]>;
+  // Revisions of a config, newest first
+  history(name: string, options?: HistoryOptions): Promise<QueryConfigRevision[]>;
+  // Deliver changes to stored configs; returns a function that stops them
+  watch(listener: ConfigChangeListener): () => void;
+  // Create indexes or other structures the store relies on
+  ensureIndexes?(): Promise<void>;
+}
+
+/**
+ * Keeps configs and revisions in memory
+ *
+ * Values are copied on the way in and out, like a database round trip.
+ * Every manager sharing one store instance sees the others' changes.
+ */
+export class MemoryConfigStore implements ConfigStore {
+  private readonly configs = new Map<string, StoredQueryConfig>();
+  private readonly revisions = new Map<string, QueryConfigRevision[]>();
+  private readonly listeners = new Set<ConfigChangeListener>();
+
+  /**
+   * @param configs - Configs to start with, stored as they are
+   */
+  constructor(configs: StoredQueryConfig[] = []) {
+    for (const config of configs) {
+      this.configs.set(config.name, cloneValue(config));
+    }
+  }
+
+  async get(name: string): Promise<StoredQueryConfig | null> {
+    const config = this.configs.get(name);
+    return config ? cloneValue(config) : null;
+  }
+
+  async save(revision: QueryConfigRevision, expectedVersion?: number): Promise<boolean> {
+    const { name } = revision;
+    if (expectedVersion !== undefined && (this.configs.get(name)?.version ?? 0) !== expectedVersion) {
+      return false;
+    }
+
+    this.configs.set(name, cloneValue(revision.config));
+    this.revisions.set(name, [...(this.revisions.get(name) ?? []), cloneValue(revision)]);
+    this.emit({ type: 'saved', name, version: revision.config.version });
+    return true;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    if (!this.configs.delete(name)) {
+      return false;
+    }
+    this.emit({ type: 'deleted', name });
+    return true;
+  }
+
+  async list(filter: ConfigListFilter = {}): Promise<StoredQueryConfig[]> {
+    return [...this.configs.values()]
+      .filter(config => matchesListFilter(config, filter))
+      .map(config => cloneValue(config));
+  }
+
+  async history(name: string, options: HistoryOptions = {}): Promise<QueryConfigRevision[]> {
+    const revisions = (this.revisions.get(name) ?? [])
+      .filter(revision => options.version === undefined || revision.version === options.version)
+      .sort((a, b) => b.version - a.version);
+
+    return revisions.slice(0, options.limit ?? revisions.length).map(revision => cloneValue(revision));
+  }
+
+  watch(listener: ConfigChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: ConfigChangeEvent): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+}
+
+/**
+ * Check a config against a list filter, for stores that filter in memory
+ */
+export function matchesListFilter(config: StoredQueryConfig, filter: ConfigListFilter): boolean {
+  if (filter.tags && filter.tags.length > 0) {
+    return (config.tags ?? []).some(tag => filter.tags!.includes(tag));
+  }
+  return true;
+}
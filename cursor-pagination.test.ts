@@ -0,0 +1,152 @@
+/**
+ * Cursor Pagination Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createHmac } from 'crypto';
+import { CursorPagination } from './cursor-pagination';
+import { CursorConfigurationError, InvalidCursorError } from './errors';
+import { QueryConfig } from './query-builder';
+import { matches } from './evaluator';
+
+const options = { secret: 'test-secret' };
+
+const config: QueryConfig = {
+  staticFilters: { status: 'active' },
+  sort: { value: { createdAt: -1 } },
+  limit: { value: 20 },
+  skip: { value: 40 }
+};
+
+describe('CursorPagination', () => {
+  it('should build the first page with an _id tie-breaker and no skip', () => {
+    const page = CursorPagination.buildPage(config, {}, undefined, options);
+
+    expect(page).toEqual({
+      filter: { status: 'active' },
+      options: { sort: { createdAt: -1, _id: -1 }, limit: 20 }
+    });
+  });
+
+  it('should keep the sort keys in the projection', () => {
+    const page = (projection: Record<string, 0 | 1>) =>
+      CursorPagination.buildPage({ ...config, projection: { value: projection } }, {}, undefined, options).options.projection;
+
+    expect(page({ title: 1, _id: 0 })).toEqual({ title: 1, _id: 1, createdAt: 1 });
+    expect(page({ body: 0, createdAt: 0 })).toEqual({ body: 0 });
+    expect(page({ _id: 0 })).toBeUndefined();
+  });
+
+  it('should add compound tie-breaker conditions from a cursor', () => {
+    const lastDoc = { _id: 'doc-20', createdAt: new Date('2025-03-01T00:00:00.000Z') };
+    const first = CursorPagination.buildPage(config, {}, undefined, options);
+    const cursor = CursorPagination.encodeCursor(first.options.sort!, lastDoc, options);
+
+    const page = CursorPagination.buildPage(config, {}, cursor, options);
+
+    expect(page.filter).toEqual({
+      $and: [
+        { status: 'active' },
+        {
+          $or: [
+            { createdAt: { $lt: new Date('2025-03-01T00:00:00.000Z') } },
+            { createdAt: null },
+            { createdAt: new Date('2025-03-01T00:00:00.000Z'), _id: { $lt: 'doc-20' } }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('should page past documents with null or missing sort values', () => {
+    const ascending: QueryConfig = { sort: { value: { dueDate: 1 } } };
+    const descending: QueryConfig = { sort: { value: { dueDate: -1 } } };
+    const documents = [
+      { _id: 'a' },
+      { _id: 'b', dueDate: null },
+      { _id: 'c', dueDate: new Date('2025-03-01T00:00:00.000Z') }
+    ];
+    const after = (pageConfig: QueryConfig, last: Record<string, any>) => {
+      const { sort } = CursorPagination.buildPage(pageConfig, {}, undefined, options).options;
+      const cursor = CursorPagination.encodeCursor(sort!, last, options);
+      const { filter } = CursorPagination.buildPage(pageConfig, {}, cursor, options);
+      return documents.filter(document => matches(filter, document)).map(document => document._id);
+    };
+
+    expect(CursorPagination.buildPage(ascending, {}, CursorPagination.encodeCursor(
+      { dueDate: 1, _id: 1 }, { _id: 'a' }, options
+    ), options).filter).toEqual({ $or: [{ dueDate: { $ne: null } }, { dueDate: null, _id: { $gt: 'a' } }] });
+    // Ascending: null and missing first
+    expect(after(ascending, documents[0])).toEqual(['b', 'c']);
+    expect(after(ascending, documents[1])).toEqual(['c']);
+    // Descending: null and missing last
+    expect(after(descending, documents[2])).toEqual(['a', 'b']);
+    expect(after(descending, documents[1])).toEqual(['a']);
+  });
+
+  it('should use $gt for ascending keys and a bare condition for a single key', () => {
+    const idConfig: QueryConfig = { sort: { value: { _id: 1 } } };
+    const cursor = CursorPagination.encodeCursor({ _id: 1 }, { _id: 42 }, options);
+
+    const page = CursorPagination.buildPage(idConfig, {}, cursor, options);
+
+    expect(page.filter).toEqual({ _id: { $gt: 42 } });
+  });
+
+  it('should rebuild ObjectIds with the configured factory', () => {
+    const objectId = { _bsontype: 'ObjectId', toHexString: () => '65f1c0ffee0000000000abcd' };
+    const cursor = CursorPagination.encodeCursor({ _id: 1 }, { _id: objectId }, options);
+
+    const values = CursorPagination.decodeCursor(cursor, { _id: 1 }, {
+      ...options,
+      objectIdFactory: hex => ({ oid: hex })
+    });
+
+    expect(values).toEqual([{ oid: '65f1c0ffee0000000000abcd' }]);
+  });
+
+  it('should refuse to decode ObjectIds without a factory', () => {
+    const objectId = { _bsontype: 'ObjectId', toHexString: () => '65f1c0ffee0000000000abcd' };
+    const cursor = CursorPagination.encodeCursor({ createdAt: -1, _id: -1 }, { createdAt: 1, _id: objectId }, options);
+
+    expect(() => CursorPagination.buildPage(config, {}, cursor, options))
+      .toThrow(new CursorConfigurationError('Cursor holds an ObjectId; pass the objectIdFactory option to decode it'));
+  });
+
+  it('should reject tampered cursors', () => {
+    const cursor = CursorPagination.encodeCursor({ _id: 1 }, { _id: 42 }, options);
+    const [, signature] = cursor.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({ k: [['_id', 1]], v: [{ $ne: null }] })).toString('base64url');
+
+    expect(() => CursorPagination.decodeCursor(`${forgedBody}.${signature}`, { _id: 1 }, options))
+      .toThrow(InvalidCursorError);
+    expect(() => CursorPagination.decodeCursor(cursor, { _id: 1 }, { secret: 'other-secret' }))
+      .toThrow(InvalidCursorError);
+    expect(() => CursorPagination.decodeCursor('garbage', { _id: 1 }, options))
+      .toThrow(InvalidCursorError);
+  });
+
+  it('should reject operator objects even when correctly signed', () => {
+    const body = Buffer.from(JSON.stringify({ k: [['_id', 1]], v: [{ $ne: null }] })).toString('base64url');
+    const signature = createHmac('sha256', options.secret).update(body).digest('base64url');
+
+    expect(() => CursorPagination.decodeCursor(`${body}.${signature}`, { _id: 1 }, options))
+      .toThrow('Cursor contains an unsupported value');
+  });
+
+  it('should reject cursors issued for a different sort', () => {
+    const cursor = CursorPagination.encodeCursor({ createdAt: -1, _id: -1 }, { _id: 1, createdAt: 1 }, options);
+
+    expect(() => CursorPagination.decodeCursor(cursor, { priority: -1, _id: -1 }, options))
+      .toThrow('Cursor was issued for a different sort');
+  });
+
+  it('should require a sort in the config, a secret and scalar sort values', () => {
+    expect(() => CursorPagination.buildPage({}, {}, undefined, options))
+      .toThrow(new CursorConfigurationError('Cursor pagination requires a sort in the query configuration'));
+    expect(() => CursorPagination.encodeCursor({ _id: 1 }, { _id: 1 }, { secret: '' }))
+      .toThrow(CursorConfigurationError);
+    expect(() => CursorPagination.encodeCursor({ tags: 1 }, { tags: ['a'] }, options))
+      .toThrow(CursorConfigurationError);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Keyset (Cursor-Based) Pagination
+ *
+ * Builds "next page" filters from a config's declared sort keys instead of
+ * using `skip`. Cursors are opaque, HMAC-signed tokens holding the sort key
+ * values of the last document of the previous page.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { QueryBuilder, QueryConfig, FindQuery, SortDirection, BuildOptions } from './query-builder';
+import { CursorConfigurationError, InvalidCursorError } from './errors';
+import { getNestedValue } from './utils';
+
+export interface CursorOptions extends BuildOptions {
+  // Secret used to sign and verify cursors. ObjectId sort values are rebuilt
+  // with the `objectIdFactory` build option, which is required to decode them.
+  secret: string;
+}
+
+interface CursorPayload {
+  // Sort keys with their direction, e.g. [['createdAt', -1], ['_id', -1]]
+  k: [string, SortDirection][];
+  // Encoded values of the sort keys, in the same order
+  v: any[];
+}
+
+export class CursorPagination {
+  /**
+   * Build the filter and find options for one page
+   *
+   * The config must declare a sort (see `QueryConfig.sort`). `_id` is appended
+   * as a final tie-breaker when it is not already a sort key, and the
+   * projection always keeps the sort keys. `skip` is ignored.
+   *
+   * @param config - Query configuration
+   * @param data - Input data to inject into the query
+   * @param cursor - Cursor returned for the previous page, if any
+   * @param options - Cursor signing options and build options
+   */
+  static buildPage<T extends Record<string, any> = Record<string, any>>(
+    config: QueryConfig,
+    data: T,
+    cursor: string | undefined,
+    options: CursorOptions
+  ): FindQuery {
+    const { filter, options: findOptions } = QueryBuilder.buildFindOptions(config, data, options);
+    const sort = this.withTieBreaker(findOptions.sort);
+
+    delete findOptions.skip;
+    findOptions.sort = sort;
+    if (findOptions.projection) {
+      const projection = this.withSortKeys(findOptions.projection, sort);
+      if (Object.keys(projection).length > 0) {
+        findOptions.projection = projection;
+      } else {
+        delete findOptions.projection;
+      }
+    }
+
+    if (!cursor) {
+      return { filter, options: findOptions };
+    }
+
+    const values = this.decodeCursor(cursor, sort, options);
+    const cursorFilter = this.buildCursorFilter(sort, values);
+
+    if (Object.keys(filter).length === 0) {
+      return { filter: cursorFilter, options: findOptions };
+    }
+
+    return { filter: { $and: [filter, cursorFilter] }, options: findOptions };
+  }
+
+  /**
+   * Encode the cursor pointing after the given document
+   *
+   * @param sort - Sort used for the page (as returned in `buildPage` options)
+   * @param document - Last document of the current page
+   * @param options - Cursor signing options
+   */
+  static encodeCursor(
+    sort: Record<string, SortDirection>,
+    document: Record<string, any>,
+    options: CursorOptions
+  ): string {
+    const keys = Object.entries(sort);
+    const payload: CursorPayload = {
+      k: keys,
+      v: keys.map(([key]) => this.encodeValue(getNestedValue(document, key)))
+    };
+
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body, options.secret)}`;
+  }
+
+  /**
+   * Verify a cursor and return the sort key values it holds
+   *
+   * @throws InvalidCursorError if the cursor is malformed, tampered with or
+   * was issued for a different sort
+   */
+  static decodeCursor(
+    cursor: string,
+    sort: Record<string, SortDirection>,
+    options: CursorOptions
+  ): any[] {
+    const [body, signature, ...rest] = cursor.split('.');
+    if (!body || !signature || rest.length > 0) {
+      throw new InvalidCursorError('Malformed cursor');
+    }
+
+    const expected = Buffer.from(this.sign(body, options.secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new InvalidCursorError('Cursor signature does not match');
+    }
+
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidCursorError('Malformed cursor');
+    }
+
+    const keys = Object.entries(sort);
+    const matchesSort = Array.isArray(payload?.k) && Array.isArray(payload?.v) &&
+      payload.k.length === keys.length &&
+      payload.v.length === keys.length &&
+      keys.every(([key, direction], i) => payload.k[i][0] === key && payload.k[i][1] === direction);
+
+    if (!matchesSort) {
+      throw new InvalidCursorError('Cursor was issued for a different sort');
+    }
+
+    return payload.v.map(value => this.decodeValue(value, options));
+  }
+
+  /**
+   * Build the compound `$or` that selects documents strictly after the cursor:
+   * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+   *
+   * MongoDB sorts null and missing values before all others, which `$gt` and
+   * `$lt` do not see: after a null comes every non-null value (ascending) or
+   * nothing (descending), and after a value in descending order come the
+   * nulls. A null cursor value matches null and missing fields as equality.
+   */
+  private static buildCursorFilter(
+    sort: Record<string, SortDirection>,
+    values: any[]
+  ): Record<string, any> {
+    const keys = Object.entries(sort);
+    const branches: Record<string, any>[] = [];
+
+    keys.forEach(([key, direction], i) => {
+      const prefix: Record<string, any> = {};
+      for (let j = 0; j < i; j++) {
+        prefix[keys[j][0]] = values[j];
+      }
+
+      if (values[i] === null) {
+        if (direction === 1) {
+          branches.push({ ...prefix, [key]: { $ne: null } });
+        }
+        return;
+      }
+      branches.push({ ...prefix, [key]: { [direction === 1 ? '$gt' : '$lt']: values[i] } });
+      // _id is never null or missing
+      if (direction === -1 && key !== '_id') {
+        branches.push({ ...prefix, [key]: null });
+      }
+    });
+
+    return branches.length === 1 ? branches[0] : { $or: branches };
+  }
+
+  private static withTieBreaker(
+    sort?: Record<string, SortDirection>
+  ): Record<string, SortDirection> {
+    if (!sort || Object.keys(sort).length === 0) {
+      throw new CursorConfigurationError('Cursor pagination requires a sort in the query configuration');
+    }
+
+    if ('_id' in sort) {
+      return sort;
+    }
+
+    // Use the direction of the last sort key so the order stays consistent
+    const directions = Object.values(sort);
+    return { ...sort, _id: directions[directions.length - 1] };
+  }
+
+  /**
+   * Keep the sort keys in the projected documents; a cursor made from a
+   * document without them would point back to the first page
+   */
+  private static withSortKeys(
+    projection: Record<string, 0 | 1>,
+    sort: Record<string, SortDirection>
+  ): Record<string, 0 | 1> {
+    const projected = { ...projection };
+    const inclusive = Object.entries(projected).some(([key, value]) => key !== '_id' && value === 1);
+
+    for (const key of Object.keys(sort)) {
+      if (inclusive) {
+        projected[key] = 1;
+      } else {
+        delete projected[key];
+      }
+    }
+    return projected;
+  }
+
+  private static encodeValue(value: any): any {
+    if (value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return { $date: value.toISOString() };
+    }
+    if (value && value._bsontype === 'ObjectId' && typeof value.toHexString === 'function') {
+      return { $oid: value.toHexString() };
+    }
+    if (value !== null && typeof value === 'object') {
+      throw new CursorConfigurationError('Cursor sort keys must hold scalar values, dates or ObjectIds');
+    }
+    return value;
+  }
+
+  private static decodeValue(value: any, options: CursorOptions): any {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      return value;
+    }
+
+    const keys = value && typeof value === 'object' ? Object.keys(value) : [];
+
+    if (keys.length === 1 && typeof value.$date === 'string') {
+      const date = new Date(value.$date);
+      if (!isNaN(date.getTime())) {
+        return date;
+      }
+    }
+
+    if (keys.length === 1 && typeof value.$oid === 'string' && /^[0-9a-f]{24}$/i.test(value.$oid)) {
+      // As a hex string the value would never equal a stored ObjectId, and
+      // documents tied on the other sort keys would be skipped
+      if (!options.objectIdFactory) {
+        throw new CursorConfigurationError('Cursor holds an ObjectId; pass the objectIdFactory option to decode it');
+      }
+      return options.objectIdFactory(value.$oid);
+    }
+
+    // Anything else could smuggle operators into the filter
+    throw new InvalidCursorError('Cursor contains an unsupported value');
+  }
+
+  private static sign(body: string, secret: string): string {
+    if (!secret) {
+      throw new CursorConfigurationError('Cursor secret is required');
+    }
+    return createHmac('sha256', secret).update(body).digest('base64url');
+  }
+}
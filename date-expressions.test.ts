@@ -0,0 +1,170 @@
+/**
+ * Date Expressions Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { isDateExpression, parseDateExpression, resolveDateExpression } from './date-expressions';
+import { DataValidationError, DateExpressionError } from './errors';
+import { validateConfig } from './validation';
+import { QueryBuilder, QueryConfig, Operator, field, dateRange } from './query-builder';
+
+// A Wednesday
+const clock = () => new Date('2025-05-14T10:30:00.000Z');
+
+function resolve(expression: string, timeZone?: string, roundUp?: boolean): string {
+  return resolveDateExpression(expression, { clock, timeZone, roundUp }).toISOString();
+}
+
+describe('Date Expressions', () => {
+
+  // ============================================================================
+  // Parsing
+  // ============================================================================
+
+  describe('parseDateExpression', () => {
+    it('should parse anchors, offsets and roundings', () => {
+      expect(parseDateExpression('now-7d/d')).toEqual({
+        anchor: 'now',
+        steps: [{ kind: 'add', amount: -7, unit: 'd' }, { kind: 'round', unit: 'd' }]
+      });
+      expect(parseDateExpression('2025-01-31||+1M')).toEqual({
+        anchor: '2025-01-31',
+        steps: [{ kind: 'add', amount: 1, unit: 'M' }]
+      });
+    });
+
+    it('should reject malformed expressions', () => {
+      for (const expression of ['now-7x', 'now+d', 'now/2d', 'now 7d', '2025-13-01||', 'yesterday||']) {
+        expect(() => parseDateExpression(expression)).toThrow(DateExpressionError);
+      }
+    });
+
+    it('should only treat strings starting with now or holding an anchor as expressions', () => {
+      expect(isDateExpression('now')).toBe(true);
+      expect(isDateExpression('2025-01-01||/M')).toBe(true);
+      expect(isDateExpression('2025-01-01')).toBe(false);
+      expect(isDateExpression(new Date())).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // Resolving
+  // ============================================================================
+
+  describe('resolveDateExpression', () => {
+    it('should apply offsets and roundings to the clock', () => {
+      expect(resolve('now')).toBe('2025-05-14T10:30:00.000Z');
+      expect(resolve('now-7d')).toBe('2025-05-07T10:30:00.000Z');
+      expect(resolve('now-7d/d')).toBe('2025-05-07T00:00:00.000Z');
+      expect(resolve('now/M')).toBe('2025-05-01T00:00:00.000Z');
+      expect(resolve('now/w')).toBe('2025-05-12T00:00:00.000Z');
+      expect(resolve('now-1Q/Q')).toBe('2025-01-01T00:00:00.000Z');
+      expect(resolve('now/y+2h-15m')).toBe('2025-01-01T01:45:00.000Z');
+    });
+
+    it('should round up to the end of the unit when asked', () => {
+      expect(resolve('now-1Q/Q', 'UTC', true)).toBe('2025-03-31T23:59:59.999Z');
+      expect(resolve('now/d', 'UTC', true)).toBe('2025-05-14T23:59:59.999Z');
+    });
+
+    it('should clamp month arithmetic to the end of the month', () => {
+      expect(resolve('2025-01-31||+1M')).toBe('2025-02-28T00:00:00.000Z');
+      expect(resolve('2024-01-31||+1M')).toBe('2024-02-29T00:00:00.000Z');
+      expect(resolve('2024-02-29||+1y')).toBe('2025-02-28T00:00:00.000Z');
+    });
+
+    it('should use wall-clock time in the time zone', () => {
+      // 01:30 on May 15th in Kolkata (UTC+05:30)
+      const lateClock = () => new Date('2025-05-14T20:00:00.000Z');
+
+      expect(resolveDateExpression('now/d', { clock: lateClock, timeZone: 'Asia/Kolkata' }).toISOString())
+        .toBe('2025-05-14T18:30:00.000Z');
+      expect(resolveDateExpression('now/d', { clock: lateClock, timeZone: 'Asia/Kolkata', roundUp: true }).toISOString())
+        .toBe('2025-05-15T18:29:59.999Z');
+      expect(resolve('2025-01-01||', 'Asia/Kolkata')).toBe('2024-12-31T18:30:00.000Z');
+      expect(resolve('2025-01-01T00:00:00Z||', 'Asia/Kolkata')).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    it('should keep the time of day across daylight saving changes', () => {
+      // New York moves from UTC-5 to UTC-4 on March 9th, 2025
+      expect(resolve('2025-03-08T12:00||+1d', 'America/New_York')).toBe('2025-03-09T16:00:00.000Z');
+      expect(resolve('2025-03-09T12:00||/d', 'America/New_York')).toBe('2025-03-09T05:00:00.000Z');
+      expect(resolve('2025-03-08T12:00||+24h', 'America/New_York')).toBe('2025-03-09T17:00:00.000Z');
+    });
+
+    it('should reject unknown time zones', () => {
+      expect(() => resolve('now/d', 'Mars/Olympus_Mons')).toThrow("unknown time zone 'Mars/Olympus_Mons'");
+    });
+  });
+
+  // ============================================================================
+  // Query Builder
+  // ============================================================================
+
+  describe('in queries', () => {
+    it('should resolve date range bounds from configs, rounding the upper bound up', () => {
+      const config: QueryConfig = { dateRanges: [dateRange('createdAt', 'now-7d/d', 'now/d')] };
+
+      expect(QueryBuilder.build(config, {}, { clock })).toEqual({
+        createdAt: {
+          $gte: new Date('2025-05-07T00:00:00.000Z'),
+          $lte: new Date('2025-05-14T23:59:59.999Z')
+        }
+      });
+    });
+
+    it('should resolve date range bounds from data in the range time zone', () => {
+      const config: QueryConfig = {
+        dateRanges: [dateRange('createdAt', undefined, undefined, { timeZone: 'Asia/Kolkata' })]
+      };
+
+      const query = QueryBuilder.build(config, { createdAt: { from: 'now/d', to: 'now/d' } }, {
+        clock,
+        timeZone: 'America/New_York'
+      });
+
+      expect(query).toEqual({
+        createdAt: {
+          $gte: new Date('2025-05-13T18:30:00.000Z'),
+          $lte: new Date('2025-05-14T18:29:59.999Z')
+        }
+      });
+    });
+
+    it('should resolve date-typed values and re-read the clock on every compiled call', () => {
+      let now = new Date('2025-05-14T10:30:00.000Z');
+      const config: QueryConfig = {
+        conditions: [{ ...field('lastSeen', Operator.GTE, '$since'), type: 'date' }]
+      };
+      const compiled = QueryBuilder.compile(config, { clock: () => now });
+
+      expect(compiled({ since: 'now-1h' })).toEqual({ lastSeen: { $gte: new Date('2025-05-14T09:30:00.000Z') } });
+      now = new Date('2025-05-15T10:30:00.000Z');
+      expect(compiled({ since: 'now-1h' })).toEqual({ lastSeen: { $gte: new Date('2025-05-15T09:30:00.000Z') } });
+    });
+
+    it('should report malformed expressions in data as invalid parameters', () => {
+      const config: QueryConfig = { dateRanges: [{ field: 'createdAt', type: 'date' }] };
+
+      expect(() => QueryBuilder.build(config, { createdAt: { from: 'now-1 week' } })).toThrow(DateExpressionError);
+      expect(() => QueryBuilder.build(
+        { ...config, parameters: { 'createdAt.from': { type: 'date' } } },
+        { createdAt: { from: 'now-1 week' } }
+      )).toThrow(DataValidationError);
+    });
+  });
+
+  // ============================================================================
+  // Validation
+  // ============================================================================
+
+  describe('validation', () => {
+    it('should check date expressions and time zones in date ranges', () => {
+      expect(() => validateConfig({
+        dateRanges: [{ field: 'createdAt', from: 'now-1Q/Q', to: '2025-06-30', timeZone: 'Asia/Kolkata' }]
+      })).not.toThrow();
+      expect(() => validateConfig({ dateRanges: [{ field: 'createdAt', from: 'now-7days' }] })).toThrow();
+      expect(() => validateConfig({ dateRanges: [{ field: 'createdAt', timeZone: 'Somewhere/Else' }] })).toThrow();
+    });
+  });
+});
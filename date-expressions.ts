@@ -0,0 +1,289 @@
+/**
+ * Date Expressions
+ *
+ * Relative dates for date ranges and date-typed values, so stored configs
+ * keep meaning "the last 7 days" instead of the dates they were saved with.
+ * The syntax is the date math of Elasticsearch, plus quarters:
+ *
+ * - an anchor: `now`, or an ISO date followed by `||` (`2025-01-31||`)
+ * - any number of offsets: `+1d`, `-7d`, `-3h`
+ * - any number of roundings to the start of a unit: `/d`, `/M`
+ *
+ * Units are `y` (years), `Q` (quarters), `M` (months), `w` (weeks, starting
+ * on Monday), `d` (days), `h` (hours), `m` (minutes) and `s` (seconds).
+ * Calendar units are applied to the wall-clock time in the given IANA time
+ * zone, so `now/d` is midnight where the user is and `+1d` keeps the time
+ * of day across daylight saving changes.
+ *
+ * Examples: `now-7d/d` (start of the day a week ago), `now/M` (start of
+ * this month), `now-1Q/Q` (start of the previous quarter).
+ */
+
+import { DateExpressionError } from './errors';
+
+export type DateUnit = 'y' | 'Q' | 'M' | 'w' | 'd' | 'h' | 'm' | 's';
+
+export type DateStep =
+  | { kind: 'add'; amount: number; unit: DateUnit }
+  | { kind: 'round'; unit: DateUnit };
+
+export interface ParsedDateExpression {
+  // 'now', or the ISO date before '||'
+  anchor: string;
+  steps: DateStep[];
+}
+
+export interface DateExpressionOptions {
+  // Current time for `now` (defaults to the system clock)
+  clock?: () => Date;
+  // IANA time zone for calendar units and ISO anchors without an offset (default 'UTC')
+  timeZone?: string;
+}
+
+export interface ResolveDateOptions extends DateExpressionOptions {
+  // Round to the last millisecond of the unit instead of its start, for
+  // inclusive upper bounds (`to: 'now/d'` is the end of today)
+  roundUp?: boolean;
+}
+
+interface WallTime {
+  year: number;
+  // 0-based, like Date
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const EXPRESSION_PATTERN = /^(?:now|(.+)\|\|)((?:[+-]\d+[yQMwdhms]|\/[yQMwdhms])*)$/;
+const STEP_PATTERN = /([+-])(\d+)([yQMwdhms])|\/([yQMwdhms])/g;
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?(Z|[+-]\d{2}:\d{2})?$/;
+
+const UNIT_MS: Partial<Record<DateUnit, number>> = { h: 3600000, m: 60000, s: 1000 };
+const UNIT_MONTHS: Partial<Record<DateUnit, number>> = { y: 12, Q: 3, M: 1 };
+
+const TIME_FIELDS: Array<keyof WallTime> = ['hour', 'minute', 'second', 'millisecond'];
+// Time fields rounding keeps: /h keeps the hour, /m the minute, /s the second
+const KEPT_TIME_FIELDS: Partial<Record<DateUnit, number>> = { h: 1, m: 2, s: 3 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check whether a string is meant as a date expression (starts with `now`
+ * or has an `||` anchor); such strings are resolved instead of being used
+ * as literal values
+ */
+export function isDateExpression(value: unknown): value is string {
+  return typeof value === 'string' && (value.startsWith('now') || value.includes('||'));
+}
+
+/**
+ * Parse a date expression into its anchor and steps
+ *
+ * @throws DateExpressionError if the expression is malformed
+ */
+export function parseDateExpression(expression: string): ParsedDateExpression {
+  const match = EXPRESSION_PATTERN.exec(expression);
+  if (!match) {
+    throw new DateExpressionError(
+      expression,
+      "expected 'now' or '<ISO date>||' followed by offsets like '-7d' and roundings like '/d'"
+    );
+  }
+
+  const anchor = match[1] ?? 'now';
+  if (anchor !== 'now' && parseIsoAnchor(anchor, 'UTC') === undefined) {
+    throw new DateExpressionError(expression, `'${anchor}' is not an ISO date`);
+  }
+
+  const steps: DateStep[] = [];
+  for (const [, sign, amount, unit, roundUnit] of match[2].matchAll(STEP_PATTERN)) {
+    steps.push(roundUnit
+      ? { kind: 'round', unit: roundUnit as DateUnit }
+      : { kind: 'add', amount: Number(sign + amount), unit: unit as DateUnit });
+  }
+  return { anchor, steps };
+}
+
+/**
+ * Resolve a date expression to a date
+ *
+ * @throws DateExpressionError if the expression is malformed or the time
+ * zone is unknown
+ */
+export function resolveDateExpression(expression: string, options: ResolveDateOptions = {}): Date {
+  const { anchor, steps } = parseDateExpression(expression);
+  const timeZone = options.timeZone ?? 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    throw new DateExpressionError(expression, `unknown time zone '${timeZone}'`);
+  }
+
+  let time = anchor === 'now'
+    ? (options.clock ? options.clock() : new Date()).getTime()
+    : parseIsoAnchor(anchor, timeZone)!;
+
+  for (const step of steps) {
+    if (step.kind === 'add') {
+      time = addUnits(time, step.amount, step.unit, timeZone);
+    } else {
+      const start = startOf(time, step.unit, timeZone);
+      time = options.roundUp ? addUnits(start, 1, step.unit, timeZone) - 1 : start;
+    }
+  }
+  return new Date(time);
+}
+
+/**
+ * Parse an ISO 8601 date ('2025-06-30', '2025-06-30T12:00', '2025-06-30T12:00:00Z');
+ * dates without an offset are wall-clock times in the time zone
+ *
+ * @returns undefined if the string is not a valid ISO date
+ */
+export function parseIsoDate(value: string, timeZone = 'UTC'): Date | undefined {
+  const time = parseIsoAnchor(value, timeZone);
+  return time === undefined ? undefined : new Date(time);
+}
+
+/**
+ * Check whether a string names a time zone this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function addUnits(time: number, amount: number, unit: DateUnit, timeZone: string): number {
+  const unitMs = UNIT_MS[unit];
+  if (unitMs !== undefined) {
+    return time + amount * unitMs;
+  }
+
+  const wall = toWallTime(time, timeZone);
+  const months = UNIT_MONTHS[unit];
+  if (months !== undefined) {
+    const month = wall.month + amount * months;
+    wall.year += Math.floor(month / 12);
+    wall.month = ((month % 12) + 12) % 12;
+    // Jan 31 + 1M is the last day of February
+    wall.day = Math.min(wall.day, daysInMonth(wall.year, wall.month));
+  } else {
+    wall.day += amount * (unit === 'w' ? 7 : 1);
+  }
+  return fromWallTime(wall, timeZone);
+}
+
+function startOf(time: number, unit: DateUnit, timeZone: string): number {
+  const wall = toWallTime(time, timeZone);
+  switch (unit) {
+    case 'y':
+      wall.month = 0;
+      wall.day = 1;
+      break;
+    case 'Q':
+      wall.month -= wall.month % 3;
+      wall.day = 1;
+      break;
+    case 'M':
+      wall.day = 1;
+      break;
+    case 'w':
+      // getUTCDay is 0 for Sunday; weeks start on Monday
+      wall.day -= (new Date(Date.UTC(wall.year, wall.month, wall.day)).getUTCDay() + 6) % 7;
+      break;
+  }
+
+  for (const key of TIME_FIELDS.slice(KEPT_TIME_FIELDS[unit] ?? 0)) {
+    wall[key] = 0;
+  }
+  return fromWallTime(wall, timeZone);
+}
+
+/**
+ * Parse an ISO date; dates without an offset are wall-clock times in the
+ * time zone. Returns undefined for invalid dates.
+ */
+function parseIsoAnchor(anchor: string, timeZone: string): number | undefined {
+  const match = ISO_PATTERN.exec(anchor);
+  if (!match) {
+    return undefined;
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(part => Number(part ?? 0));
+  const millisecond = Number((match[7] ?? '0').padEnd(3, '0'));
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month - 1) ||
+    hour > 23 || minute > 59 || second > 59) {
+    return undefined;
+  }
+
+  const wall: WallTime = { year, month: month - 1, day, hour, minute, second, millisecond };
+  const zone = match[8];
+  if (zone === undefined) {
+    return fromWallTime(wall, timeZone);
+  }
+  const sign = zone.startsWith('-') ? -1 : 1;
+  const offsetMinutes = zone === 'Z' ? 0 : sign * (Number(zone.slice(1, 3)) * 60 + Number(zone.slice(4)));
+  return wallTimeAsUtc(wall) - offsetMinutes * 60000;
+}
+
+function toWallTime(time: number, timeZone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(time))) {
+    parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    // Some runtimes format midnight as 24
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: ((time % 1000) + 1000) % 1000
+  };
+}
+
+function fromWallTime(wall: WallTime, timeZone: string): number {
+  const local = wallTimeAsUtc(wall);
+  // The offset at the guessed instant is right unless a DST change lies in between
+  const guess = local - offsetAt(local, timeZone);
+  return local - offsetAt(guess, timeZone);
+}
+
+// Milliseconds the time zone is ahead of UTC at an instant
+function offsetAt(time: number, timeZone: string): number {
+  return wallTimeAsUtc(toWallTime(time, timeZone)) - time;
+}
+
+// Date.UTC normalizes out-of-range fields (day 0, month 12), which the arithmetic relies on
+function wallTimeAsUtc(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // Throws a RangeError for unknown time zones
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
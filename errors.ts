@@ -0,0 +1,272 @@
+/**
+ * Error types thrown by the query builder
+ */
+
+/**
+ * Base class for errors raised by the query builder, so callers can tell
+ * them apart from driver or validation errors
+ */
+export class QueryBuilderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when a pagination cursor is malformed, tampered with, or was
+ * issued for a different sort order
+ */
+export class InvalidCursorError extends QueryBuilderError {}
+
+/**
+ * Thrown when cursor pagination cannot page safely: no sort or secret is
+ * configured, a sort value cannot be put in a cursor, or a cursor holds an
+ * ObjectId without an `objectIdFactory` to rebuild it
+ */
+export class CursorConfigurationError extends QueryBuilderError {}
+
+export type PolicyViolationCode =
+  | 'FIELD_NOT_ALLOWED'
+  | 'OPERATOR_NOT_ALLOWED'
+  | 'OPERATOR_BANNED';
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  // Location in the built filter, e.g. '$or[1].status'
+  path: string;
+  field?: string;
+  operator?: string;
+  message: string;
+}
+
+/**
+ * Thrown when a built query breaks the access policy. Lists every violation
+ * found, not just the first one.
+ */
+export class PolicyViolationError extends QueryBuilderError {
+  readonly violations: PolicyViolation[];
+
+  constructor(violations: PolicyViolation[]) {
+    super(`Query violates access policy: ${violations.map(v => v.message).join('; ')}`);
+    this.violations = violations;
+  }
+}
+
+/**
+ * Thrown in sanitize mode when a value resolved from input data is unsafe
+ * to put into a query (operator keys, oversized arrays)
+ */
+export class UnsafeValueError extends QueryBuilderError {
+  // Data path the value was resolved from
+  readonly dataPath: string;
+
+  constructor(dataPath: string, reason: string) {
+    super(`Unsafe value for '${dataPath}': ${reason}`);
+    this.dataPath = dataPath;
+  }
+}
+
+/**
+ * Thrown when a value cannot be converted to the type declared on a
+ * condition, field mapping or date range
+ */
+export class CoercionError extends QueryBuilderError {
+  // Data path (or field, for static values) the value belongs to
+  readonly dataPath: string;
+  readonly targetType: string;
+  readonly value: unknown;
+
+  constructor(dataPath: string, targetType: string, value: unknown) {
+    super(`Cannot convert value for '${dataPath}' to ${targetType}: ${JSON.stringify(value)}`);
+    this.dataPath = dataPath;
+    this.targetType = targetType;
+    this.value = value;
+  }
+}
+
+export interface DataValidationIssue {
+  // Data path of the offending parameter
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a date expression (e.g. 'now-7d/d') is malformed or names an
+ * unknown time zone
+ */
+export class DateExpressionError extends QueryBuilderError {
+  readonly expression: string;
+
+  constructor(expression: string, reason: string) {
+    super(`Invalid date expression '${expression}': ${reason}`);
+    this.expression = expression;
+  }
+}
+
+/**
+ * Thrown when the lower bound of a range is greater than its upper bound
+ */
+export class InvalidRangeError extends QueryBuilderError {
+  readonly field: string;
+  readonly lower: unknown;
+  readonly upper: unknown;
+
+  constructor(field: string, lower: unknown, upper: unknown) {
+    super(`Invalid range for '${field}': ${JSON.stringify(lower)} is greater than ${JSON.stringify(upper)}`);
+    this.field = field;
+    this.lower = lower;
+    this.upper = upper;
+  }
+}
+
+/**
+ * Thrown when a find option (sort direction, limit or skip) or a pipeline
+ * `$limit` resolves to a value it cannot take
+ */
+export class InvalidFindOptionError extends QueryBuilderError {
+  // 'sort', 'limit', 'skip' or '$limit'
+  readonly option: string;
+  readonly value: unknown;
+
+  constructor(option: string, value: unknown, message: string) {
+    super(message);
+    this.option = option;
+    this.value = value;
+  }
+}
+
+/**
+ * Thrown when a sort or projection names fields outside its `allowedFields`
+ */
+export class FieldNotAllowedError extends QueryBuilderError {
+  // 'sort' or 'projection'
+  readonly section: string;
+  readonly fields: string[];
+
+  constructor(section: string, fields: string[]) {
+    super(`Field(s) not allowed in ${section}: ${fields.join(', ')}`);
+    this.section = section;
+    this.fields = fields;
+  }
+}
+
+/**
+ * Thrown when input data does not match the parameters declared on a
+ * query config. Lists every issue found.
+ */
+export class DataValidationError extends QueryBuilderError {
+  readonly issues: DataValidationIssue[];
+
+  constructor(issues: DataValidationIssue[]) {
+    super(`Invalid query input: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}`);
+    this.issues = issues;
+  }
+}
+
+export interface MergeConflict {
+  field: string;
+  operator: string;
+  // Config sections that set the conflicting values, in build order
+  sources: [string, string];
+  values: [unknown, unknown];
+  message: string;
+}
+
+/**
+ * Thrown when two parts of a config set different equality values for the
+ * same field and the merge policy is 'error'. Lists every conflict found.
+ */
+export class MergeConflictError extends QueryBuilderError {
+  readonly conflicts: MergeConflict[];
+
+  constructor(conflicts: MergeConflict[]) {
+    super(`Conflicting query constraints: ${conflicts.map(c => c.message).join('; ')}`);
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Thrown when a MongoDB filter cannot be expressed as a query config
+ */
+export class FilterParseError extends QueryBuilderError {
+  // Location in the filter, e.g. '$or[1].status'
+  readonly path: string;
+
+  constructor(path: string, reason: string) {
+    super(`Cannot parse filter at '${path}': ${reason}`);
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when a filter cannot be evaluated in memory (unknown or malformed
+ * operators)
+ */
+export class FilterEvaluationError extends QueryBuilderError {
+  // Location in the filter, e.g. '$or[1].status.$mod'
+  readonly path: string;
+
+  constructor(path: string, reason: string) {
+    super(`Cannot evaluate filter at '${path}': ${reason}`);
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when a stored config is saved from a version that is no longer the
+ * current one, i.e. someone else saved it in between
+ */
+export class ConfigVersionConflictError extends QueryBuilderError {
+  readonly configName: string;
+  // Version the rejected save was based on (0 for a new config)
+  readonly expectedVersion: number;
+  // Version currently stored, or null if the config no longer exists
+  readonly currentVersion: number | null;
+
+  constructor(configName: string, expectedVersion: number, currentVersion: number | null) {
+    super(
+      `Configuration '${configName}' was changed by someone else: the save is based on version ${expectedVersion}, ` +
+      (currentVersion === null ? 'but the configuration no longer exists' : `but version ${currentVersion} is current`)
+    );
+    this.configName = configName;
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
+/**
+ * Thrown when a stored config's `extends` or `$ref` references cannot be
+ * resolved: a referenced config is missing or unsuitable, or the references
+ * form a cycle
+ */
+export class ConfigResolutionError extends QueryBuilderError {
+  // Configs followed to the failing reference, starting with the one resolved
+  readonly chain: string[];
+
+  constructor(chain: string[], reason: string) {
+    super(`Cannot resolve configuration '${chain[0]}' (${chain.join(' -> ')}): ${reason}`);
+    this.chain = chain;
+  }
+}
+
+/**
+ * Thrown when a config still holds a `{ $ref }` condition at build time;
+ * references only have a meaning once the stored config is resolved
+ */
+export class UnresolvedReferenceError extends QueryBuilderError {
+  // Name of the referenced stored config
+  readonly ref: string;
+  // Location of the reference in the config, e.g. 'conditions[1].then'
+  readonly path: string;
+
+  constructor(ref: string, path: string) {
+    super(
+      `Condition at '${path}' references stored config '${ref}'; ` +
+      'resolve the config with resolveStoredConfig or QueryConfigManager before building it'
+    );
+    this.ref = ref;
+    this.path = path;
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * In-Memory Evaluator Test Suite
+ *
+ * The golden cases pin the evaluator to MongoDB's results for the same
+ * filters over the same documents.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { FilterEvaluationError } from './errors';
+import { matches, filterDocuments } from './evaluator';
+import { QueryConfig, Operator, field, text } from './query-builder';
+
+const documents = [
+  {
+    _id: 1,
+    name: 'Alice',
+    age: 30,
+    score: 85.5,
+    tags: ['a', 'b'],
+    status: 'active',
+    createdAt: new Date('2025-01-10'),
+    address: { city: 'Paris', zip: '75001' },
+    items: [{ sku: 'x', qty: 2 }, { sku: 'y', qty: 5 }],
+    location: { type: 'Point', coordinates: [2.35, 48.85] }
+  },
+  {
+    _id: 2,
+    name: 'bob',
+    age: 25,
+    tags: ['b', 'c'],
+    status: 'inactive',
+    createdAt: new Date('2025-02-01'),
+    address: { city: 'Berlin' },
+    items: [{ sku: 'x', qty: 10 }],
+    location: { type: 'Point', coordinates: [13.4, 52.52] },
+    notes: null
+  },
+  {
+    _id: 3,
+    name: 'Carol',
+    age: '40',
+    tags: [],
+    status: 'active',
+    items: [],
+    matrix: [[1, 2], [3, 4]],
+    location: [2.29, 48.86]
+  },
+  {
+    _id: 4,
+    name: 'Dave',
+    age: null,
+    tags: 'a',
+    scores: [70, 95],
+    items: [{ sku: 'z' }]
+  },
+  {
+    _id: 5,
+    name: 'Éloïse',
+    age: 35,
+    bio: 'Loves coffee and café culture',
+    status: 'active',
+    scores: [50, 60]
+  }
+];
+
+type GoldenCase = [string, Record<string, any>, number[]];
+
+const paris = { type: 'Point', coordinates: [2.35, 48.85] };
+
+const golden: Record<string, GoldenCase[]> = {
+  Comparison: [
+    ['implicit equality', { age: 30 }, [1]],
+    ['$eq does not convert types', { age: { $eq: '40' } }, [3]],
+    ['$gt only compares numbers with numbers', { age: { $gt: 28 } }, [1, 5]],
+    ['$gte only compares strings with strings', { age: { $gte: '30' } }, [3]],
+    ['$lt', { age: { $lt: 30 } }, [2]],
+    ['$lte null matches null and missing', { age: { $lte: null } }, [4]],
+    ['$ne includes other types and null', { age: { $ne: 30 } }, [2, 3, 4, 5]],
+    ['null matches null', { age: null }, [4]],
+    ['null matches missing fields', { notes: null }, [1, 2, 3, 4, 5]],
+    ['$ne null needs a value', { notes: { $ne: null } }, []],
+    ['$in', { age: { $in: [25, 35] } }, [2, 5]],
+    ['$in with regular expressions', { name: { $in: [/^a/i, 'bob'] } }, [1, 2]],
+    ['$nin includes missing and other types', { age: { $nin: [25, 35] } }, [1, 3, 4]],
+    ['$gte with dates', { createdAt: { $gte: new Date('2025-01-15') } }, [2]],
+    ['$lt does not match missing fields', { createdAt: { $lt: new Date('2025-01-15') } }, [1]],
+    ['dates do not compare with strings', { createdAt: { $gt: '2025-01-01' } }, []]
+  ],
+  Arrays: [
+    ['equality matches an element or a scalar', { tags: 'a' }, [1, 4]],
+    ['equality with an array is exact', { tags: ['a', 'b'] }, [1]],
+    ['array equality is ordered', { tags: ['b', 'a'] }, []],
+    ['empty array', { tags: [] }, [3]],
+    ['$all', { tags: { $all: ['a', 'b'] } }, [1]],
+    ['$all matches scalar fields', { tags: { $all: ['a'] } }, [1, 4]],
+    ['$all with $elemMatch', {
+      items: { $all: [{ $elemMatch: { sku: 'x' } }, { $elemMatch: { qty: { $gt: 4 } } }] }
+    }, [1, 2]],
+    ['$size', { tags: { $size: 2 } }, [1, 2]],
+    ['$size 0', { tags: { $size: 0 } }, [3]],
+    ['$elemMatch on values', { scores: { $elemMatch: { $gte: 90, $lt: 100 } } }, [4]],
+    ['range without $elemMatch can use different elements', { scores: { $gt: 55, $lt: 55 } }, [5]],
+    ['range with $elemMatch needs one element', { scores: { $elemMatch: { $gt: 55, $lt: 55 } } }, []],
+    ['$elemMatch on sub-documents', { items: { $elemMatch: { sku: 'x', qty: { $gte: 5 } } } }, [2]],
+    ['dotted paths into arrays can use different elements', { 'items.sku': 'x', 'items.qty': { $gte: 5 } }, [1, 2]],
+    ['$exists false on a path into an array', { 'items.qty': { $exists: false } }, [3, 4, 5]],
+    ['array index in a path', { 'items.0.sku': 'x' }, [1, 2]],
+    ['array index and field', { 'items.1.qty': 5 }, [1]],
+    ['nested array element', { matrix: [3, 4] }, [3]],
+    ['dotted path into a sub-document', { 'address.city': 'Paris' }, [1]],
+    ['embedded document equality', { address: { city: 'Berlin' } }, [2]],
+    ['embedded document equality is exact', { address: { city: 'Paris' } }, []],
+    ['embedded document equality respects field order', { address: { zip: '75001', city: 'Paris' } }, []],
+    ['embedded documents in arrays respect field order', { items: { qty: 2, sku: 'x' } }, []],
+    ['embedded documents in arrays', { items: { sku: 'x', qty: 2 } }, [1]],
+    ['$exists on a nested field', { 'address.zip': { $exists: true } }, [1]]
+  ],
+  Element: [
+    ['$exists true includes null', { age: { $exists: true } }, [1, 2, 3, 4, 5]],
+    ['$exists true on a null field', { notes: { $exists: true } }, [2]],
+    ['$type string', { age: { $type: 'string' } }, [3]],
+    ['$type number', { age: { $type: 'number' } }, [1, 2, 5]],
+    ['$type null', { age: { $type: 'null' } }, [4]],
+    ['$type double', { score: { $type: 'double' } }, [1]],
+    ['$type list', { age: { $type: ['int', 'string'] } }, [1, 2, 3, 5]],
+    ['$type array', { tags: { $type: 'array' } }, [1, 2, 3]],
+    ['$type code checks array elements', { tags: { $type: 2 } }, [1, 2, 4]],
+    ['$type object', { location: { $type: 'object' } }, [1, 2]]
+  ],
+  'Regular Expressions': [
+    ['regular expression literal', { name: /^b/ }, [2]],
+    ['$regex with $options', { name: { $regex: '^B', $options: 'i' } }, [2]],
+    ['$regex on array elements', { tags: { $regex: '^c' } }, [2]],
+    ['$regex extended option', { name: { $regex: '^ a l i c e $ # name', $options: 'ix' } }, [1]],
+    ['$not with a regular expression includes missing', { name: { $not: /^[a-c]/i } }, [4, 5]],
+    ['$not with operators includes other types', { age: { $not: { $gt: 28 } } }, [2, 3, 4]]
+  ],
+  Evaluation: [
+    ['$mod', { age: { $mod: [10, 5] } }, [2, 5]],
+    ['$mod truncates decimals', { score: { $mod: [4, 1] } }, [1]],
+    ['$expr compares across types by BSON order', { $expr: { $gt: ['$age', 28] } }, [1, 3, 5]],
+    ['$expr with $size and $ifNull', { $expr: { $eq: [{ $size: { $ifNull: ['$scores', []] } }, 2] } }, [4, 5]],
+    ['$expr arithmetic on missing fields is null', { $expr: { $lt: [{ $multiply: ['$score', 2] }, 60] } }, [2, 3, 4, 5]],
+    ['$expr $cond', { $expr: { $cond: [{ $eq: ['$status', 'active'] }, { $gte: ['$age', 35] }, false] } }, [3, 5]],
+    ['$expr dotted field path', { $expr: { $eq: ['$address.city', 'Berlin'] } }, [2]],
+    ['$text word', { $text: { $search: 'coffee' } }, [5]],
+    ['$text is diacritic insensitive', { $text: { $search: 'cafe eloise' } }, [5]],
+    ['$text matches any word', { $text: { $search: 'paris berlin' } }, [1, 2]],
+    ['$text phrase', { $text: { $search: '"coffee and cafe"' } }, [5]],
+    ['$text negated word', { $text: { $search: 'active -paris' } }, [3, 5]],
+    ['$text case sensitive', { $text: { $search: 'Coffee', $caseSensitive: true } }, []]
+  ],
+  Logical: [
+    ['$or', { $or: [{ age: { $lt: 26 } }, { status: 'inactive' }, { name: 'Dave' }] }, [2, 4]],
+    ['$and', { $and: [{ status: 'active' }, { age: { $type: 'number' } }] }, [1, 5]],
+    ['$nor', { $nor: [{ status: 'active' }, { age: null }] }, [2]],
+    ['fields and $or', { status: 'active', $or: [{ tags: 'a' }, { bio: { $exists: true } }] }, [1, 5]]
+  ],
+  Geospatial: [
+    ['$geoWithin polygon', {
+      location: { $geoWithin: { $geometry: { type: 'Polygon', coordinates: [[[2, 48], [3, 48], [3, 49], [2, 49], [2, 48]]] } } }
+    }, [1, 3]],
+    ['$geoWithin $box', { location: { $geoWithin: { $box: [[2.3, 48.8], [2.4, 48.9]] } } }, [1]],
+    ['$geoWithin $center', { location: { $geoWithin: { $center: [[2.3, 48.9], 0.1] } } }, [1, 3]],
+    ['$geoWithin $centerSphere', { location: { $geoWithin: { $centerSphere: [[2.35, 48.85], 10 / 6378.1] } } }, [1, 3]],
+    ['$near within 1000 km', { location: { $near: { $geometry: paris, $maxDistance: 1000000 } } }, [1, 2, 3]],
+    ['$near within 100 km', { location: { $near: { $geometry: paris, $maxDistance: 100000 } } }, [1, 3]],
+    ['$near beyond 100 km', { location: { $near: { $geometry: paris, $minDistance: 100000 } } }, [2]]
+  ]
+};
+
+function idsMatching(filter: Record<string, any>) {
+  return documents.filter(document => matches(filter, document)).map(document => document._id);
+}
+
+function errorPathOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof FilterEvaluationError) {
+      return error.path;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe('In-Memory Evaluator', () => {
+
+  // ============================================================================
+  // Golden Cases
+  // ============================================================================
+
+  for (const [group, cases] of Object.entries(golden)) {
+    describe(group, () => {
+      for (const [name, filter, ids] of cases) {
+        it(`should match MongoDB: ${name}`, () => {
+          expect(idsMatching(filter)).toEqual(ids);
+        });
+      }
+    });
+  }
+
+  it('should match every document with an empty filter', () => {
+    expect(idsMatching({})).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  // ============================================================================
+  // Options
+  // ============================================================================
+
+  describe('Options', () => {
+    it('should limit $text to the given fields', () => {
+      const filter = { $text: { $search: 'paris active' } };
+
+      expect(documents.filter(document => matches(filter, document, { textFields: ['address.city'] }))
+        .map(document => document._id)).toEqual([1]);
+    });
+  });
+
+  // ============================================================================
+  // Built Configs
+  // ============================================================================
+
+  describe('Built Configs', () => {
+    const config: QueryConfig = {
+      staticFilters: { status: 'active' },
+      fieldMappings: { name: 'name' },
+      conditions: [field('age', Operator.GTE, '$minAge'), text('$q')]
+    };
+
+    it('should filter documents with the built query', () => {
+      const ids = (data: Record<string, any>) =>
+        filterDocuments(config, data, documents).map(document => document._id);
+
+      expect(ids({})).toEqual([1, 3, 5]);
+      expect(ids({ minAge: 31 })).toEqual([5]);
+      expect(ids({ name: 'Alice' })).toEqual([1]);
+      expect(ids({ q: 'culture' })).toEqual([5]);
+    });
+
+    it('should pass build and match options through', () => {
+      expect(filterDocuments(config, { q: 'active' }, documents, { textFields: ['name'] })).toEqual([]);
+      expect(() => filterDocuments(config, { name: { $ne: 'x' } }, documents, { sanitize: true })).toThrow();
+    });
+  });
+
+  // ============================================================================
+  // Errors
+  // ============================================================================
+
+  describe('Errors', () => {
+    it('should report the path of operators it cannot evaluate', () => {
+      const cases: [Record<string, any>, string][] = [
+        [{ $where: 'this.a > 1' }, '$where'],
+        [{ a: { $foo: 1 } }, 'a.$foo'],
+        [{ $or: [] }, '$or'],
+        [{ $and: [{ a: { $mod: [0, 1] } }] }, '$and[0].a.$mod'],
+        [{ a: { $type: 'nope' } }, 'a.$type'],
+        [{ a: { $options: 'i' } }, 'a.$options'],
+        [{ $expr: { $eq: ['$a', { $foo: 1 }] } }, '$expr.$eq[1].$foo']
+      ];
+
+      for (const [filter, path] of cases) {
+        expect(errorPathOf(() => matches(filter, { a: 1 }))).toBe(path);
+      }
+    });
+  });
+});
@@ -0,0 +1,920 @@
+/**
+ * In-Memory Evaluator
+ *
+ * Tests documents against MongoDB filters without a database, e.g. to
+ * unit-test configs or to filter cached arrays. Follows MongoDB's query
+ * semantics:
+ *
+ * - dotted paths reach into arrays of sub-documents ('items.sku') and
+ *   array indexes ('items.0.sku')
+ * - an array field matches when the array itself or any element does
+ * - comparisons only match values of the same type ($gt 5 never matches '6')
+ * - `null` matches null and missing fields
+ * - embedded documents are only equal with the same fields in the same order
+ *
+ * Approximations: `$text` matches whole words and phrases (case and
+ * diacritic insensitive by default) without a language's stemming or stop
+ * words, `$geoWithin` tests polygons on the plane of longitude/latitude,
+ * and `$near` filters by distance but does not sort.
+ */
+
+import { QueryBuilder, QueryConfig, BuildOptions } from './query-builder';
+import { FilterEvaluationError } from './errors';
+import { isDeepEqual, isOperatorObject, isPlainObject } from './utils';
+
+export interface MatchOptions {
+  // Fields searched by $text (default: every string in the document)
+  textFields?: string[];
+}
+
+// Mean earth radius used by MongoDB for spherical distances
+const EARTH_RADIUS_METERS = 6378100;
+
+const INT32_MAX = 2147483647;
+const INT32_MIN = -2147483648;
+
+// $type aliases and their BSON type numbers
+const TYPE_CODES: Record<string, number> = {
+  double: 1,
+  string: 2,
+  object: 3,
+  array: 4,
+  binData: 5,
+  undefined: 6,
+  objectId: 7,
+  bool: 8,
+  date: 9,
+  null: 10,
+  regex: 11,
+  javascript: 13,
+  int: 16,
+  timestamp: 17,
+  long: 18,
+  decimal: 19,
+  minKey: -1,
+  maxKey: 127
+};
+
+const NUMBER_TYPES = ['double', 'int', 'long', 'decimal'];
+
+// BSON comparison order used by aggregation expressions
+const TYPE_ORDER = [
+  'undefined', 'minKey', 'null', 'number', 'string', 'object', 'array', 'binData',
+  'objectId', 'bool', 'date', 'timestamp', 'regex', 'maxKey'
+];
+
+// Top-level operators that make an $elemMatch query a document query
+const QUERY_OPERATORS = ['$and', '$or', '$nor', '$expr', '$text'];
+
+type Position = [number, number];
+
+/**
+ * Test whether a document matches a MongoDB filter
+ *
+ * @throws FilterEvaluationError for unsupported or malformed operators
+ */
+export function matches(filter: Record<string, any>, document: any, options: MatchOptions = {}): boolean {
+  return matchDocument(filter, document, '', options);
+}
+
+/**
+ * Build a config with the given data and keep the documents that match it
+ *
+ * @throws the same errors as `QueryBuilder.build` and `matches`
+ */
+export function filterDocuments<D>(
+  config: QueryConfig,
+  data: Record<string, any>,
+  documents: D[],
+  options: BuildOptions & MatchOptions = {}
+): D[] {
+  const { textFields, ...buildOptions } = options;
+  const filter = QueryBuilder.build(config, data, buildOptions);
+  return documents.filter(document => matchDocument(filter, document, '', { textFields }));
+}
+
+function matchDocument(filter: any, document: any, path: string, options: MatchOptions): boolean {
+  if (!isPlainObject(filter)) {
+    throw new FilterEvaluationError(path || '(root)', 'expected a filter object');
+  }
+
+  return Object.entries(filter).every(([key, value]) => {
+    const keyPath = path ? `${path}.${key}` : key;
+
+    switch (key) {
+      case '$and':
+        return clausesOf(value, keyPath).every((clause, i) =>
+          matchDocument(clause, document, `${keyPath}[${i}]`, options));
+      case '$or':
+        return clausesOf(value, keyPath).some((clause, i) =>
+          matchDocument(clause, document, `${keyPath}[${i}]`, options));
+      case '$nor':
+        return !clausesOf(value, keyPath).some((clause, i) =>
+          matchDocument(clause, document, `${keyPath}[${i}]`, options));
+      case '$expr':
+        return isTruthy(evaluateExpression(value, document, keyPath));
+      case '$text':
+        return matchText(value, document, keyPath, options);
+      case '$comment':
+        return true;
+      default:
+        if (key.startsWith('$')) {
+          throw new FilterEvaluationError(keyPath, `unsupported top-level operator ${key}`);
+        }
+        return matchValues(lookupPath(document, key), value, keyPath, options);
+    }
+  });
+}
+
+function clausesOf(value: any, path: string): any[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new FilterEvaluationError(path, 'expected a non-empty array of clauses');
+  }
+  return value;
+}
+
+/**
+ * Match the values found at a field path against its condition
+ */
+function matchValues(values: any[], condition: any, path: string, options: MatchOptions): boolean {
+  if (condition instanceof RegExp) {
+    return someElement(values, value => matchRegex(value, condition));
+  }
+  if (isOperatorObject(condition)) {
+    return Object.entries(condition).every(([operator, operand]) =>
+      matchOperator(values, operator, operand, condition, `${path}.${operator}`, options));
+  }
+  return matchEquality(values, condition);
+}
+
+function matchOperator(
+  values: any[],
+  operator: string,
+  operand: any,
+  siblings: Record<string, any>,
+  path: string,
+  options: MatchOptions
+): boolean {
+  switch (operator) {
+    case '$eq':
+      return matchEquality(values, operand);
+    case '$ne':
+      return !matchEquality(values, operand);
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte':
+      return matchComparison(values, operator, operand);
+    case '$in':
+      return matchIn(values, listOf(operand, path));
+    case '$nin':
+      return !matchIn(values, listOf(operand, path));
+    case '$exists':
+      return values.some(value => value !== undefined) === Boolean(operand);
+    case '$type':
+      return matchType(values, operand, path);
+    case '$regex': {
+      const regex = toRegExp(operand, siblings.$options, path);
+      return someElement(values, value => matchRegex(value, regex));
+    }
+    case '$options':
+      if (!('$regex' in siblings)) {
+        throw new FilterEvaluationError(path, '$options needs $regex');
+      }
+      return true;
+    case '$all':
+      return matchAll(values, listOf(operand, path), path, options);
+    case '$elemMatch':
+      return values.some(value =>
+        Array.isArray(value) && value.some(element => matchElement(element, operand, path, options)));
+    case '$size':
+      if (typeof operand !== 'number' || !Number.isInteger(operand)) {
+        throw new FilterEvaluationError(path, '$size needs an integer');
+      }
+      return values.some(value => Array.isArray(value) && value.length === operand);
+    case '$mod':
+      return matchMod(values, operand, path);
+    case '$not':
+      if (!(operand instanceof RegExp) && !isOperatorObject(operand)) {
+        throw new FilterEvaluationError(path, '$not needs a regular expression or an operator object');
+      }
+      return !matchValues(values, operand, path, options);
+    case '$geoWithin':
+      return values.some(value => isWithin(value, operand, path));
+    case '$near':
+      return values.some(value => isNear(value, operand, siblings, path));
+    case '$maxDistance':
+    case '$minDistance':
+      if (!('$near' in siblings)) {
+        throw new FilterEvaluationError(path, `${operator} needs $near`);
+      }
+      return true;
+    default:
+      throw new FilterEvaluationError(path, `unsupported operator ${operator}`);
+  }
+}
+
+/**
+ * Values at a dotted path, descending into arrays of sub-documents. A path
+ * that leads nowhere yields a single undefined (missing) value.
+ */
+function lookupPath(document: any, path: string): any[] {
+  const values = collectPath(document, path.split('.'), 0);
+  return values.length > 0 ? values : [undefined];
+}
+
+function collectPath(value: any, keys: string[], i: number): any[] {
+  if (i === keys.length) {
+    return [value];
+  }
+
+  if (Array.isArray(value)) {
+    const results: any[] = [];
+    if (/^\d+$/.test(keys[i])) {
+      results.push(...collectPath(value[Number(keys[i])], keys, i + 1));
+    }
+    for (const element of value) {
+      if (isDocument(element)) {
+        results.push(...collectPath(element, keys, i));
+      }
+    }
+    return results;
+  }
+
+  if (isDocument(value)) {
+    return collectPath(value[keys[i]], keys, i + 1);
+  }
+
+  return [undefined];
+}
+
+/**
+ * Test each value and, for arrays, each element
+ */
+function someElement(values: any[], test: (value: any) => boolean): boolean {
+  return values.some(value => test(value) || (Array.isArray(value) && value.some(test)));
+}
+
+function matchEquality(values: any[], operand: any): boolean {
+  if (operand === null || operand === undefined) {
+    return values.some(value =>
+      value === undefined || value === null || (Array.isArray(value) && value.some(element => element === null)));
+  }
+  return someElement(values, value => isEqualValue(value, operand));
+}
+
+function matchComparison(values: any[], operator: string, operand: any): boolean {
+  if (operand === null || operand === undefined) {
+    // null is only equal to itself: $gte/$lte null match null and missing
+    return (operator === '$gte' || operator === '$lte') && matchEquality(values, null);
+  }
+
+  return someElement(values, value => {
+    const order = compareValues(value, operand);
+    if (order === undefined) {
+      return false;
+    }
+    switch (operator) {
+      case '$gt': return order > 0;
+      case '$gte': return order >= 0;
+      case '$lt': return order < 0;
+      default: return order <= 0;
+    }
+  });
+}
+
+function matchIn(values: any[], list: any[]): boolean {
+  return list.some(entry => entry instanceof RegExp
+    ? someElement(values, value => matchRegex(value, entry))
+    : matchEquality(values, entry));
+}
+
+function matchAll(values: any[], list: any[], path: string, options: MatchOptions): boolean {
+  if (list.length === 0) {
+    return false;
+  }
+  return list.every(entry => {
+    if (isPlainObject(entry) && '$elemMatch' in entry) {
+      return matchOperator(values, '$elemMatch', entry.$elemMatch, entry, `${path}.$elemMatch`, options);
+    }
+    return entry instanceof RegExp
+      ? someElement(values, value => matchRegex(value, entry))
+      : matchEquality(values, entry);
+  });
+}
+
+/**
+ * Match one array element against an $elemMatch query: operator form
+ * ({ $gte: 5 }) tests the element itself, anything else is a query on the
+ * element as a sub-document
+ */
+function matchElement(element: any, query: any, path: string, options: MatchOptions): boolean {
+  if (!isPlainObject(query)) {
+    throw new FilterEvaluationError(path, '$elemMatch needs a query object');
+  }
+  const keys = Object.keys(query);
+  if (keys.length > 0 && keys.every(key => key.startsWith('$') && !QUERY_OPERATORS.includes(key))) {
+    return matchValues([element], query, path, options);
+  }
+  return isDocument(element) && !Array.isArray(element) && matchDocument(query, element, path, options);
+}
+
+function matchMod(values: any[], operand: any, path: string): boolean {
+  if (!Array.isArray(operand) || operand.length !== 2 || !operand.every(n => typeof n === 'number')) {
+    throw new FilterEvaluationError(path, '$mod needs [divisor, remainder]');
+  }
+  const divisor = Math.trunc(operand[0]);
+  const remainder = Math.trunc(operand[1]);
+  if (divisor === 0) {
+    throw new FilterEvaluationError(path, '$mod divisor cannot be 0');
+  }
+  return someElement(values, value =>
+    typeClass(value) === 'number' && Math.trunc(toNumber(value)) % divisor === remainder);
+}
+
+function matchType(values: any[], operand: any, path: string): boolean {
+  const aliases = (Array.isArray(operand) ? operand : [operand]).map(type => typeAlias(type, path));
+  return someElement(values, value => {
+    const type = bsonType(value);
+    return aliases.some(alias => alias === type || (alias === 'number' && NUMBER_TYPES.includes(type!)));
+  });
+}
+
+function typeAlias(type: any, path: string): string {
+  if (type === 'number') {
+    return type;
+  }
+  const alias = typeof type === 'number'
+    ? Object.keys(TYPE_CODES).find(key => TYPE_CODES[key] === type)
+    : (type in TYPE_CODES ? type : undefined);
+  if (alias === undefined) {
+    throw new FilterEvaluationError(path, `unknown type ${JSON.stringify(type)}`);
+  }
+  return alias;
+}
+
+function matchRegex(value: any, regex: RegExp): boolean {
+  return typeof value === 'string' && regex.test(value);
+}
+
+function toRegExp(pattern: any, options: any, path: string): RegExp {
+  if (!(pattern instanceof RegExp) && typeof pattern !== 'string') {
+    throw new FilterEvaluationError(path, '$regex needs a string or regular expression');
+  }
+  let source = pattern instanceof RegExp ? pattern.source : pattern;
+  const flags = new Set((pattern instanceof RegExp ? pattern.flags : '') + (options ?? ''));
+  flags.delete('g');
+  flags.delete('y');
+
+  if (flags.has('x')) {
+    // Extended: drop unescaped whitespace and # comments
+    source = source.replace(/\\[\s\S]|#[^\n]*|\s+/g, (match: string) => (match.startsWith('\\') ? match : ''));
+    flags.delete('x');
+  }
+
+  const unsupported = [...flags].filter(flag => !'imsu'.includes(flag));
+  if (unsupported.length > 0) {
+    throw new FilterEvaluationError(path, `unsupported $regex options: ${unsupported.join('')}`);
+  }
+
+  return new RegExp(source, [...flags].join(''));
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/**
+ * Comparison class of a value: query comparisons only match values of the
+ * same class
+ */
+function typeClass(value: any): string | undefined {
+  const type = bsonType(value);
+  if (type === undefined) {
+    return undefined;
+  }
+  return NUMBER_TYPES.includes(type) ? 'number' : type;
+}
+
+function bsonType(value: any): string | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (value instanceof RegExp) return 'regex';
+  if (value instanceof Uint8Array) return 'binData';
+
+  switch (typeof value) {
+    case 'number':
+      return Number.isInteger(value) && value >= INT32_MIN && value <= INT32_MAX ? 'int' : 'double';
+    case 'bigint':
+      return 'long';
+    case 'string':
+      return 'string';
+    case 'boolean':
+      return 'bool';
+    case 'function':
+      return 'javascript';
+  }
+
+  // Driver types such as ObjectId and Decimal128
+  switch (value._bsontype) {
+    case 'ObjectId':
+    case 'ObjectID': return 'objectId';
+    case 'Decimal128': return 'decimal';
+    case 'Long': return 'long';
+    case 'Double': return 'double';
+    case 'Int32': return 'int';
+    case 'Binary': return 'binData';
+    case 'Timestamp': return 'timestamp';
+    case 'Code': return 'javascript';
+    case 'BSONRegExp': return 'regex';
+    case 'MinKey': return 'minKey';
+    case 'MaxKey': return 'maxKey';
+  }
+
+  return 'object';
+}
+
+function toNumber(value: any): number {
+  return typeof value === 'number' ? value : Number(value.toString());
+}
+
+/**
+ * Order two values of the same comparison class, or undefined when they
+ * cannot be compared
+ */
+function compareValues(a: any, b: any): number | undefined {
+  const type = typeClass(a);
+  if (type === undefined || type !== typeClass(b)) {
+    return undefined;
+  }
+
+  switch (type) {
+    case 'number':
+      return Math.sign(toNumber(a) - toNumber(b));
+    case 'string':
+      return a < b ? -1 : a > b ? 1 : 0;
+    case 'date':
+      return Math.sign(a.getTime() - b.getTime());
+    case 'bool':
+      return Number(a) - Number(b);
+    case 'objectId': {
+      const hexA = a.toHexString();
+      const hexB = b.toHexString();
+      return hexA < hexB ? -1 : hexA > hexB ? 1 : 0;
+    }
+    default:
+      return isEqualValue(a, b) ? 0 : undefined;
+  }
+}
+
+function isEqualValue(a: any, b: any): boolean {
+  if (typeClass(a) === 'number' && typeClass(b) === 'number') {
+    return toNumber(a) === toNumber(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqualValue(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    // BSON compares embedded documents field by field, in order
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length &&
+      keysA.every((key, i) => key === keysB[i] && isEqualValue(a[key], b[key]));
+  }
+  return isDeepEqual(a, b);
+}
+
+/**
+ * Order any two values, across types by BSON comparison order, as
+ * aggregation expressions do
+ */
+function compareAny(a: any, b: any): number {
+  const rankA = TYPE_ORDER.indexOf(typeClass(a) ?? 'undefined');
+  const rankB = TYPE_ORDER.indexOf(typeClass(b) ?? 'undefined');
+  if (rankA !== rankB) {
+    return Math.sign(rankA - rankB);
+  }
+  const order = compareValues(a, b);
+  if (order !== undefined) {
+    return order;
+  }
+  const keyA = JSON.stringify(a);
+  const keyB = JSON.stringify(b);
+  return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+}
+
+// ============================================================================
+// $expr
+// ============================================================================
+
+/**
+ * Evaluate an aggregation expression against a document
+ */
+function evaluateExpression(expression: any, root: any, path: string): any {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return resolveVariable(expression, root, path);
+  }
+  if (Array.isArray(expression)) {
+    return expression.map((item, i) => evaluateExpression(item, root, `${path}[${i}]`));
+  }
+  if (!isPlainObject(expression)) {
+    return expression;
+  }
+
+  const keys = Object.keys(expression);
+  if (keys.length === 1 && keys[0].startsWith('$')) {
+    return applyExpressionOperator(keys[0], expression[keys[0]], root, `${path}.${keys[0]}`);
+  }
+  const operator = keys.find(key => key.startsWith('$'));
+  if (operator !== undefined) {
+    throw new FilterEvaluationError(`${path}.${operator}`, 'an expression operator must be the only key');
+  }
+
+  const result: Record<string, any> = {};
+  for (const key of keys) {
+    result[key] = evaluateExpression(expression[key], root, `${path}.${key}`);
+  }
+  return result;
+}
+
+function resolveVariable(reference: string, root: any, path: string): any {
+  if (!reference.startsWith('$$')) {
+    return fieldPathValue(root, reference.substring(1).split('.'));
+  }
+  const [variable, ...keys] = reference.substring(2).split('.');
+  if (variable !== 'ROOT' && variable !== 'CURRENT') {
+    throw new FilterEvaluationError(path, `unsupported variable $$${variable}`);
+  }
+  return keys.length > 0 ? fieldPathValue(root, keys) : root;
+}
+
+/**
+ * Aggregation field path: arrays map to the values found in their elements
+ */
+function fieldPathValue(value: any, keys: string[]): any {
+  let current = value;
+  for (let i = 0; i < keys.length; i++) {
+    if (Array.isArray(current)) {
+      const rest = keys.slice(i);
+      return current.map(element => fieldPathValue(element, rest)).filter(element => element !== undefined);
+    }
+    if (!isDocument(current)) {
+      return undefined;
+    }
+    current = current[keys[i]];
+  }
+  return current;
+}
+
+function applyExpressionOperator(operator: string, operand: any, root: any, path: string): any {
+  if (operator === '$literal') {
+    return operand;
+  }
+
+  const args: any[] = operator === '$cond' && isPlainObject(operand)
+    ? [operand.if, operand.then, operand.else]
+    : (Array.isArray(operand) ? operand : [operand]);
+  const evaluate = (index: number) => evaluateExpression(args[index], root, `${path}[${index}]`);
+  const values = () => args.map((_, i) => evaluate(i));
+  const expectArgs = (count: number) => {
+    if (args.length !== count) {
+      throw new FilterEvaluationError(path, `${operator} needs ${count} argument${count === 1 ? '' : 's'}`);
+    }
+  };
+
+  switch (operator) {
+    case '$eq':
+    case '$ne':
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte':
+    case '$cmp': {
+      expectArgs(2);
+      const order = compareAny(evaluate(0), evaluate(1));
+      switch (operator) {
+        case '$eq': return order === 0;
+        case '$ne': return order !== 0;
+        case '$gt': return order > 0;
+        case '$gte': return order >= 0;
+        case '$lt': return order < 0;
+        case '$lte': return order <= 0;
+        default: return order;
+      }
+    }
+    case '$and':
+      return args.every((_, i) => isTruthy(evaluate(i)));
+    case '$or':
+      return args.some((_, i) => isTruthy(evaluate(i)));
+    case '$not':
+      expectArgs(1);
+      return !isTruthy(evaluate(0));
+    case '$cond':
+      expectArgs(3);
+      return isTruthy(evaluate(0)) ? evaluate(1) : evaluate(2);
+    case '$ifNull': {
+      const evaluated = values();
+      const found = evaluated.slice(0, -1).find(value => value !== null && value !== undefined);
+      return found !== undefined ? found : evaluated[evaluated.length - 1];
+    }
+    case '$add':
+    case '$subtract':
+    case '$multiply':
+    case '$divide':
+    case '$mod':
+    case '$abs':
+      return applyArithmetic(operator, values(), path);
+    case '$in': {
+      expectArgs(2);
+      const list = evaluate(1);
+      if (!Array.isArray(list)) {
+        throw new FilterEvaluationError(path, '$in needs an array as its second argument');
+      }
+      const value = evaluate(0);
+      return list.some(element => compareAny(value, element) === 0);
+    }
+    case '$size': {
+      expectArgs(1);
+      const value = evaluate(0);
+      if (!Array.isArray(value)) {
+        throw new FilterEvaluationError(path, '$size needs an array');
+      }
+      return value.length;
+    }
+    case '$concat': {
+      const evaluated = values();
+      return evaluated.some(value => value === null || value === undefined) ? null : evaluated.join('');
+    }
+    case '$toLower':
+    case '$toUpper': {
+      expectArgs(1);
+      const value = evaluate(0);
+      const text = value === null || value === undefined ? '' : String(value);
+      return operator === '$toLower' ? text.toLowerCase() : text.toUpperCase();
+    }
+    default:
+      throw new FilterEvaluationError(path, `unsupported expression operator ${operator}`);
+  }
+}
+
+function applyArithmetic(operator: string, values: any[], path: string): any {
+  if (values.some(value => value === null || value === undefined)) {
+    return null;
+  }
+
+  const numbers = values.map(value => (value instanceof Date ? value.getTime() : value));
+  if (!numbers.every(value => typeClass(value) === 'number')) {
+    throw new FilterEvaluationError(path, `${operator} needs numbers`);
+  }
+  const [a, b] = numbers.map(toNumber);
+
+  switch (operator) {
+    case '$add': {
+      const sum = numbers.map(toNumber).reduce((total, value) => total + value, 0);
+      return values.some(value => value instanceof Date) ? new Date(sum) : sum;
+    }
+    case '$subtract':
+      // date - number is a date, date - date is milliseconds
+      return values[0] instanceof Date && !(values[1] instanceof Date) ? new Date(a - b) : a - b;
+    case '$multiply':
+      return numbers.map(toNumber).reduce((total, value) => total * value, 1);
+    case '$divide':
+      if (b === 0) {
+        throw new FilterEvaluationError(path, 'cannot divide by zero');
+      }
+      return a / b;
+    case '$mod':
+      if (b === 0) {
+        throw new FilterEvaluationError(path, 'cannot take a remainder by zero');
+      }
+      return a % b;
+    default:
+      return Math.abs(a);
+  }
+}
+
+function isTruthy(value: any): boolean {
+  return value !== false && value !== null && value !== undefined && value !== 0;
+}
+
+// ============================================================================
+// $text
+// ============================================================================
+
+function matchText(spec: any, document: any, path: string, options: MatchOptions): boolean {
+  if (!isPlainObject(spec) || typeof spec.$search !== 'string') {
+    throw new FilterEvaluationError(path, '$text needs a $search string');
+  }
+  const unknown = Object.keys(spec).filter(key =>
+    !['$search', '$language', '$caseSensitive', '$diacriticSensitive'].includes(key));
+  if (unknown.length > 0) {
+    throw new FilterEvaluationError(path, `unsupported $text options: ${unknown.join(', ')}`);
+  }
+
+  const normalize = (text: string) => {
+    const cased = spec.$caseSensitive ? text : text.toLowerCase();
+    return spec.$diacriticSensitive ? cased : cased.normalize('NFD').replace(/\p{M}/gu, '');
+  };
+
+  const phrases = [...spec.$search.matchAll(/"([^"]*)"/g)]
+    .map(match => normalize(match[1]).trim())
+    .filter(Boolean);
+  const terms = spec.$search.replace(/"[^"]*"/g, ' ').split(/\s+/).filter(Boolean);
+  const excluded = terms.filter((term: string) => term.startsWith('-')).flatMap((term: string) => words(normalize(term)));
+  const included = terms.filter((term: string) => !term.startsWith('-')).flatMap((term: string) => words(normalize(term)));
+
+  const texts = (options.textFields
+    ? options.textFields.flatMap(field => lookupPath(document, field))
+    : [document]
+  ).flatMap(collectStrings).map(normalize);
+  const documentWords = new Set(texts.flatMap(words));
+
+  if (excluded.some(word => documentWords.has(word))) {
+    return false;
+  }
+  if (phrases.length > 0) {
+    return phrases.every(phrase => texts.some(text => text.includes(phrase)));
+  }
+  return included.some(word => documentWords.has(word));
+}
+
+function words(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function collectStrings(value: any): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectStrings);
+  }
+  if (isPlainObject(value)) {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+}
+
+// ============================================================================
+// Geospatial
+// ============================================================================
+
+function isWithin(value: any, shape: any, path: string): boolean {
+  if (!isPlainObject(shape)) {
+    throw new FilterEvaluationError(path, '$geoWithin needs a shape');
+  }
+  const positions = positionsOf(value);
+  if (!positions) {
+    return false;
+  }
+
+  if (shape.$geometry !== undefined) {
+    const { type, coordinates } = shape.$geometry ?? {};
+    if (type === 'Polygon') {
+      return positions.every(position => inPolygon(position, coordinates));
+    }
+    if (type === 'MultiPolygon') {
+      return positions.every(position => coordinates.some((polygon: Position[][]) => inPolygon(position, polygon)));
+    }
+    throw new FilterEvaluationError(`${path}.$geometry`, '$geoWithin needs a Polygon or MultiPolygon');
+  }
+  if (shape.$box !== undefined) {
+    const [[x1, y1], [x2, y2]] = shape.$box;
+    return positions.every(([x, y]) =>
+      x >= Math.min(x1, x2) && x <= Math.max(x1, x2) && y >= Math.min(y1, y2) && y <= Math.max(y1, y2));
+  }
+  if (shape.$polygon !== undefined) {
+    return positions.every(position => inRing(position, shape.$polygon) !== 'outside');
+  }
+  if (shape.$center !== undefined) {
+    const [center, radius] = shape.$center;
+    return positions.every(position => planarDistance(position, center) <= radius);
+  }
+  if (shape.$centerSphere !== undefined) {
+    const [center, radians] = shape.$centerSphere;
+    return positions.every(position => sphericalDistance(position, center) <= radians);
+  }
+  throw new FilterEvaluationError(path, 'unsupported $geoWithin shape');
+}
+
+function isNear(value: any, operand: any, siblings: Record<string, any>, path: string): boolean {
+  const positions = positionsOf(value);
+  if (!positions) {
+    return false;
+  }
+
+  let distance: number;
+  let max: number | undefined;
+  let min: number | undefined;
+
+  if (isPlainObject(operand) && operand.$geometry !== undefined) {
+    if (operand.$geometry?.type !== 'Point') {
+      throw new FilterEvaluationError(`${path}.$geometry`, '$near needs a Point');
+    }
+    const center = operand.$geometry.coordinates;
+    distance = Math.min(...positions.map(position => sphericalDistance(position, center) * EARTH_RADIUS_METERS));
+    max = operand.$maxDistance;
+    min = operand.$minDistance;
+  } else if (isPosition(operand)) {
+    // Legacy coordinates: flat distance, limits beside $near
+    distance = Math.min(...positions.map(position => planarDistance(position, operand)));
+    max = siblings.$maxDistance;
+    min = siblings.$minDistance;
+  } else {
+    throw new FilterEvaluationError(path, '$near needs a $geometry point or a coordinate pair');
+  }
+
+  return (max === undefined || distance <= max) && (min === undefined || distance >= min);
+}
+
+/**
+ * Coordinates of a GeoJSON geometry or a legacy coordinate pair
+ */
+function positionsOf(value: any): Position[] | undefined {
+  if (isPosition(value)) {
+    return [value];
+  }
+  if (!isPlainObject(value)) {
+    return undefined;
+  }
+
+  const { type, coordinates } = value;
+  if (Array.isArray(coordinates)) {
+    switch (type) {
+      case 'Point': return [coordinates as Position];
+      case 'MultiPoint':
+      case 'LineString': return coordinates;
+      case 'MultiLineString':
+      case 'Polygon': return coordinates.flat(1);
+      case 'MultiPolygon': return coordinates.flat(2);
+    }
+  }
+
+  // Legacy embedded document, e.g. { lng: 1, lat: 2 }
+  const pair = Object.values(value);
+  return pair.length === 2 && isPosition(pair) ? [pair as Position] : undefined;
+}
+
+function isPosition(value: any): value is Position {
+  return Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number');
+}
+
+/**
+ * Inside the outer ring (boundary included) and outside every hole
+ */
+function inPolygon(position: Position, rings: Position[][]): boolean {
+  const [outer, ...holes] = rings;
+  return inRing(position, outer) !== 'outside' && holes.every(hole => inRing(position, hole) !== 'inside');
+}
+
+function inRing([x, y]: Position, ring: Position[]): 'inside' | 'boundary' | 'outside' {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const cross = (xj - xi) * (y - yi) - (yj - yi) * (x - xi);
+    if (cross === 0 && x >= Math.min(xi, xj) && x <= Math.max(xi, xj) &&
+      y >= Math.min(yi, yj) && y <= Math.max(yi, yj)) {
+      return 'boundary';
+    }
+
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside ? 'inside' : 'outside';
+}
+
+function planarDistance([x1, y1]: Position, [x2, y2]: Position): number {
+  return Math.hypot(x2 - x1, y2 - y1);
+}
+
+/**
+ * Angle in radians between two [longitude, latitude] positions
+ */
+function sphericalDistance([lng1, lat1]: Position, [lng2, lat2]: Position): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isDocument(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !(value instanceof Date) && !(value instanceof RegExp);
+}
+
+function listOf(operand: any, path: string): any[] {
+  if (!Array.isArray(operand)) {
+    throw new FilterEvaluationError(path, 'expected an array');
+  }
+  return operand;
+}
@@ -0,0 +1,137 @@
+/**
+ * Query Explanation Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { QueryBuilder, QueryConfig, Operator, field, or, not, ifElse, range } from './query-builder';
+
+describe('Query Explanation', () => {
+  const config: QueryConfig = {
+    staticFilters: { deleted: false },
+    fieldMappings: { customerId: 'customer.id', region: 'region' },
+    dateRanges: [{ field: 'createdAt' }],
+    conditions: [
+      field('priority', Operator.GTE, '$minPriority'),
+      or(field('ownerId', Operator.EQ, '$userId'), field('shared', Operator.EQ, true)),
+      { ...field('verified', Operator.EQ, true), when: { path: 'mode', equals: 'strict' } },
+      ifElse('mine', field('ownerId', Operator.EQ, '$userId'), field('public', Operator.EQ, true))
+    ]
+  };
+  const data = { customer: { id: 'c-1' }, userId: 'u-1', createdAt: { from: new Date('2025-01-01') } };
+
+  // ============================================================================
+  // Structured Explanation
+  // ============================================================================
+
+  describe('Structured Explanation', () => {
+    it('should return the built filter', () => {
+      expect(QueryBuilder.explain(config, data).filter).toEqual(QueryBuilder.build(config, data));
+    });
+
+    it('should mark applied and skipped parts with reasons', () => {
+      const { nodes } = QueryBuilder.explain(config, data);
+
+      expect(nodes.map(node => [node.kind, node.applied, node.reason])).toEqual([
+        ['staticFilter', true, undefined],
+        ['fieldMapping', true, undefined],
+        ['fieldMapping', false, '$region is missing'],
+        ['dateRange', true, undefined],
+        ['field', false, '$minPriority is missing'],
+        ['logical', true, undefined],
+        ['field', false, 'when $mode equals "strict" did not hold'],
+        ['conditional', true, undefined]
+      ]);
+    });
+
+    it('should include the filter each applied part contributed', () => {
+      const { nodes } = QueryBuilder.explain(config, data);
+
+      expect(nodes[1]).toEqual({
+        kind: 'fieldMapping',
+        description: 'customerId equals $customer.id ("c-1")',
+        applied: true,
+        field: 'customerId',
+        dataPaths: ['customer.id'],
+        filter: { customerId: 'c-1' }
+      });
+      expect(nodes[3].filter).toEqual({ createdAt: { $gte: new Date('2025-01-01') } });
+    });
+
+    it('should explain nested and conditional conditions', () => {
+      const { nodes } = QueryBuilder.explain(config, data);
+
+      expect(nodes[5].children!.map(child => [child.description, child.applied])).toEqual([
+        ['ownerId equals $userId ("u-1")', true],
+        ['shared equals true', true]
+      ]);
+      expect(nodes[7].children!.map(child => [child.description, child.applied, child.reason])).toEqual([
+        ['then: ownerId equals $userId ("u-1")', false, 'the predicate did not hold'],
+        ['else: public equals true', true, undefined]
+      ]);
+    });
+
+    it('should report a logical condition whose sub-conditions were all skipped', () => {
+      const { nodes } = QueryBuilder.explain({
+        conditions: [not(or(field('a', Operator.EQ, '$a'), field('b', Operator.EQ, '$b')))]
+      });
+
+      expect(nodes[0].applied).toBe(false);
+      expect(nodes[0].children![0].reason).toBe('no sub-condition applied');
+    });
+
+    it('should describe range conditions and the bounds they are missing', () => {
+      const { nodes } = QueryBuilder.explain(
+        { conditions: [range('price', '$price.min', 100, { bounds: '[)' }), range('stock', '$minStock', '$maxStock')] },
+        { price: { min: 10 } }
+      );
+
+      expect(nodes.map(node => [node.kind, node.description, node.applied, node.reason])).toEqual([
+        ['range', 'price is at least $price.min (10) and is less than 100', true, undefined],
+        ['range', 'stock is at least $minStock (missing) and is at most $maxStock (missing)', false,
+          '$minStock and $maxStock are missing']
+      ]);
+    });
+
+    it('should map data keys to the fields they fed', () => {
+      const { dataUsage } = QueryBuilder.explain(config, data);
+
+      expect(dataUsage).toEqual({
+        'customer.id': ['customerId'],
+        'createdAt.from': ['createdAt'],
+        userId: ['ownerId']
+      });
+    });
+  });
+
+  // ============================================================================
+  // Text Explanation
+  // ============================================================================
+
+  describe('Text Explanation', () => {
+    it('should render a readable summary', () => {
+      expect(QueryBuilder.explain(config, data).text).toBe([
+        '[x] deleted equals false (static)',
+        '[x] customerId equals $customer.id ("c-1")',
+        '[ ] region equals $region (missing) - skipped: $region is missing',
+        '[x] createdAt from 2025-01-01T00:00:00.000Z',
+        '[ ] priority is at least $minPriority (missing) - skipped: $minPriority is missing',
+        '[x] any of',
+        '  [x] ownerId equals $userId ("u-1")',
+        '  [x] shared equals true',
+        '[ ] verified equals true - skipped: when $mode equals "strict" did not hold',
+        '[x] if $mine',
+        '  [ ] then: ownerId equals $userId ("u-1") - skipped: the predicate did not hold',
+        '  [x] else: public equals true',
+        '',
+        'Data used:',
+        '  customer.id -> customerId',
+        '  createdAt.from -> createdAt',
+        '  userId -> ownerId'
+      ].join('\n'));
+    });
+
+    it('should say when nothing is filtered', () => {
+      expect(QueryBuilder.explain({}).text).toBe('No filters: matches every document');
+    });
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Query Explanation
+ *
+ * Describes what a config filters on for a given input: which static
+ * filters, field mappings, date ranges and conditions were applied, which
+ * were skipped and why, and which data keys fed which fields. Each part is
+ * built on its own with `QueryBuilder.build`, so the explanation always
+ * agrees with the real query.
+ */
+
+import {
+  QueryBuilder,
+  QueryConfig,
+  QueryCondition,
+  FieldCondition,
+  FieldMapping,
+  LogicalCondition,
+  DateRangeCondition,
+  RangeCondition,
+  NotCondition,
+  TextCondition,
+  GeoWithinCondition,
+  NearCondition,
+  ConditionalCondition,
+  BuildOptions,
+  Operator
+} from './query-builder';
+import { ConditionPredicate, ConditionRules, evaluatePredicate, isConditionActive } from './predicates';
+import { getNestedValue, isOperatorObject } from './utils';
+
+export type ExplainNodeKind =
+  | 'staticFilter'
+  | 'fieldMapping'
+  | 'dateRange'
+  | 'range'
+  | 'field'
+  | 'logical'
+  | 'not'
+  | 'expr'
+  | 'text'
+  | 'geo'
+  | 'conditional';
+
+export interface ExplainNode {
+  kind: ExplainNodeKind;
+  // Readable description, e.g. 'priority is at least $minPriority (3)'
+  description: string;
+  applied: boolean;
+  // Why the part was skipped
+  reason?: string;
+  field?: string;
+  // Data paths the part reads its values from
+  dataPaths?: string[];
+  // Filter this part contributed
+  filter?: Record<string, any>;
+  children?: ExplainNode[];
+}
+
+export interface QueryExplanation {
+  // The built query
+  filter: Record<string, any>;
+  nodes: ExplainNode[];
+  // Data path -> fields it fed (applied parts only)
+  dataUsage: Record<string, string[]>;
+  // Readable summary of the above
+  text: string;
+}
+
+// Operator values are spelled out: this module is loaded while query-builder.ts
+// is still initializing, so the Operator enum is not available yet
+const OPERATOR_TEXT: Record<string, string> = {
+  $eq: 'equals',
+  $ne: 'does not equal',
+  $gt: 'is greater than',
+  $gte: 'is at least',
+  $lt: 'is less than',
+  $lte: 'is at most',
+  $in: 'is one of',
+  $nin: 'is not one of',
+  $regex: 'matches',
+  $all: 'contains all of',
+  $elemMatch: 'has an element matching',
+  $size: 'has size',
+  $type: 'has type',
+  $mod: 'modulo divisor/remainder is'
+};
+
+const LOGICAL_TEXT: Record<string, string> = {
+  $and: 'all of',
+  $or: 'any of',
+  $nor: 'none of'
+};
+
+/**
+ * Explain which parts of a config apply to the given data
+ *
+ * @throws the same errors as `QueryBuilder.build`
+ */
+export function explainQuery(
+  config: QueryConfig,
+  data: Record<string, any> = {},
+  options: BuildOptions = {}
+): QueryExplanation {
+  const filter = QueryBuilder.build(config, data, options);
+  const partOptions: BuildOptions = { ...options, optimize: false, trace: undefined };
+  const nodes: ExplainNode[] = [];
+
+  for (const [key, value] of Object.entries(config.staticFilters ?? {})) {
+    nodes.push({
+      kind: 'staticFilter',
+      description: `${key} ${describeStatic(value)} (static)`,
+      applied: true,
+      field: key.startsWith('$') ? undefined : key,
+      filter: { [key]: value }
+    });
+  }
+
+  for (const [field, mapping] of Object.entries(config.fieldMappings ?? {})) {
+    nodes.push(explainMapping(field, mapping, data, partOptions));
+  }
+
+  for (const dateRange of config.dateRanges ?? []) {
+    nodes.push(explainPart('dateRange', { dateRanges: [dateRange] }, dateRange, data, partOptions, () =>
+      explainDateRange(dateRange, data)
+    ));
+  }
+
+  for (const condition of config.conditions ?? []) {
+    nodes.push(explainCondition(condition, data, partOptions));
+  }
+
+  const dataUsage = collectDataUsage(nodes);
+
+  return { filter, nodes, dataUsage, text: formatExplanation(nodes, dataUsage) };
+}
+
+function explainMapping(
+  field: string,
+  mapping: string | FieldMapping,
+  data: Record<string, any>,
+  options: BuildOptions
+): ExplainNode {
+  const path = typeof mapping === 'string' ? mapping : mapping.path;
+  return explainPart('fieldMapping', { fieldMappings: { [field]: mapping } }, {}, data, options, () => ({
+    description: `${field} equals ${describeReference(path, data)}`,
+    field,
+    dataPaths: [path],
+    reason: `$${path} is missing`
+  }));
+}
+
+function explainCondition(condition: QueryCondition, data: Record<string, any>, options: BuildOptions): ExplainNode {
+  if ('if' in condition) {
+    return explainConditional(condition, data, options);
+  }
+  if ('conditions' in condition) {
+    return explainPart('logical', { conditions: [condition] }, condition, data, options, () => ({
+      description: LOGICAL_TEXT[condition.operator],
+      reason: 'no sub-condition applied',
+      children: (condition as LogicalCondition).conditions.map(sub => explainCondition(sub, data, options))
+    }));
+  }
+  if ('condition' in condition && condition.operator === Operator.NOT) {
+    const child = explainCondition((condition as NotCondition).condition, data, options);
+    return explainPart('not', { conditions: [condition] }, condition, data, options, () => ({
+      description: 'not',
+      reason: child.reason,
+      children: [child]
+    }));
+  }
+  if ('expression' in condition) {
+    return explainPart('expr', { conditions: [condition] }, condition, data, options, () => ({
+      description: `matches expression ${JSON.stringify(condition.expression)}`
+    }));
+  }
+  if ('search' in condition) {
+    return explainPart('text', { conditions: [condition] }, condition, data, options, () =>
+      explainText(condition as TextCondition, data)
+    );
+  }
+  if ('geometry' in condition) {
+    return explainPart('geo', { conditions: [condition] }, condition, data, options, () =>
+      explainGeo(condition as GeoWithinCondition | NearCondition, data)
+    );
+  }
+  if ('min' in condition || 'max' in condition) {
+    const range = condition as RangeCondition;
+    return explainPart('range', { conditions: [range] }, range, data, options, () => explainRange(range, data));
+  }
+  if ('from' in condition || 'to' in condition) {
+    const dateRange = condition as DateRangeCondition;
+    return explainPart('dateRange', { conditions: [dateRange] }, dateRange, data, options, () =>
+      explainDateRange(dateRange, data)
+    );
+  }
+
+  const fieldCondition = condition as FieldCondition;
+  return explainPart('field', { conditions: [fieldCondition] }, fieldCondition, data, options, () =>
+    explainField(fieldCondition, data)
+  );
+}
+
+function explainConditional(
+  condition: ConditionalCondition,
+  data: Record<string, any>,
+  options: BuildOptions
+): ExplainNode {
+  const holds = evaluatePredicate(condition.if, data);
+  const branches = [
+    { label: 'then', branch: condition.then, taken: holds },
+    ...(condition.else ? [{ label: 'else', branch: condition.else, taken: !holds }] : [])
+  ];
+
+  const children = branches.map(({ label, branch, taken }) => {
+    const child = explainCondition(branch, data, options);
+    const node: ExplainNode = { ...child, description: `${label}: ${child.description}` };
+    if (!taken) {
+      node.applied = false;
+      node.reason = holds ? 'the predicate held' : 'the predicate did not hold';
+      delete node.filter;
+      delete node.children;
+    }
+    return { node, taken };
+  });
+  const taken = children.find(child => child.taken);
+
+  return explainPart('conditional', { conditions: [condition] }, condition, data, options, () => ({
+    description: `if ${describePredicate(condition.if)}`,
+    reason: taken ? taken.node.reason : 'the predicate did not hold and there is no else',
+    children: children.map(child => child.node)
+  }));
+}
+
+interface PartDetails {
+  description: string;
+  field?: string;
+  dataPaths?: string[];
+  reason?: string;
+  children?: ExplainNode[];
+}
+
+/**
+ * Build one part on its own and describe it
+ */
+function explainPart(
+  kind: ExplainNodeKind,
+  partConfig: QueryConfig,
+  rules: ConditionRules,
+  data: Record<string, any>,
+  options: BuildOptions,
+  describe: () => PartDetails
+): ExplainNode {
+  const details = describe();
+  const node: ExplainNode = { kind, description: details.description, applied: false };
+
+  if (details.field !== undefined) node.field = details.field;
+  if (details.dataPaths && details.dataPaths.length > 0) node.dataPaths = details.dataPaths;
+  if (details.children) node.children = details.children;
+
+  if (!isConditionActive(rules, data)) {
+    node.reason = describeRules(rules, data);
+    return node;
+  }
+
+  const filter = QueryBuilder.build(partConfig, data, options);
+  if (Object.keys(filter).length > 0) {
+    node.applied = true;
+    node.filter = filter;
+  } else {
+    node.reason = details.reason ?? 'no value to filter on';
+  }
+
+  return node;
+}
+
+function explainField(condition: FieldCondition, data: Record<string, any>): PartDetails {
+  const operatorText = condition.operator === Operator.EXISTS
+    ? (condition.value ? 'exists' : 'does not exist')
+    : `${OPERATOR_TEXT[condition.operator] ?? condition.operator} ${describeValue(condition.value, data)}`;
+  const dataPath = referencePath(condition.value);
+
+  return {
+    description: `${condition.field} ${operatorText}`,
+    field: condition.field,
+    dataPaths: dataPath !== undefined ? [dataPath] : [],
+    reason: dataPath !== undefined ? `$${dataPath} is missing` : undefined
+  };
+}
+
+function explainDateRange(condition: DateRangeCondition, data: Record<string, any>): PartDetails {
+  const range = getNestedValue(data, condition.field) ?? {};
+  const from = range.from ?? condition.from;
+  const to = range.to ?? condition.to;
+  const dataPaths = ['from', 'to']
+    .filter(bound => range[bound] !== undefined && range[bound] !== null)
+    .map(bound => `${condition.field}.${bound}`);
+
+  const bounds = [
+    from !== undefined && from !== null ? `from ${describeLiteral(from)}` : '',
+    to !== undefined && to !== null ? `to ${describeLiteral(to)}` : ''
+  ].filter(Boolean).join(' ');
+
+  return {
+    description: `${condition.field} ${bounds || 'date range'}`,
+    field: condition.field,
+    dataPaths,
+    reason: `$${condition.field}.from and $${condition.field}.to are missing`
+  };
+}
+
+function explainRange(condition: RangeCondition, data: Record<string, any>): PartDetails {
+  const bounds = condition.bounds ?? '[]';
+  const limits: Array<[any, string]> = [
+    [condition.min, bounds[0] === '(' ? '$gt' : '$gte'],
+    [condition.max, bounds[1] === ')' ? '$lt' : '$lte']
+  ];
+  const described = limits.filter(([value]) => value !== undefined);
+  const dataPaths = described.map(([value]) => referencePath(value)).filter((path): path is string => path !== undefined);
+
+  return {
+    description: `${condition.field} ${described
+      .map(([value, operator]) => `${OPERATOR_TEXT[operator]} ${describeValue(value, data)}`)
+      .join(' and ') || 'range'}`,
+    field: condition.field,
+    dataPaths,
+    reason: `${dataPaths.map(path => `$${path}`).join(' and ')} ${dataPaths.length > 1 ? 'are' : 'is'} missing`
+  };
+}
+
+function explainText(condition: TextCondition, data: Record<string, any>): PartDetails {
+  const dataPath = referencePath(condition.search);
+  return {
+    description: `text search for ${describeValue(condition.search, data)}`,
+    dataPaths: dataPath !== undefined ? [dataPath] : [],
+    reason: `$${dataPath} is missing or empty`
+  };
+}
+
+function explainGeo(condition: GeoWithinCondition | NearCondition, data: Record<string, any>): PartDetails {
+  const dataPaths: string[] = [];
+  const parts: any[] = [condition.geometry];
+  if ('maxDistance' in condition) parts.push(condition.maxDistance);
+  if ('minDistance' in condition) parts.push(condition.minDistance);
+  for (const part of parts) {
+    const dataPath = referencePath(part);
+    if (dataPath !== undefined) dataPaths.push(dataPath);
+  }
+
+  let description = condition.operator === Operator.NEAR
+    ? `${condition.field} is near ${describeValue(condition.geometry, data)}`
+    : `${condition.field} is within ${describeValue(condition.geometry, data)}`;
+  if ('maxDistance' in condition && condition.maxDistance !== undefined) {
+    description += `, at most ${describeValue(condition.maxDistance, data)}`;
+  }
+  if ('minDistance' in condition && condition.minDistance !== undefined) {
+    description += `, at least ${describeValue(condition.minDistance, data)}`;
+  }
+
+  return {
+    description,
+    field: condition.field,
+    dataPaths,
+    reason: `$${referencePath(condition.geometry)} is missing`
+  };
+}
+
+function describeRules(rules: ConditionRules, data: Record<string, any>): string {
+  if (rules.when !== undefined && !evaluatePredicate(rules.when, data)) {
+    return `when ${describePredicate(rules.when)} did not hold`;
+  }
+  return `unless ${describePredicate(rules.unless!)} held`;
+}
+
+function describePredicate(predicate: ConditionPredicate): string {
+  if (typeof predicate === 'string') return `$${predicate}`;
+  if ('all' in predicate) return `(${predicate.all.map(describePredicate).join(' and ')})`;
+  if ('any' in predicate) return `(${predicate.any.map(describePredicate).join(' or ')})`;
+  if ('not' in predicate) return `not ${describePredicate(predicate.not)}`;
+
+  const tests: string[] = [];
+  if ('equals' in predicate) tests.push(`equals ${describeLiteral(predicate.equals)}`);
+  if ('notEquals' in predicate) tests.push(`does not equal ${describeLiteral(predicate.notEquals)}`);
+  if (predicate.in !== undefined) tests.push(`is one of ${describeLiteral(predicate.in)}`);
+  if (predicate.exists !== undefined) tests.push(predicate.exists ? 'exists' : 'does not exist');
+  if (predicate.truthy !== undefined) tests.push(predicate.truthy ? 'is truthy' : 'is falsy');
+  return `$${predicate.path} ${tests.join(' and ') || 'is truthy'}`;
+}
+
+function describeStatic(value: any): string {
+  return isOperatorObject(value)
+    ? Object.entries(value).map(([op, v]) => `${OPERATOR_TEXT[op] ?? op} ${describeLiteral(v)}`).join(' and ')
+    : `equals ${describeLiteral(value)}`;
+}
+
+/**
+ * Describe a condition value, showing the resolved value of data references
+ */
+function describeValue(value: any, data: Record<string, any>): string {
+  const dataPath = referencePath(value);
+  return dataPath !== undefined ? describeReference(dataPath, data) : describeLiteral(value);
+}
+
+function describeReference(dataPath: string, data: Record<string, any>): string {
+  const value = getNestedValue(data, dataPath);
+  return value === undefined || value === null
+    ? `$${dataPath} (missing)`
+    : `$${dataPath} (${describeLiteral(value)})`;
+}
+
+function describeLiteral(value: any): string {
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof RegExp) return String(value);
+  return JSON.stringify(value);
+}
+
+function referencePath(value: any): string | undefined {
+  return typeof value === 'string' && value.startsWith('$') ? value.substring(1) : undefined;
+}
+
+function collectDataUsage(nodes: ExplainNode[], usage: Record<string, string[]> = {}): Record<string, string[]> {
+  for (const node of nodes) {
+    if (!node.applied) continue;
+    for (const dataPath of node.dataPaths ?? []) {
+      const fields = usage[dataPath] ?? (usage[dataPath] = []);
+      const fed = node.field ?? (node.kind === 'text' ? '$text' : undefined);
+      if (fed !== undefined && !fields.includes(fed)) fields.push(fed);
+    }
+    collectDataUsage(node.children ?? [], usage);
+  }
+  return usage;
+}
+
+/**
+ * Render explanation nodes as indented text
+ */
+export function formatExplanation(nodes: ExplainNode[], dataUsage: Record<string, string[]> = {}): string {
+  const lines: string[] = [];
+
+  const render = (node: ExplainNode, depth: number) => {
+    const marker = node.applied ? '[x]' : '[ ]';
+    const reason = node.applied ? '' : ` - skipped: ${node.reason}`;
+    lines.push(`${'  '.repeat(depth)}${marker} ${node.description}${reason}`);
+    (node.children ?? []).forEach(child => render(child, depth + 1));
+  };
+
+  if (nodes.length === 0) {
+    lines.push('No filters: matches every document');
+  }
+  nodes.forEach(node => render(node, 0));
+
+  const usage = Object.entries(dataUsage);
+  if (usage.length > 0) {
+    lines.push('', 'Data used:');
+    for (const [dataPath, fields] of usage) {
+      lines.push(`  ${dataPath} -> ${fields.join(', ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,299 @@
+/**
+ * File Config Store
+ *
+ * Keeps each config in its own JSON or YAML file in a directory, e.g. so
+ * configs can be reviewed and versioned in git. The file name is the
+ * config name: `order-query.json`, `order-query.yaml` or `order-query.yml`.
+ *
+ * Values JSON has no type for are written as Extended JSON tags, so they
+ * read back as they were saved: dates as `{ "$date": "<ISO date>" }` and
+ * regular expressions as `{ "$regularExpression": { "pattern", "options" } }`.
+ * Other objects that are not plain (ObjectIds, class instances) cannot be
+ * saved.
+ */
+
+import { promises as fs, mkdirSync, watch as watchDirectory, FSWatcher } from 'fs';
+import * as path from 'path';
+import { ConfigChangeEvent, ConfigChangeListener } from './config-cache';
+import {
+  ConfigStore,
+  ConfigListFilter,
+  HistoryOptions,
+  QueryConfigRevision,
+  StoredQueryConfig,
+  matchesListFilter
+} from './config-store';
+import { isPlainObject } from './utils';
+
+export interface YamlFormat {
+  parse(text: string): unknown;
+  stringify(value: unknown): string;
+}
+
+export interface FileStoreOptions {
+  // Needed for .yaml/.yml files, e.g. { parse: load, stringify: dump } from js-yaml
+  yaml?: YamlFormat;
+  // Format of configs saved without an existing file (default 'json')
+  format?: 'json' | 'yaml';
+}
+
+const EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Config names usable as file names; no path separators or leading dots
+const NAME_PATTERN = /^[\w-][\w.-]*$/;
+
+// Read back as dates when they are untagged ISO strings, as older files have them
+const DATE_FIELDS = ['createdAt', 'updatedAt'] as const;
+
+/**
+ * Reads and writes configs as files in a directory
+ *
+ * Revisions are not recorded: the history of a file lives in version
+ * control, so only the current version of a config can be read back.
+ * Files are written to a temporary name and renamed into place. `watch`
+ * reports files added, changed or removed by anyone.
+ */
+export class FileConfigStore implements ConfigStore {
+  private readonly listeners = new Set<ConfigChangeListener>();
+  private watcher: FSWatcher | null = null;
+
+  constructor(
+    private readonly directory: string,
+    private readonly options: FileStoreOptions = {}
+  ) {}
+
+  async get(name: string): Promise<StoredQueryConfig | null> {
+    const file = await this.findFile(name);
+    return file ? this.readFile(file) : null;
+  }
+
+  async save(revision: QueryConfigRevision, expectedVersion?: number): Promise<boolean> {
+    const { name } = revision;
+    const existing = await this.findFile(name);
+
+    if (expectedVersion !== undefined) {
+      const current = existing ? await this.readFile(existing) : null;
+      if ((current?.version ?? 0) !== expectedVersion) {
+        return false;
+      }
+    }
+
+    const file = existing ?? path.join(this.directory, name + (this.options.format === 'yaml' ? '.yaml' : '.json'));
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporary, this.serialize(file, revision.config), 'utf8');
+    await fs.rename(temporary, file);
+    return true;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const file = await this.findFile(name);
+    if (!file) {
+      return false;
+    }
+    await fs.unlink(file);
+    return true;
+  }
+
+  async list(filter: ConfigListFilter = {}): Promise<StoredQueryConfig[]> {
+    const names = await this.listNames();
+    const configs = await Promise.all(names.map(name => this.get(name)));
+
+    return configs.filter((config): config is StoredQueryConfig => config !== null && matchesListFilter(config, filter));
+  }
+
+  async history(name: string, options: HistoryOptions = {}): Promise<QueryConfigRevision[]> {
+    // Only the current version is known
+    const config = await this.get(name);
+    if (!config?.version || (options.version !== undefined && options.version !== config.version)) {
+      return [];
+    }
+
+    const revision = { name, version: config.version, config, createdAt: config.updatedAt ?? new Date(0) };
+    return [revision].slice(0, options.limit);
+  }
+
+  watch(listener: ConfigChangeListener): () => void {
+    this.listeners.add(listener);
+    if (!this.watcher) {
+      mkdirSync(this.directory, { recursive: true });
+      this.watcher = watchDirectory(this.directory, (_event, filename) => void this.onFileEvent(filename));
+      this.watcher.on('error', () => this.emit({ type: 'reset' }));
+      // Do not keep the process alive just to watch
+      this.watcher.unref();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.watcher) {
+        this.watcher.close();
+        this.watcher = null;
+      }
+    };
+  }
+
+  private async onFileEvent(filename: string | Buffer | null): Promise<void> {
+    if (!filename) {
+      // Some platforms do not report which file changed
+      this.emit({ type: 'reset' });
+      return;
+    }
+
+    const extension = path.extname(String(filename));
+    const name = path.basename(String(filename), extension);
+    if (!EXTENSIONS.includes(extension) || !NAME_PATTERN.test(name)) {
+      return;
+    }
+
+    let exists: boolean;
+    try {
+      exists = (await this.findFile(name)) !== null;
+    } catch {
+      // Without knowing what happened to the file, drop everything cached
+      this.emit({ type: 'reset' });
+      return;
+    }
+    this.emit(exists ? { type: 'saved', name } : { type: 'deleted', name });
+  }
+
+  private emit(event: ConfigChangeEvent): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+
+  private async listNames(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    // Files named unlike a config (e.g. 'my config.json') are not configs of this store
+    const names = files
+      .filter(file => EXTENSIONS.includes(path.extname(file)))
+      .map(file => path.basename(file, path.extname(file)))
+      .filter(name => NAME_PATTERN.test(name));
+    return [...new Set(names)].sort();
+  }
+
+  /**
+   * Path of the file holding a config, or null if there is none
+   */
+  private async findFile(name: string): Promise<string | null> {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Configuration name '${name}' cannot be used as a file name`);
+    }
+
+    for (const extension of EXTENSIONS) {
+      const file = path.join(this.directory, name + extension);
+      try {
+        await fs.access(file);
+        return file;
+      } catch {
+        // Try the next extension
+      }
+    }
+    return null;
+  }
+
+  private async readFile(file: string): Promise<StoredQueryConfig> {
+    const name = path.basename(file, path.extname(file));
+    const text = await fs.readFile(file, 'utf8');
+
+    let content: unknown;
+    try {
+      content = path.extname(file) === '.json' ? JSON.parse(text) : this.yaml(file).parse(text);
+    } catch (error) {
+      throw new Error(`Invalid configuration file '${file}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (content === null || typeof content !== 'object' || Array.isArray(content)) {
+      throw new Error(`Invalid configuration file '${file}': expected an object`);
+    }
+
+    const stored = (content as Record<string, any>).name;
+    if (stored !== undefined && stored !== name) {
+      throw new Error(`Invalid configuration file '${file}': name '${stored}' does not match the file name`);
+    }
+
+    const config = { ...fromFileValue(content), name } as StoredQueryConfig & Record<string, any>;
+    for (const field of DATE_FIELDS) {
+      if (typeof config[field] === 'string') {
+        config[field] = new Date(config[field]);
+      }
+    }
+    return config;
+  }
+
+  private serialize(file: string, config: StoredQueryConfig): string {
+    const content = toFileValue(config, config.name);
+    return path.extname(file) === '.json'
+      ? `${JSON.stringify(content, null, 2)}\n`
+      : this.yaml(file).stringify(content);
+  }
+
+  private yaml(file: string): YamlFormat {
+    if (!this.options.yaml) {
+      throw new Error(`'${file}' is a YAML file; pass the yaml option to FileConfigStore`);
+    }
+    return this.options.yaml;
+  }
+}
+
+/**
+ * Tag dates and regular expressions so they survive JSON and YAML
+ *
+ * @param at - Location of the value, for the error message
+ * @throws Error for values that cannot be written to a file
+ */
+function toFileValue(value: unknown, at: string): unknown {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (value instanceof RegExp) {
+    return { $regularExpression: { pattern: value.source, options: value.flags } };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => toFileValue(item, `${at}[${i}]`));
+  }
+  if (isPlainObject(value)) {
+    const content: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        content[key] = toFileValue(item, `${at}.${key}`);
+      }
+    }
+    return content;
+  }
+  if (value !== null && (typeof value === 'object' || typeof value === 'function' || typeof value === 'bigint')) {
+    throw new Error(`Configuration value at '${at}' cannot be written to a file`);
+  }
+  return value;
+}
+
+/**
+ * Turn the tags written by toFileValue back into dates and regular expressions
+ */
+function fromFileValue(value: unknown): any {
+  if (Array.isArray(value)) {
+    return value.map(fromFileValue);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 1 && keys[0] === '$date' && typeof value.$date === 'string') {
+    return new Date(value.$date);
+  }
+  const regex = value.$regularExpression;
+  if (keys.length === 1 && isPlainObject(regex) && typeof regex.pattern === 'string') {
+    return new RegExp(regex.pattern, typeof regex.options === 'string' ? regex.options : '');
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromFileValue(item)]));
+}
@@ -0,0 +1,220 @@
+/**
+ * Filter Parser Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { FilterParseError } from './errors';
+import { optimizeFilter } from './optimizer';
+import { matches } from './evaluator';
+import { QueryBuilder, Operator, field, and, or, nor, not, near, text } from './query-builder';
+
+function errorPathOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof FilterParseError) {
+      return error.path;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe('Filter Parser', () => {
+
+  // ============================================================================
+  // Parsing
+  // ============================================================================
+
+  describe('Parsing', () => {
+    it('should turn field constraints into field conditions', () => {
+      expect(QueryBuilder.parse({
+        status: 'active',
+        price: { $gte: 10, $lt: 100 },
+        tags: { $in: ['a', 'b'] }
+      })).toEqual({
+        conditions: [
+          field('status', Operator.EQ, 'active'),
+          field('price', Operator.GTE, 10),
+          field('price', Operator.LT, 100),
+          field('tags', Operator.IN, ['a', 'b'])
+        ]
+      });
+    });
+
+    it('should turn logical operators into logical conditions', () => {
+      expect(QueryBuilder.parse({
+        $or: [{ status: 'open' }, { status: 'pending', priority: { $gte: 3 } }],
+        $nor: [{ deleted: true }]
+      })).toEqual({
+        conditions: [
+          or(
+            field('status', Operator.EQ, 'open'),
+            and(field('status', Operator.EQ, 'pending'), field('priority', Operator.GTE, 3))
+          ),
+          nor(field('deleted', Operator.EQ, true))
+        ]
+      });
+    });
+
+    it('should parse $not, $text and geospatial operators', () => {
+      const point = { type: 'Point', coordinates: [1, 2] };
+
+      expect(QueryBuilder.parse({
+        price: { $not: { $gt: 100 } },
+        location: { $near: { $geometry: point, $maxDistance: 500 } },
+        $text: { $search: 'coffee', $language: 'en' }
+      })).toEqual({
+        conditions: [
+          not(field('price', Operator.GT, 100)),
+          near('location', point, { maxDistance: 500 }),
+          text('coffee', { language: 'en' })
+        ]
+      });
+    });
+
+    it('should merge $options into a regular expression', () => {
+      expect(QueryBuilder.parse({ name: { $regex: '^jo', $options: 'i' } })).toEqual({
+        conditions: [field('name', Operator.REGEX, /^jo/i)]
+      });
+    });
+
+    it('should match $-prefixed literals and operator-like objects through $in and $nin', () => {
+      const filter = { code: '$100', currency: { $ne: '$' }, tag: { $eq: '$x' }, rule: { $eq: { $gt: 1 } } };
+      const config = QueryBuilder.parse(filter);
+
+      expect(config.conditions).toEqual([
+        field('code', Operator.IN, ['$100']),
+        field('currency', Operator.NIN, ['$']),
+        field('tag', Operator.IN, ['$x']),
+        field('rule', Operator.IN, [{ $gt: 1 }])
+      ]);
+      const built = QueryBuilder.build(config);
+      expect(built).toEqual({
+        $and: [{ code: { $in: ['$100'] } }, { currency: { $nin: ['$'] } }, { tag: { $in: ['$x'] } }, { rule: { $in: [{ $gt: 1 }] } }]
+      });
+      const matching = { code: '$100', currency: '€', tag: '$x', rule: { $gt: 1 } };
+      expect(matches(built, matching)).toBe(true);
+      expect(matches(filter, matching)).toBe(true);
+      expect(matches(built, { ...matching, rule: 2 })).toBe(false);
+    });
+
+    it('should return an empty config for an empty filter', () => {
+      expect(QueryBuilder.parse({})).toEqual({});
+    });
+  });
+
+  // ============================================================================
+  // Data References
+  // ============================================================================
+
+  describe('Data References', () => {
+    it('should replace literals with data references from the mapping', () => {
+      const config = QueryBuilder.parse(
+        {
+          tenantId: 't-1',
+          price: { $gte: 10, $lte: 50 },
+          $or: [{ ownerId: 'u-1' }, { shared: true }],
+          $text: { $search: 'coffee' }
+        },
+        {
+          references: {
+            ownerId: 'user.id',
+            'price.$gte': 'minPrice',
+            'price.$lte': 'maxPrice',
+            $text: 'q'
+          }
+        }
+      );
+
+      expect(config.conditions).toEqual([
+        field('tenantId', Operator.EQ, 't-1'),
+        field('price', Operator.GTE, '$minPrice'),
+        field('price', Operator.LTE, '$maxPrice'),
+        or(field('ownerId', Operator.EQ, '$user.id'), field('shared', Operator.EQ, true)),
+        text('$q')
+      ]);
+
+      expect(QueryBuilder.build(config, { user: { id: 'u-2' }, minPrice: 5 }, { optimize: true })).toEqual({
+        tenantId: 't-1',
+        price: { $gte: 5 },
+        $or: [{ ownerId: 'u-2' }, { shared: true }]
+      });
+    });
+  });
+
+  // ============================================================================
+  // Round Trip
+  // ============================================================================
+
+  describe('Round Trip', () => {
+    const filters: Record<string, any>[] = [
+      { status: 'active' },
+      { status: 'active', price: { $gte: 10, $lte: 50 } },
+      { createdAt: { $gte: new Date('2025-01-01'), $lt: new Date('2025-02-01') }, deletedAt: null },
+      { name: /^jo/i, tags: { $all: ['a', 'b'] }, items: { $size: 2 } },
+      { items: { $elemMatch: { qty: { $gt: 1 }, sku: 'x' } }, quantity: { $mod: [4, 0] } },
+      { $or: [{ status: 'open' }, { status: 'pending', priority: { $gte: 3 } }] },
+      { $and: [{ $or: [{ a: 1 }, { b: 2 }] }, { $or: [{ c: 3 }, { d: { $exists: false } }] }] },
+      { $nor: [{ deleted: true }, { archived: true }], type: { $type: 'string' } },
+      { price: { $not: { $gt: 100 } }, code: { $nin: ['x', 'y'] } },
+      { $expr: { $gt: ['$spent', '$budget'] }, $text: { $search: 'coffee', $language: 'en' } },
+      { area: { $geoWithin: { $geometry: { type: 'Polygon', coordinates: [] } } } },
+      { bits: { $bitsAllSet: [1, 5] } }
+    ];
+
+    it('should build filters identical to the parsed ones after optimizing both', () => {
+      for (const filter of filters) {
+        const config = QueryBuilder.parse(filter);
+
+        expect(QueryBuilder.build(config, {}, { optimize: true })).toEqual(optimizeFilter(filter).filter);
+      }
+    });
+
+    it('should build one constraint per condition, wrapped in $and', () => {
+      expect(QueryBuilder.build(QueryBuilder.parse(filters[1]))).toEqual({
+        $and: [{ status: 'active' }, { price: { $gte: 10 } }, { price: { $lte: 50 } }]
+      });
+      expect(QueryBuilder.build(QueryBuilder.parse(filters[5]))).toEqual({
+        $or: [{ status: 'open' }, { $and: [{ status: 'pending' }, { priority: { $gte: 3 } }] }]
+      });
+      expect(QueryBuilder.build(QueryBuilder.parse(filters[8]))).toEqual({
+        $and: [{ price: { $not: { $gt: 100 } } }, { code: { $nin: ['x', 'y'] } }]
+      });
+    });
+
+    it('should build single-constraint filters unchanged', () => {
+      for (const filter of [filters[0], filters[10], { $or: [{ a: 1 }, { b: { $gt: 2 } }] }]) {
+        expect(QueryBuilder.build(QueryBuilder.parse(filter))).toEqual(filter);
+      }
+    });
+  });
+
+  // ============================================================================
+  // Errors
+  // ============================================================================
+
+  describe('Errors', () => {
+    it('should name $options a regular expression cannot have', () => {
+      expect(() => QueryBuilder.parse({ name: { $regex: 'jo', $options: 'xi' } }))
+        .toThrow("Cannot parse filter at 'name.$regex': $options 'x' has no regular expression flag (supported: i, m, s, u)");
+    });
+
+    it('should report the path of parts without a condition form', () => {
+      const cases: [Record<string, any>, string][] = [
+        [{ $where: 'this.a > 1' }, '$where'],
+        [{ $or: [{ a: 1 }, {}] }, '$or[1]'],
+        [{ a: { $eq: /x/ } }, 'a.$eq'],
+        [{ a: { $gt: '$5' } }, 'a.$gt'],
+        [{ a: { $options: 'i' } }, 'a.$options'],
+        [{ a: { $regex: 'x', $options: 'ix' } }, 'a.$regex'],
+        [{ a: { $regex: '(?i)x', $options: 'i' } }, 'a.$regex'],
+        [{ $or: [{ loc: { $geoWithin: { $geometry: {}, $maxDistance: 5 } } }] }, '$or[0].loc.$geoWithin']
+      ];
+
+      for (const [filter, path] of cases) {
+        expect(errorPathOf(() => QueryBuilder.parse(filter))).toBe(path);
+      }
+    });
+  });
+});
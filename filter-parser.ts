@@ -0,0 +1,273 @@
+/**
+ * Filter Parser
+ *
+ * Turns an existing MongoDB filter document back into a `QueryConfig`,
+ * e.g. to migrate hand-written filters into stored configs. Field
+ * constraints become `field()` conditions and `$and`/`$or`/`$nor` become
+ * logical conditions, so building the parsed config gives a filter that
+ * matches the same documents.
+ *
+ * The built filter is not always identical to the parsed one: each field
+ * operator becomes its own condition, and the builder wraps several
+ * conditions in `$and` (`{ a: 1, b: { $gt: 2, $lt: 5 } }` builds as
+ * `{ $and: [{ a: 1 }, { b: { $gt: 2 } }, { b: { $lt: 5 } }] }`). Filters
+ * with a single constraint build unchanged, and `optimizeFilter` gives both
+ * the same canonical form.
+ *
+ * `$eq`/`$ne` values the builder would read as a data reference (`'$x'`)
+ * or as operators (`{ $gt: 1 }`) are matched through a one-element
+ * `$in`/`$nin` instead, which matches the same documents.
+ *
+ * Literal values can be replaced with `$` data references: the
+ * `references` map is keyed by `field.$operator` (or just `field`, for
+ * every operator on that field) and gives the data path to read instead.
+ */
+
+import {
+  Operator,
+  QueryConfig,
+  QueryCondition,
+  LogicalCondition,
+  TextCondition,
+  field,
+  and,
+  not,
+  expr,
+  text,
+  geoWithin,
+  near
+} from './query-builder';
+import { FilterParseError } from './errors';
+import { isOperatorObject, isPlainObject } from './utils';
+
+// MongoDB $options that are also JavaScript regular expression flags ('x' is not)
+const REGEX_OPTIONS = ['i', 'm', 's', 'u'];
+
+export interface ParseOptions {
+  // Data path per 'field.$operator' or 'field', e.g. { 'price.$gte': 'minPrice' }
+  references?: Record<string, string>;
+}
+
+/**
+ * Convert a MongoDB filter into a query config
+ *
+ * @throws FilterParseError if part of the filter cannot be expressed as a
+ * condition (unsupported top-level operators, empty clauses)
+ */
+export function parseFilter(filter: Record<string, any>, options: ParseOptions = {}): QueryConfig {
+  const conditions = parseClauses(filter, '', options.references ?? {});
+  return conditions.length > 0 ? { conditions } : {};
+}
+
+function parseClauses(
+  filter: Record<string, any>,
+  path: string,
+  references: Record<string, string>
+): QueryCondition[] {
+  if (!isPlainObject(filter)) {
+    throw new FilterParseError(path || '(root)', 'expected a filter object');
+  }
+
+  const conditions: QueryCondition[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (key === Operator.AND || key === Operator.OR || key === Operator.NOR) {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new FilterParseError(keyPath, `${key} needs a non-empty array of clauses`);
+      }
+      conditions.push({
+        operator: key as LogicalCondition['operator'],
+        conditions: value.map((clause, i) => parseClause(clause, `${keyPath}[${i}]`, references))
+      });
+    } else if (key === Operator.EXPR) {
+      conditions.push(expr(value));
+    } else if (key === Operator.TEXT) {
+      conditions.push(parseText(value, keyPath, references));
+    } else if (key.startsWith('$')) {
+      throw new FilterParseError(keyPath, `unsupported top-level operator ${key}`);
+    } else {
+      conditions.push(...parseField(key, value, keyPath, references));
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Parse one clause of a logical operator into a single condition
+ */
+function parseClause(
+  clause: Record<string, any>,
+  path: string,
+  references: Record<string, string>
+): QueryCondition {
+  const conditions = parseClauses(clause, path, references);
+  if (conditions.length === 0) {
+    throw new FilterParseError(path, 'empty clauses match every document and have no condition form');
+  }
+  return conditions.length === 1 ? conditions[0] : and(...conditions);
+}
+
+function parseField(
+  name: string,
+  value: any,
+  path: string,
+  references: Record<string, string>
+): QueryCondition[] {
+  if (!isOperatorObject(value)) {
+    // Implicit equality (a regular expression keeps its pattern-match meaning)
+    return [parseOperator(name, Operator.EQ, value, path, references)];
+  }
+
+  if ('$options' in value && !('$regex' in value)) {
+    throw new FilterParseError(`${path}.$options`, '$options needs $regex');
+  }
+
+  const conditions: QueryCondition[] = [];
+
+  for (const [operator, operand] of Object.entries(value)) {
+    const operatorPath = `${path}.${operator}`;
+
+    if (operator === '$options') {
+      continue;
+    } else if (operator === Operator.REGEX && '$options' in value) {
+      if (lookup(references, name, operator) !== undefined) {
+        throw new FilterParseError(operatorPath, 'a $regex with $options cannot be a data reference');
+      }
+      const source = operand instanceof RegExp ? operand.source : String(operand);
+      const flags = operand instanceof RegExp ? operand.flags : '';
+      conditions.push(field(name, Operator.REGEX, toRegExp(source, flags, value.$options, operatorPath)));
+    } else if (operator === Operator.NOT) {
+      const negated = operand instanceof RegExp
+        ? [field(name, Operator.REGEX, operand)]
+        : parseField(name, operand, operatorPath, references);
+      conditions.push(not(negated.length === 1 ? negated[0] : and(...negated)));
+    } else if (operator === Operator.EQ && operand instanceof RegExp) {
+      throw new FilterParseError(operatorPath, '$eq with a regular expression has no condition form');
+    } else if (
+      (operator === Operator.GEO_WITHIN || operator === Operator.NEAR) &&
+      isPlainObject(operand) && '$geometry' in operand
+    ) {
+      conditions.push(parseGeo(name, operator, operand, operatorPath, references));
+    } else {
+      conditions.push(parseOperator(name, operator, operand, operatorPath, references));
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Parse one `field: { operator: operand }` constraint
+ */
+function parseOperator(
+  name: string,
+  operator: string,
+  operand: any,
+  path: string,
+  references: Record<string, string>
+): QueryCondition {
+  const reference = toReference(lookup(references, name, operator));
+  if (reference !== undefined) {
+    return field(name, operator, reference);
+  }
+
+  if (operator === Operator.EQ || operator === Operator.NE) {
+    // Values the builder would read as data references or operators are
+    // matched through a one-element $in/$nin instead
+    if (isReferenceLike(operand) || isOperatorObject(operand)) {
+      return field(name, operator === Operator.EQ ? Operator.IN : Operator.NIN, [operand]);
+    }
+  } else if (isReferenceLike(operand)) {
+    throw new FilterParseError(path, `literal ${JSON.stringify(operand)} would be read as a data reference`);
+  }
+
+  return field(name, operator, operand);
+}
+
+function parseGeo(
+  name: string,
+  operator: string,
+  operand: Record<string, any>,
+  path: string,
+  references: Record<string, string>
+): QueryCondition {
+  const { $geometry, $maxDistance, $minDistance, ...rest } = operand;
+  const unknown = Object.keys(rest);
+  if (operator === Operator.GEO_WITHIN) {
+    if ($maxDistance !== undefined) unknown.push('$maxDistance');
+    if ($minDistance !== undefined) unknown.push('$minDistance');
+  }
+  if (unknown.length > 0) {
+    throw new FilterParseError(path, `unsupported ${operator} options: ${unknown.join(', ')}`);
+  }
+
+  const geometry = toReference(lookup(references, name, operator)) ?? $geometry;
+  if (operator === Operator.GEO_WITHIN) {
+    return geoWithin(name, geometry);
+  }
+
+  const distances: { maxDistance?: number | string; minDistance?: number | string } = {};
+  const maxDistance = toReference(references[`${name}.$maxDistance`]) ?? $maxDistance;
+  const minDistance = toReference(references[`${name}.$minDistance`]) ?? $minDistance;
+  if (maxDistance !== undefined) distances.maxDistance = maxDistance;
+  if (minDistance !== undefined) distances.minDistance = minDistance;
+
+  return near(name, geometry, distances);
+}
+
+function parseText(value: any, path: string, references: Record<string, string>): QueryCondition {
+  if (!isPlainObject(value) || typeof value.$search !== 'string') {
+    throw new FilterParseError(path, '$text needs a $search string');
+  }
+
+  const { $search, $language, $caseSensitive, $diacriticSensitive, ...rest } = value;
+  if (Object.keys(rest).length > 0) {
+    throw new FilterParseError(path, `unsupported $text options: ${Object.keys(rest).join(', ')}`);
+  }
+
+  const search = toReference(references[Operator.TEXT]) ?? $search;
+  if (search === $search && isReferenceLike($search)) {
+    throw new FilterParseError(`${path}.$search`, `literal ${JSON.stringify($search)} would be read as a data reference`);
+  }
+
+  const options: Pick<TextCondition, 'language' | 'caseSensitive' | 'diacriticSensitive'> = {};
+  if ($language !== undefined) options.language = $language;
+  if ($caseSensitive !== undefined) options.caseSensitive = $caseSensitive;
+  if ($diacriticSensitive !== undefined) options.diacriticSensitive = $diacriticSensitive;
+
+  return text(search, options);
+}
+
+function lookup(references: Record<string, string>, name: string, operator: string): string | undefined {
+  return references[`${name}.${operator}`] ?? references[name];
+}
+
+function toReference(dataPath: string | undefined): string | undefined {
+  return dataPath !== undefined ? `$${dataPath}` : undefined;
+}
+
+/**
+ * Combine a pattern with its `$options`; only the options JavaScript
+ * regular expressions share with MongoDB can be kept
+ */
+function toRegExp(source: string, flags: string, options: unknown, path: string): RegExp {
+  const unsupported = typeof options === 'string' ? [...options].filter(option => !REGEX_OPTIONS.includes(option)) : [];
+  if (typeof options !== 'string' || unsupported.length > 0) {
+    throw new FilterParseError(path, typeof options === 'string'
+      ? `$options '${unsupported.join('')}' has no regular expression flag (supported: ${REGEX_OPTIONS.join(', ')})`
+      : '$options must be a string');
+  }
+
+  try {
+    return new RegExp(source, [...new Set([...flags, ...options])].join(''));
+  } catch (error) {
+    throw new FilterParseError(path, error instanceof Error ? error.message : String(error));
+  }
+}
+
+function isReferenceLike(value: any): boolean {
+  return typeof value === 'string' && value.startsWith('$');
+}
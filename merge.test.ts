@@ -0,0 +1,195 @@
+/**
+ * Filter Merging Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { mergeFilters } from './merge';
+import { MergeConflictError } from './errors';
+import { QueryBuilder, QueryConfig, Operator, field, or } from './query-builder';
+
+function conflictsOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof MergeConflictError) {
+      return error.conflicts;
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('Filter Merging', () => {
+
+  // ============================================================================
+  // mergeFilters
+  // ============================================================================
+
+  describe('mergeFilters', () => {
+    it('should combine constraints on the same field into one operator object', () => {
+      const query = mergeFilters([
+        { source: 'staticFilters', filter: { status: 'active', price: { $gte: 10 } } },
+        { source: 'conditions', filter: { status: { $ne: 'deleted' }, price: { $lte: 50 } } }
+      ]);
+
+      expect(query).toEqual({
+        status: { $eq: 'active', $ne: 'deleted' },
+        price: { $gte: 10, $lte: 50 }
+      });
+    });
+
+    it('should keep identical constraints once', () => {
+      const query = mergeFilters([
+        { source: 'staticFilters', filter: { status: 'active', createdAt: { $gte: new Date('2025-01-01') } } },
+        { source: 'conditions', filter: { status: 'active', createdAt: { $gte: new Date('2025-01-01') } } }
+      ]);
+
+      expect(query).toEqual({ status: 'active', createdAt: { $gte: new Date('2025-01-01') } });
+    });
+
+    it('should add constraints that cannot be combined to $and', () => {
+      const query = mergeFilters([
+        { source: 'staticFilters', filter: { price: { $gte: 10 }, name: /^a/, $or: [{ a: 1 }, { b: 1 }] } },
+        { source: 'conditions', filter: { price: { $gte: 20 }, name: { $ne: 'ab' }, $or: [{ c: 1 }, { d: 1 }] } }
+      ]);
+
+      expect(query).toEqual({
+        price: { $gte: 10 },
+        name: /^a/,
+        $or: [{ a: 1 }, { b: 1 }],
+        $and: [
+          { price: { $gte: 20 } },
+          { name: { $ne: 'ab' } },
+          { $or: [{ c: 1 }, { d: 1 }] }
+        ]
+      });
+    });
+
+    it('should keep patterns with a different $regex or $options apart', () => {
+      const query = mergeFilters([
+        { source: 'staticFilters', filter: { name: { $regex: 'a' }, code: { $regex: 'x', $options: 'i' } } },
+        { source: 'conditions', filter: { name: { $regex: 'a', $options: 'i' }, code: { $regex: 'x', $options: 'i' } } }
+      ]);
+
+      expect(query).toEqual({
+        name: { $regex: 'a' },
+        code: { $regex: 'x', $options: 'i' },
+        $and: [{ name: { $regex: 'a', $options: 'i' } }]
+      });
+    });
+
+    it('should concatenate $and clauses', () => {
+      const query = mergeFilters([
+        { source: 'staticFilters', filter: { $and: [{ a: 1 }] } },
+        { source: 'conditions', filter: { $and: [{ b: 1 }, { c: 1 }] } }
+      ]);
+
+      expect(query).toEqual({ $and: [{ a: 1 }, { b: 1 }, { c: 1 }] });
+    });
+
+    it('should not mutate the fragments', () => {
+      const staticFilters = { status: { $ne: 'deleted' }, $and: [{ a: 1 }] };
+
+      mergeFilters([
+        { source: 'staticFilters', filter: staticFilters },
+        { source: 'conditions', filter: { status: { $ne: 'archived', $exists: true }, $and: [{ b: 1 }] } }
+      ]);
+
+      expect(staticFilters).toEqual({ status: { $ne: 'deleted' }, $and: [{ a: 1 }] });
+    });
+  });
+
+  // ============================================================================
+  // Conflict Policies
+  // ============================================================================
+
+  describe('Conflict Policies', () => {
+    const config: QueryConfig = {
+      staticFilters: { status: 'active', tenantId: 't-1' },
+      fieldMappings: { status: 'status' },
+      conditions: [field('tenantId', Operator.EQ, '$tenantId')]
+    };
+    const data = { status: 'archived', tenantId: 't-2' };
+
+    it('should keep both conflicting values by default', () => {
+      expect(QueryBuilder.build(config, data)).toEqual({
+        status: 'active',
+        tenantId: 't-1',
+        $and: [{ status: 'archived' }, { tenantId: 't-2' }]
+      });
+    });
+
+    it('should keep the value from the highest ranked source', () => {
+      expect(QueryBuilder.build(config, data, { merge: { onConflict: 'precedence' } })).toEqual({
+        status: 'active',
+        tenantId: 't-1'
+      });
+
+      expect(QueryBuilder.build(config, data, {
+        merge: { onConflict: 'precedence', precedence: ['conditions', 'fieldMappings', 'staticFilters'] }
+      })).toEqual({ status: 'archived', tenantId: 't-2' });
+    });
+
+    it('should report every conflict', () => {
+      const conflicts = conflictsOf(() => QueryBuilder.build(config, data, { merge: { onConflict: 'error' } }));
+
+      expect(conflicts).toEqual([
+        {
+          field: 'status',
+          operator: '$eq',
+          sources: ['staticFilters', 'fieldMappings'],
+          values: ['active', 'archived'],
+          message: `'status' is set to "active" by staticFilters and "archived" by fieldMappings`
+        },
+        expect.objectContaining({ field: 'tenantId', sources: ['staticFilters', 'conditions'] })
+      ]);
+    });
+
+    it('should not report matching values as conflicts', () => {
+      expect(QueryBuilder.build(config, { status: 'active', tenantId: 't-1' }, {
+        merge: { onConflict: 'error' }
+      })).toEqual({ status: 'active', tenantId: 't-1' });
+    });
+
+    it('should merge conflicts the same way when compiled', () => {
+      const compiled = QueryBuilder.compile(config, { merge: { onConflict: 'precedence' } });
+
+      expect(compiled(data)).toEqual(QueryBuilder.build(config, data, { merge: { onConflict: 'precedence' } }));
+    });
+  });
+
+  // ============================================================================
+  // Builder Integration
+  // ============================================================================
+
+  describe('Builder Integration', () => {
+    it('should keep a date range and a condition on the same field', () => {
+      const config: QueryConfig = {
+        dateRanges: [{ field: 'createdAt' }],
+        conditions: [field('createdAt', Operator.LT, '$before')]
+      };
+
+      expect(QueryBuilder.build(config, { createdAt: { from: '2025-01-01' }, before: '2025-02-01' })).toEqual({
+        createdAt: { $gte: '2025-01-01', $lt: '2025-02-01' }
+      });
+    });
+
+    it('should keep static $and clauses when conditions emit $and', () => {
+      const config: QueryConfig = {
+        staticFilters: { $and: [{ deleted: false }] },
+        conditions: [
+          field('status', Operator.EQ, 'open'),
+          or(field('ownerId', Operator.EQ, '$userId'), field('shared', Operator.EQ, true))
+        ]
+      };
+
+      expect(QueryBuilder.build(config, { userId: 'u-1' })).toEqual({
+        $and: [
+          { deleted: false },
+          { status: 'open' },
+          { $or: [{ ownerId: 'u-1' }, { shared: true }] }
+        ]
+      });
+    });
+  });
+});
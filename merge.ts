@@ -0,0 +1,184 @@
+/**
+ * Filter Merging
+ *
+ * Combines the filters built from each config section (static filters,
+ * field mappings, date ranges, conditions) into one query. Constraints on
+ * the same field are merged into a single operator object when that keeps
+ * both of them, e.g. `{ $gte: a }` and `{ $lte: b }`; otherwise the later
+ * one is added to a top-level `$and`, so nothing is silently overwritten.
+ *
+ * Two different equality values for the same field are a conflict and are
+ * resolved with the merge policy.
+ */
+
+import { MergeConflict, MergeConflictError } from './errors';
+import { isDeepEqual, isOperatorObject } from './utils';
+
+export type MergeSource = 'staticFilters' | 'fieldMappings' | 'dateRanges' | 'conditions';
+
+export interface MergePolicy {
+  // How to resolve two different equality values for the same field:
+  //   'and'        keep both constraints (default)
+  //   'precedence' keep the value from the source ranked first in `precedence`
+  //   'error'      throw MergeConflictError
+  onConflict?: 'and' | 'precedence' | 'error';
+
+  // Source ranking for 'precedence', highest first
+  precedence?: MergeSource[];
+}
+
+export interface FilterFragment {
+  source: MergeSource;
+  filter: Record<string, any>;
+}
+
+export const DEFAULT_PRECEDENCE: MergeSource[] = [
+  'staticFilters',
+  'fieldMappings',
+  'dateRanges',
+  'conditions'
+];
+
+/**
+ * Merge filter fragments, in build order, into one query
+ *
+ * Fragments are never mutated.
+ *
+ * @throws MergeConflictError if the policy is 'error' and two fragments
+ * set different equality values for the same field
+ */
+export function mergeFilters(fragments: FilterFragment[], policy: MergePolicy = {}): Record<string, any> {
+  const query: Record<string, any> = {};
+  // Source of the equality value currently set on each field
+  const owners = new Map<string, MergeSource>();
+  const conflicts: MergeConflict[] = [];
+
+  for (const { source, filter } of fragments) {
+    for (const [key, value] of Object.entries(filter)) {
+      if (key === '$and') {
+        query.$and = [...(query.$and ?? []), ...value];
+      } else if (!(key in query)) {
+        query[key] = value;
+        owners.set(key, source);
+      } else if (key.startsWith('$')) {
+        // Top-level operators ($or, $nor, $expr, ...) cannot be combined
+        query.$and = [...(query.$and ?? []), { [key]: value }];
+      } else {
+        mergeField(query, key, value, source, owners, policy, conflicts);
+      }
+    }
+  }
+
+  if (conflicts.length > 0) {
+    throw new MergeConflictError(conflicts);
+  }
+
+  return query;
+}
+
+function mergeField(
+  query: Record<string, any>,
+  field: string,
+  value: any,
+  source: MergeSource,
+  owners: Map<string, MergeSource>,
+  policy: MergePolicy,
+  conflicts: MergeConflict[]
+): void {
+  const current = toOperators(query[field]);
+  const incoming = toOperators(value);
+
+  // Regular expression shorthand cannot be moved into an operator object
+  if (!current || !incoming) {
+    addAndClause(query, field, value);
+    return;
+  }
+
+  // $options belongs to its $regex; two different patterns both apply
+  if (hasPattern(current) && hasPattern(incoming) &&
+    (!isDeepEqual(current.$regex, incoming.$regex) || !isDeepEqual(current.$options, incoming.$options))) {
+    addAndClause(query, field, value);
+    return;
+  }
+
+  const merged = { ...current };
+  const rest = { ...incoming };
+
+  if ('$eq' in current && '$eq' in incoming && !isDeepEqual(current.$eq, incoming.$eq)) {
+    const owner = owners.get(field) ?? source;
+    const mode = policy.onConflict ?? 'and';
+
+    if (mode !== 'precedence') {
+      if (mode === 'error') {
+        conflicts.push({
+          field,
+          operator: '$eq',
+          sources: [owner, source],
+          values: [current.$eq, incoming.$eq],
+          message: `'${field}' is set to ${JSON.stringify(current.$eq)} by ${owner} ` +
+            `and ${JSON.stringify(incoming.$eq)} by ${source}`
+        });
+      }
+      addAndClause(query, field, value);
+      return;
+    }
+
+    const precedence = policy.precedence ?? DEFAULT_PRECEDENCE;
+    if (rank(precedence, source) < rank(precedence, owner)) {
+      merged.$eq = incoming.$eq;
+      owners.set(field, source);
+    }
+    delete rest.$eq;
+  }
+
+  // The same operator with a different value stays a separate constraint
+  const clashes = Object.keys(rest).some(
+    operator => operator in merged && !isDeepEqual(merged[operator], rest[operator])
+  );
+  if (clashes) {
+    query[field] = fromOperators(merged, query[field]);
+    addAndClause(query, field, rest);
+    return;
+  }
+
+  if (!('$eq' in current) && '$eq' in rest) {
+    owners.set(field, source);
+  }
+  Object.assign(merged, rest);
+  query[field] = fromOperators(merged, query[field]);
+}
+
+function hasPattern(operators: Record<string, any>): boolean {
+  return '$regex' in operators || '$options' in operators;
+}
+
+/**
+ * View a field value as an operator object; implicit equality becomes `$eq`
+ */
+function toOperators(value: any): Record<string, any> | null {
+  if (value instanceof RegExp) {
+    return null;
+  }
+  return isOperatorObject(value) ? value : { $eq: value };
+}
+
+function fromOperators(operators: Record<string, any>, original: any): any {
+  if (isDeepEqual(toOperators(original), operators)) {
+    return original;
+  }
+  const keys = Object.keys(operators);
+  const eq = operators.$eq;
+  if (keys.length === 1 && keys[0] === '$eq' && !isOperatorObject(eq) && !(eq instanceof RegExp)) {
+    return eq;
+  }
+  return operators;
+}
+
+function addAndClause(query: Record<string, any>, field: string, value: any): void {
+  query.$and = [...(query.$and ?? []), { [field]: value }];
+}
+
+function rank(precedence: MergeSource[], source: MergeSource): number {
+  const index = precedence.indexOf(source);
+  return index === -1 ? precedence.length : index;
+}
@@ -0,0 +1,212 @@
+/**
+ * MongoDB Config Store Test Suite
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Db } from 'mongodb';
+import { MongoConfigStore } from './mongo-config-store';
+import { QueryConfigRevision, StoredQueryConfig } from './config-store';
+import { matches } from './evaluator';
+
+/**
+ * A collection keeping documents in memory, matching filters with the
+ * evaluator and enforcing the unique indexes created on it
+ */
+class FakeCollection {
+  documents: Record<string, any>[] = [];
+  private readonly uniqueKeys: string[][] = [];
+  private nextId = 1;
+
+  async createIndex(keys: Record<string, number>, options: { unique?: boolean } = {}): Promise<string> {
+    if (options.unique) {
+      this.uniqueKeys.push(Object.keys(keys));
+    }
+    return Object.keys(keys).join('_');
+  }
+
+  async insertOne(document: Record<string, any>): Promise<{ insertedId: number }> {
+    const inserted: Record<string, any> = { _id: this.nextId++, ...document };
+    for (const keys of this.uniqueKeys) {
+      if (this.documents.some(other => keys.every(key => other[key] === inserted[key]))) {
+        throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+      }
+    }
+    this.documents.push(inserted);
+    return { insertedId: inserted._id };
+  }
+
+  async findOne(filter: Record<string, any>): Promise<Record<string, any> | null> {
+    return this.documents.find(document => matches(filter, document)) ?? null;
+  }
+
+  find(filter: Record<string, any>) {
+    let found = this.documents.filter(document => matches(filter, document));
+    const cursor = {
+      sort: (sort: Record<string, 1 | -1>) => {
+        const [[key, direction]] = Object.entries(sort);
+        found = [...found].sort((a, b) => (a[key] - b[key]) * direction);
+        return cursor;
+      },
+      limit: (limit: number) => {
+        found = found.slice(0, limit);
+        return cursor;
+      },
+      toArray: async () => found
+    };
+    return cursor;
+  }
+
+  async deleteOne(filter: Record<string, any>): Promise<{ deletedCount: number }> {
+    const index = this.documents.findIndex(document => matches(filter, document));
+    if (index >= 0) {
+      this.documents.splice(index, 1);
+    }
+    return { deletedCount: index >= 0 ? 1 : 0 };
+  }
+
+  async replaceOne(filter: Record<string, any>, replacement: Record<string, any>, options: { upsert?: boolean } = {}) {
+    const index = this.documents.findIndex(document => matches(filter, document));
+    if (index >= 0) {
+      this.documents[index] = { _id: this.documents[index]._id, ...replacement };
+      return { matchedCount: 1, upsertedCount: 0 };
+    }
+    if (options.upsert) {
+      await this.insertOne(replacement);
+      return { matchedCount: 0, upsertedCount: 1 };
+    }
+    return { matchedCount: 0, upsertedCount: 0 };
+  }
+
+  async updateOne(filter: Record<string, any>, update: { $setOnInsert: Record<string, any> }, options: { upsert?: boolean } = {}) {
+    if (this.documents.some(document => matches(filter, document))) {
+      return { matchedCount: 1, upsertedCount: 0 };
+    }
+    if (options.upsert) {
+      await this.insertOne({ ...update.$setOnInsert });
+      return { matchedCount: 0, upsertedCount: 1 };
+    }
+    return { matchedCount: 0, upsertedCount: 0 };
+  }
+}
+
+function fakeDb(): { db: Db; configs: FakeCollection; revisions: FakeCollection } {
+  const configs = new FakeCollection();
+  const revisions = new FakeCollection();
+  const collections: Record<string, FakeCollection> = { queryConfigs: configs, queryConfigsHistory: revisions };
+  const db = { collection: (name: string) => collections[name] } as unknown as Db;
+  return { db, configs, revisions };
+}
+
+function revision(config: StoredQueryConfig, version: number): QueryConfigRevision {
+  return { name: config.name, version, config: { ...config, version }, createdAt: new Date('2025-01-01') };
+}
+
+const tasks: StoredQueryConfig = { name: 'tasks', staticFilters: { status: 'open' } };
+
+describe('MongoConfigStore', () => {
+
+  // ============================================================================
+  // Compare-and-swap
+  // ============================================================================
+
+  describe('Compare-and-swap', () => {
+    it('should only write over the expected version and record a revision for each write', async () => {
+      const { db } = fakeDb();
+      const store = new MongoConfigStore(db);
+
+      expect(await store.save(revision(tasks, 1), 0)).toBe(true);
+      expect(await store.save(revision({ ...tasks, description: 'stale' }, 2), 0)).toBe(false);
+      expect(await store.save(revision({ ...tasks, description: 'next' }, 2), 1)).toBe(true);
+
+      expect(await store.get('tasks')).toMatchObject({ version: 2, description: 'next' });
+      expect((await store.history('tasks')).map(r => [r.version, r.config.description])).toEqual([
+        [2, 'next'],
+        [1, undefined]
+      ]);
+    });
+
+    it('should count configs saved without a version as version 0', async () => {
+      const { db, configs } = fakeDb();
+      configs.documents.push({ _id: 99, ...tasks });
+      const store = new MongoConfigStore(db);
+
+      expect(await store.save(revision(tasks, 1), 1)).toBe(false);
+      expect(await store.save(revision(tasks, 1), 0)).toBe(true);
+      expect(configs.documents).toEqual([{ _id: 99, ...tasks, version: 1 }]);
+    });
+
+    it('should let only one of two creates win', async () => {
+      const { db } = fakeDb();
+      const store = new MongoConfigStore(db);
+      await store.ensureIndexes();
+
+      expect(await store.save(revision({ ...tasks, description: 'first' }, 1), 0)).toBe(true);
+      expect(await store.save(revision({ ...tasks, description: 'second' }, 1), 0)).toBe(false);
+
+      expect((await store.get('tasks'))!.description).toBe('first');
+    });
+
+    it('should overwrite when no version is expected', async () => {
+      const { db } = fakeDb();
+      const store = new MongoConfigStore(db);
+      await store.save(revision(tasks, 1), 0);
+
+      expect(await store.save(revision({ ...tasks, description: 'forced' }, 5))).toBe(true);
+      expect(await store.get('tasks')).toMatchObject({ version: 5, description: 'forced' });
+    });
+  });
+
+  // ============================================================================
+  // Revisions of lost writes
+  // ============================================================================
+
+  describe('Revisions of lost writes', () => {
+    it('should record the revision before the current config', async () => {
+      const { db, configs, revisions } = fakeDb();
+      const store = new MongoConfigStore(db);
+      const insertRevision = jest.spyOn(revisions, 'insertOne');
+      const writeCurrent = jest.spyOn(configs, 'replaceOne');
+
+      await store.save(revision(tasks, 1));
+
+      expect(insertRevision.mock.invocationCallOrder[0]).toBeLessThan(writeCurrent.mock.invocationCallOrder[0]);
+    });
+
+    it('should remove only its own revision when the write loses, without the unique index', async () => {
+      const { db, revisions } = fakeDb();
+      const store = new MongoConfigStore(db);
+      await store.save(revision(tasks, 1), 0);
+      await store.save(revision({ ...tasks, description: 'winner' }, 2), 1);
+
+      expect(await store.save(revision({ ...tasks, description: 'loser' }, 2), 1)).toBe(false);
+
+      expect(revisions.documents.map(r => [r.version, r.config.description])).toEqual([
+        [1, undefined],
+        [2, 'winner']
+      ]);
+    });
+
+    it('should give up before writing when the unique index holds the version', async () => {
+      const { db, configs } = fakeDb();
+      const store = new MongoConfigStore(db);
+      await store.ensureIndexes();
+      await store.save(revision(tasks, 1), 0);
+      await store.save(revision({ ...tasks, description: 'winner' }, 2), 1);
+      const replaceOne = jest.spyOn(configs, 'replaceOne');
+
+      expect(await store.save(revision({ ...tasks, description: 'loser' }, 2), 1)).toBe(false);
+
+      expect(replaceOne).not.toHaveBeenCalled();
+      expect((await store.history('tasks', { version: 2 }))[0].config.description).toBe('winner');
+    });
+
+    it('should rethrow duplicate revisions when no version is expected', async () => {
+      const { db } = fakeDb();
+      const store = new MongoConfigStore(db);
+      await store.ensureIndexes();
+      await store.save(revision(tasks, 1));
+
+      await expect(store.save(revision(tasks, 1))).rejects.toMatchObject({ code: 11000 });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * MongoDB Config Store
+ *
+ * Keeps current configs in a collection and their revisions in
+ * `${collectionName}History`.
+ */
+
+import { Db, Collection, Filter, InsertOneResult } from 'mongodb';
+import {
+  CacheInvalidator,
+  ConfigChangeListener,
+  ConfigStore,
+  ConfigListFilter,
+  HistoryOptions,
+  PollingOptions,
+  QueryConfigRevision,
+  StoredQueryConfig
+} from './query-builder';
+import { ChangeStreamInvalidator, ChangeStreamOptions, createPollingInvalidator } from './mongo-invalidation';
+
+export interface MongoStoreOptions extends ChangeStreamOptions, PollingOptions {
+  // How watch() sees changes: a change stream (replica sets and sharded
+  // clusters) or polling updatedAt; by default it reports nothing
+  watch?: 'changeStream' | 'poll';
+}
+
+export class MongoConfigStore implements ConfigStore {
+  readonly collection: Collection<StoredQueryConfig>;
+  readonly revisions: Collection<QueryConfigRevision>;
+  private invalidator?: CacheInvalidator;
+
+  constructor(db: Db, collectionName: string = 'queryConfigs', private readonly options: MongoStoreOptions = {}) {
+    this.collection = db.collection<StoredQueryConfig>(collectionName);
+    this.revisions = db.collection<QueryConfigRevision>(`${collectionName}History`);
+  }
+
+  async get(name: string): Promise<StoredQueryConfig | null> {
+    return this.collection.findOne({ name });
+  }
+
+  /**
+   * Record the revision, then write the current version of a config, only
+   * over the expected version
+   *
+   * The revision goes first, so a current version always has its revision.
+   * It is removed again if the write loses to another save; a revision left
+   * by a failed write is skipped over, as versions continue after the
+   * latest revision.
+   */
+  async save(revision: QueryConfigRevision, expectedVersion?: number): Promise<boolean> {
+    const { name, config } = revision;
+
+    let inserted: InsertOneResult<QueryConfigRevision>;
+    try {
+      inserted = await this.revisions.insertOne({ ...revision });
+    } catch (error) {
+      // Another save recorded this version first (unique revision index)
+      if (expectedVersion !== undefined && isDuplicateKeyError(error)) {
+        return false;
+      }
+      throw error;
+    }
+
+    if (!(await this.writeCurrent(name, config, expectedVersion))) {
+      // By _id: without the unique index the winner may have recorded the same version
+      await this.revisions.deleteOne({ _id: inserted.insertedId });
+      return false;
+    }
+    return true;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const result = await this.collection.deleteOne({ name });
+    return result.deletedCount > 0;
+  }
+
+  async list(filter: ConfigListFilter = {}): Promise<StoredQueryConfig[]> {
+    const query: Filter<StoredQueryConfig> = {};
+
+    if (filter.tags && filter.tags.length > 0) {
+      query.tags = { $in: filter.tags };
+    }
+
+    return this.collection.find(query).toArray();
+  }
+
+  async history(name: string, options: HistoryOptions = {}): Promise<QueryConfigRevision[]> {
+    const query: Filter<QueryConfigRevision> = options.version === undefined ? { name } : { name, version: options.version };
+    const cursor = this.revisions.find(query).sort({ version: -1 });
+    if (options.limit !== undefined) {
+      cursor.limit(options.limit);
+    }
+    return cursor.toArray();
+  }
+
+  watch(listener: ConfigChangeListener): () => void {
+    if (!this.options.watch) {
+      return () => undefined;
+    }
+
+    if (!this.invalidator) {
+      this.invalidator = this.options.watch === 'changeStream'
+        ? new ChangeStreamInvalidator(this.collection, this.options)
+        : createPollingInvalidator(this.collection, this.options);
+    }
+    return this.invalidator.subscribe(listener);
+  }
+
+  /**
+   * Create the indexes saves rely on: unique config names and unique
+   * revision numbers per config
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ name: 1 }, { unique: true });
+    await this.revisions.createIndex({ name: 1, version: -1 }, { unique: true });
+  }
+
+  /**
+   * @returns false if the expected version is no longer stored
+   */
+  private async writeCurrent(
+    name: string,
+    config: StoredQueryConfig,
+    expectedVersion: number | undefined
+  ): Promise<boolean> {
+    // Replace rather than $set, so fields removed from the config are removed
+    if (expectedVersion === undefined) {
+      await this.collection.replaceOne({ name }, config, { upsert: true });
+      return true;
+    }
+
+    // Configs saved before versioning have no version, which counts as 0
+    const filter: Filter<StoredQueryConfig> = expectedVersion === 0
+      ? { name, $or: [{ version: { $exists: false } }, { version: 0 }] }
+      : { name, version: expectedVersion };
+    const result = await this.collection.replaceOne(filter, config);
+    if (result.matchedCount > 0 || expectedVersion !== 0) {
+      return result.matchedCount > 0;
+    }
+
+    // A new config; the unique name index makes concurrent creates fail
+    const created = await this.collection.updateOne({ name }, { $setOnInsert: config }, { upsert: true });
+    return created.upsertedCount > 0;
+  }
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
@@ -0,0 +1,198 @@
+/**
+ * MongoDB Cache Invalidation Test Suite
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { Collection } from 'mongodb';
+import { ChangeStreamInvalidator, createPollingInvalidator } from './mongo-invalidation';
+import { ConfigChangeEvent } from './config-cache';
+
+class FakeStream extends EventEmitter {
+  closed = false;
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+/**
+ * A collection whose watch() hands out fake change streams
+ */
+function watchedCollection(): { collection: Collection<any>; streams: FakeStream[]; watchArgs: any[][] } {
+  const streams: FakeStream[] = [];
+  const watchArgs: any[][] = [];
+  const collection = {
+    watch: (...args: any[]) => {
+      watchArgs.push(args);
+      const stream = new FakeStream();
+      streams.push(stream);
+      return stream;
+    }
+  };
+  return { collection: collection as unknown as Collection<any>, streams, watchArgs };
+}
+
+function saved(id: string, name: string, version?: number) {
+  return { operationType: 'update', documentKey: { _id: id }, fullDocument: { _id: id, name, version } };
+}
+
+function deleted(id: string) {
+  return { operationType: 'delete', documentKey: { _id: id } };
+}
+
+describe('MongoDB Invalidation', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // ============================================================================
+  // Change Streams
+  // ============================================================================
+
+  describe('ChangeStreamInvalidator', () => {
+    it('should watch with the first subscriber and close with the last', () => {
+      const { collection, streams, watchArgs } = watchedCollection();
+      const invalidator = new ChangeStreamInvalidator(collection);
+
+      const stopFirst = invalidator.subscribe(() => undefined);
+      const stopSecond = invalidator.subscribe(() => undefined);
+      expect(watchArgs).toEqual([[[], { fullDocument: 'updateLookup' }]]);
+
+      stopFirst();
+      expect(streams[0].closed).toBe(false);
+      stopSecond();
+      expect(streams[0].closed).toBe(true);
+    });
+
+    it('should announce saves with the name and version of the looked-up document', () => {
+      const { collection, streams } = watchedCollection();
+      const events: ConfigChangeEvent[] = [];
+      new ChangeStreamInvalidator(collection).subscribe(event => events.push(event));
+
+      streams[0].emit('change', { ...saved('1', 'tasks', 3), operationType: 'insert' });
+      streams[0].emit('change', saved('1', 'tasks', 4));
+      streams[0].emit('change', { operationType: 'replace', documentKey: { _id: '2' }, fullDocument: null });
+      streams[0].emit('change', { operationType: 'drop' });
+
+      expect(events).toEqual([
+        { type: 'saved', name: 'tasks', version: 3 },
+        { type: 'saved', name: 'tasks', version: 4 },
+        { type: 'reset' },
+        { type: 'reset' }
+      ]);
+    });
+
+    it('should name deleted configs by the _id it has seen, and reset otherwise', () => {
+      const { collection, streams } = watchedCollection();
+      const events: ConfigChangeEvent[] = [];
+      new ChangeStreamInvalidator(collection).subscribe(event => events.push(event));
+
+      streams[0].emit('change', saved('1', 'tasks', 1));
+      streams[0].emit('change', deleted('1'));
+      streams[0].emit('change', deleted('1'));
+      streams[0].emit('change', deleted('2'));
+
+      expect(events.slice(1)).toEqual([{ type: 'deleted', name: 'tasks' }, { type: 'reset' }, { type: 'reset' }]);
+    });
+
+    it('should reset and forget what it saw when the stream fails, then reopen it', () => {
+      jest.useFakeTimers();
+      const { collection, streams } = watchedCollection();
+      const events: ConfigChangeEvent[] = [];
+      const errors: unknown[] = [];
+      new ChangeStreamInvalidator(collection, { retryMs: 1000, onError: error => errors.push(error) })
+        .subscribe(event => events.push(event));
+      streams[0].emit('change', saved('1', 'tasks', 1));
+
+      streams[0].emit('error', new Error('connection lost'));
+
+      expect(errors).toEqual([new Error('connection lost')]);
+      expect(streams[0].closed).toBe(true);
+      expect(events.slice(1)).toEqual([{ type: 'reset' }]);
+
+      jest.advanceTimersByTime(999);
+      expect(streams).toHaveLength(1);
+      jest.advanceTimersByTime(1);
+      expect(streams).toHaveLength(2);
+
+      // A failure of the old stream no longer matters
+      streams[0].emit('error', new Error('late'));
+      streams[1].emit('change', deleted('1'));
+      expect(events.slice(2)).toEqual([{ type: 'reset' }]);
+    });
+
+    it('should not reopen the stream once every subscriber has left', () => {
+      jest.useFakeTimers();
+      const { collection, streams } = watchedCollection();
+      const stop = new ChangeStreamInvalidator(collection, { retryMs: 1000, onError: () => undefined })
+        .subscribe(() => undefined);
+
+      streams[0].emit('error', new Error('connection lost'));
+      stop();
+      jest.advanceTimersByTime(5000);
+
+      expect(streams).toHaveLength(1);
+    });
+  });
+
+  // ============================================================================
+  // Polling
+  // ============================================================================
+
+  describe('createPollingInvalidator', () => {
+    it('should read the stamps of every config and announce what changed', async () => {
+      let stamps = [{ name: 'tasks', version: 1, updatedAt: new Date('2025-01-01') }, { name: 'notes', version: 1 }];
+      const finds: any[][] = [];
+      const collection = {
+        find: (...args: any[]) => {
+          finds.push(args);
+          return { toArray: async () => stamps };
+        }
+      } as unknown as Collection<any>;
+      const invalidator = createPollingInvalidator(collection, { intervalMs: 60000 });
+      const events: ConfigChangeEvent[] = [];
+      const stop = invalidator.subscribe(event => events.push(event));
+
+      await invalidator.check();
+      stamps = [{ name: 'tasks', version: 2, updatedAt: new Date('2025-01-02') }];
+      await invalidator.check();
+      stop();
+
+      expect(finds[0]).toEqual([{}, { projection: { _id: 0, name: 1, version: 1, updatedAt: 1 } }]);
+      expect(events).toEqual([{ type: 'saved', name: 'tasks', version: 2 }, { type: 'deleted', name: 'notes' }]);
+    });
+
+    it('should report a failed poll and pick up changes on the next one', async () => {
+      let fail = false;
+      let stamps = [{ name: 'tasks', version: 1 }];
+      const collection = {
+        find: () => ({
+          toArray: async () => {
+            if (fail) {
+              throw new Error('not primary');
+            }
+            return stamps;
+          }
+        })
+      } as unknown as Collection<any>;
+      const errors: unknown[] = [];
+      const invalidator = createPollingInvalidator(collection, { intervalMs: 60000, onError: error => errors.push(error) });
+      const events: ConfigChangeEvent[] = [];
+      const stop = invalidator.subscribe(event => events.push(event));
+      await invalidator.check();
+
+      fail = true;
+      stamps = [{ name: 'tasks', version: 2 }];
+      await invalidator.check();
+      expect(errors).toEqual([new Error('not primary')]);
+      expect(events).toEqual([]);
+
+      fail = false;
+      await invalidator.check();
+      stop();
+
+      expect(events).toEqual([{ type: 'saved', name: 'tasks', version: 2 }]);
+    });
+  });
+});
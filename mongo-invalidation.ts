@@ -0,0 +1,152 @@
+/**
+ * MongoDB Cache Invalidation
+ *
+ * Invalidators that watch a config collection directly, so every
+ * `QueryConfigManager` sees saves and deletes made by any other process.
+ */
+
+import { Collection, ChangeStream, ChangeStreamDocument, Document } from 'mongodb';
+import {
+  CacheInvalidator,
+  ConfigChangeEvent,
+  ConfigChangeListener,
+  ConfigStamp,
+  PollingInvalidator,
+  PollingOptions
+} from './query-builder';
+
+interface ConfigDocument extends Document {
+  name: string;
+  version?: number;
+  updatedAt?: Date;
+}
+
+export interface ChangeStreamOptions {
+  // Milliseconds to wait before reopening a failed stream (default 5 seconds)
+  retryMs?: number;
+  // Called when the stream fails (default: log to the console)
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Announces changes from a change stream on the config collection
+ *
+ * Requires a replica set or sharded cluster. The stream is opened with the
+ * first subscriber and closed with the last. Deletes only carry the
+ * document _id, so a delete of a config this stream has not seen yet
+ * resets the whole cache; so does a failed stream, which is reopened after
+ * `retryMs`.
+ */
+export class ChangeStreamInvalidator<T extends ConfigDocument> implements CacheInvalidator {
+  private readonly listeners = new Set<ConfigChangeListener>();
+  // Config names by _id, learned from inserts and updates
+  private readonly names = new Map<string, string>();
+  private stream: ChangeStream<T, ChangeStreamDocument<T>> | null = null;
+  private retry: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly collection: Collection<T>,
+    private readonly options: ChangeStreamOptions = {}
+  ) {}
+
+  subscribe(listener: ConfigChangeListener): () => void {
+    this.listeners.add(listener);
+    if (!this.stream && !this.retry) {
+      this.open();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  private open(): void {
+    const stream = this.collection.watch<T>([], { fullDocument: 'updateLookup' });
+    this.stream = stream;
+
+    stream.on('change', change => this.emit(this.toEvent(change)));
+    stream.on('error', error => {
+      (this.options.onError ?? logStreamError)(error);
+      if (this.stream !== stream) {
+        return;
+      }
+      this.stop();
+      // Changes may have been missed while the stream was down
+      this.emit({ type: 'reset' });
+      this.retry = setTimeout(() => {
+        this.retry = null;
+        if (this.listeners.size > 0) {
+          this.open();
+        }
+      }, this.options.retryMs ?? 5000);
+      this.retry.unref?.();
+    });
+  }
+
+  private stop(): void {
+    if (this.retry) {
+      clearTimeout(this.retry);
+      this.retry = null;
+    }
+    if (this.stream) {
+      const stream = this.stream;
+      this.stream = null;
+      stream.close().catch(() => undefined);
+    }
+    this.names.clear();
+  }
+
+  private toEvent(change: ChangeStreamDocument<T>): ConfigChangeEvent {
+    switch (change.operationType) {
+      case 'insert':
+      case 'update':
+      case 'replace': {
+        const config = change.fullDocument;
+        if (!config) {
+          // Deleted again before the lookup
+          return { type: 'reset' };
+        }
+        this.names.set(String(change.documentKey._id), config.name);
+        return { type: 'saved', name: config.name, version: config.version };
+      }
+      case 'delete': {
+        const id = String(change.documentKey._id);
+        const name = this.names.get(id);
+        this.names.delete(id);
+        return name !== undefined ? { type: 'deleted', name } : { type: 'reset' };
+      }
+      default:
+        // drop, rename, invalidate, ...
+        return { type: 'reset' };
+    }
+  }
+
+  private emit(event: ConfigChangeEvent): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+}
+
+/**
+ * Create a polling invalidator that reads `name`, `version` and
+ * `updatedAt` of every config in the collection
+ */
+export function createPollingInvalidator<T extends ConfigDocument>(
+  collection: Collection<T>,
+  options: PollingOptions = {}
+): PollingInvalidator {
+  return new PollingInvalidator(async () => {
+    const stamps = await collection
+      .find({}, { projection: { _id: 0, name: 1, version: 1, updatedAt: 1 } })
+      .toArray();
+    return stamps as unknown as ConfigStamp[];
+  }, options);
+}
+
+function logStreamError(error: unknown): void {
+  console.error(`Config change stream failed: ${error instanceof Error ? error.message : String(error)}`);
+}
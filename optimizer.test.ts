@@ -0,0 +1,269 @@
+/**
+ * Filter Optimizer Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { optimizeFilter, canonicalKey } from './optimizer';
+import { matches } from './evaluator';
+import { QueryBuilder, QueryConfig, Operator, field, and, or } from './query-builder';
+
+describe('Filter Optimizer', () => {
+
+  // ============================================================================
+  // Simplification
+  // ============================================================================
+
+  describe('Simplification', () => {
+    it('should flatten nested $and and inline single-branch $or', () => {
+      const { filter } = optimizeFilter({
+        $and: [
+          { status: 'open' },
+          { $and: [{ priority: { $gte: 3 } }, { $or: [{ ownerId: 'u-1' }] }] }
+        ]
+      });
+
+      expect(filter).toEqual({ ownerId: 'u-1', priority: { $gte: 3 }, status: 'open' });
+    });
+
+    it('should flatten nested $or and turn equalities of one field into $in', () => {
+      const { filter } = optimizeFilter({
+        $or: [{ status: 'open' }, { $or: [{ status: 'pending' }, { status: { $in: ['open', 'review'] } }] }]
+      });
+
+      expect(filter).toEqual({ status: { $in: ['open', 'pending', 'review'] } });
+    });
+
+    it('should turn single-element $in and $nin into $eq and $ne', () => {
+      const { filter } = optimizeFilter({ status: { $in: ['open'] }, type: { $nin: ['draft'] } });
+
+      expect(filter).toEqual({ status: 'open', type: { $ne: 'draft' } });
+    });
+
+    it('should merge ranges and keep the tightest bounds', () => {
+      const { filter } = optimizeFilter({
+        $and: [
+          { price: { $gte: 10, $lt: 100 } },
+          { price: { $gt: 10 } },
+          { price: { $lte: 50 } },
+          { createdAt: { $gte: new Date('2025-01-01') } },
+          { createdAt: { $gte: new Date('2025-03-01') } }
+        ]
+      });
+
+      expect(filter).toEqual({
+        createdAt: { $gte: new Date('2025-03-01') },
+        price: { $gt: 10, $lte: 50 }
+      });
+    });
+
+    it('should keep regular expressions in single-element $in and $nin', () => {
+      const filter = { name: { $in: [/^a/] }, code: { $nin: [/^x/] } };
+      const document = { name: 'alice', code: 'y1' };
+
+      expect(optimizeFilter(filter).filter).toEqual(filter);
+      expect(matches(optimizeFilter(filter).filter!, document)).toBe(true);
+      // As $eq/$ne the patterns would be compared as values
+      expect(matches({ name: { $eq: /^a/ }, code: { $ne: /^x/ } }, document)).toBe(false);
+    });
+
+    it('should keep each $regex together with its $options', () => {
+      const sameOptions = optimizeFilter({
+        $and: [{ name: { $regex: 'a', $options: 'i' } }, { name: { $regex: 'b', $options: 'i' } }]
+      });
+      const otherOptions = optimizeFilter({
+        $and: [{ name: { $regex: 'a', $options: 'i' } }, { name: { $regex: 'a', $options: 'm' } }]
+      });
+
+      expect(sameOptions.filter).toEqual({
+        name: { $options: 'i', $regex: 'a' },
+        $and: [{ name: { $options: 'i', $regex: 'b' } }]
+      });
+      expect(otherOptions.filter).toEqual({
+        name: { $options: 'i', $regex: 'a' },
+        $and: [{ name: { $options: 'm', $regex: 'a' } }]
+      });
+      expect(optimizeFilter({
+        $and: [{ name: { $regex: 'a', $options: 'i' } }, { name: { $options: 'i', $regex: 'a' } }]
+      }).filter).toEqual({ name: { $options: 'i', $regex: 'a' } });
+    });
+
+    it('should combine exclusions and intersect $in lists of scalar fields', () => {
+      const filter = {
+        $and: [
+          { status: { $in: ['a', 'b', 'c'], $ne: 'x' } },
+          { status: { $in: ['b', 'c', 'd'], $ne: 'y' } }
+        ]
+      };
+
+      expect(optimizeFilter(filter, { scalarFields: ['status'] }).filter).toEqual({
+        status: { $in: ['b', 'c'], $nin: ['x', 'y'] }
+      });
+      // An array can hold 'a' and 'd', so both lists are kept otherwise
+      expect(optimizeFilter(filter).filter).toEqual({
+        status: { $in: ['a', 'b', 'c'], $nin: ['x', 'y'] },
+        $and: [{ status: { $in: ['b', 'c', 'd'] } }]
+      });
+    });
+
+    it('should keep constraints that cannot be merged in $and', () => {
+      const { filter } = optimizeFilter({
+        $and: [
+          { name: /^a/ },
+          { name: { $ne: 'ab' } },
+          { $or: [{ a: 1 }, { b: 1 }] },
+          { $or: [{ c: 1 }, { d: 1 }] },
+          { price: { $gt: 5 } },
+          { price: { $gt: 'five' } }
+        ]
+      });
+
+      expect(filter).toEqual({
+        name: { $ne: 'ab' },
+        price: { $gt: 5 },
+        $and: [
+          { $or: [{ a: 1 }, { b: 1 }] },
+          { $or: [{ c: 1 }, { d: 1 }] },
+          { name: /^a/ },
+          { price: { $gt: 'five' } }
+        ]
+      });
+    });
+
+    it('should drop $or when a branch matches every document', () => {
+      expect(optimizeFilter({ status: 'open', $or: [{}, { a: 1 }] }).filter).toEqual({ status: 'open' });
+    });
+  });
+
+  // ============================================================================
+  // Contradictions
+  // ============================================================================
+
+  describe('Contradictions', () => {
+    it('should detect impossible ranges', () => {
+      const result = optimizeFilter({ $and: [{ price: { $gt: 5 } }, { price: { $lt: 3 } }] });
+
+      expect(result.unsatisfiable).toBe(true);
+      expect(result.contradictions).toEqual([
+        { path: 'price', message: '$gt 5 and $lt 3 cannot both hold' }
+      ]);
+      expect(result.filter).toEqual({ price: { $gt: 5, $lt: 3 } });
+    });
+
+    it('should detect conflicting equality, $in and $exists constraints', () => {
+      const cases = [
+        { $and: [{ status: 'open' }, { status: 'closed' }] },
+        { status: 'open', $and: [{ status: { $in: ['a', 'b'] } }] },
+        { status: { $in: ['a'], $nin: ['a'] } },
+        { status: { $in: [] } },
+        { price: { $exists: false, $gt: 1 } },
+        { price: { $gte: 10, $eq: 5 } },
+        { $nor: [{}] }
+      ];
+
+      for (const filter of cases) {
+        expect(optimizeFilter(filter).unsatisfiable).toBe(true);
+      }
+    });
+
+    it('should drop $or branches that cannot match', () => {
+      const result = optimizeFilter({
+        $or: [{ price: { $gt: 5, $lt: 3 } }, { status: { $in: ['a'], $nin: ['a'] } }, { status: 'open' }]
+      }, { scalarFields: ['price'] });
+
+      expect(result).toEqual({ filter: { status: 'open' }, unsatisfiable: false, contradictions: [] });
+    });
+
+    it('should keep $or branches that an array field could match', () => {
+      const filter = { $or: [{ tags: 'a', $and: [{ tags: 'b' }] }, { x: 1 }] };
+      const document = { tags: ['a', 'b'] };
+
+      const result = optimizeFilter(filter);
+
+      expect(result).toEqual({
+        filter: { $or: [{ tags: 'a', $and: [{ tags: 'b' }] }, { x: 1 }] },
+        unsatisfiable: false,
+        contradictions: []
+      });
+      expect(matches(result.filter!, document)).toBe(true);
+      expect(optimizeFilter(filter, { scalarFields: ['tags'] }).filter).toEqual({ x: 1 });
+    });
+
+    it('should report $or branches when none can match', () => {
+      const result = optimizeFilter({
+        $or: [{ price: { $gt: 5, $lt: 3 } }, { status: { $in: [] } }]
+      });
+
+      expect(result.contradictions.map(c => c.path)).toEqual(['$or[0].price', '$or[1].status']);
+    });
+
+    it('should not check single-value constraints on array fields', () => {
+      const filter = { $and: [{ tags: 'a' }, { tags: 'b' }, { scores: { $gt: 5 } }, { scores: { $lt: 3 } }] };
+
+      expect(optimizeFilter(filter).unsatisfiable).toBe(true);
+      expect(optimizeFilter(filter, { arrayFields: ['tags', 'scores'] })).toEqual({
+        filter: { scores: { $gt: 5, $lt: 3 }, tags: 'a', $and: [{ tags: 'b' }] },
+        unsatisfiable: false,
+        contradictions: []
+      });
+    });
+  });
+
+  // ============================================================================
+  // Canonical Output
+  // ============================================================================
+
+  describe('Canonical Output', () => {
+    it('should produce the same key for equivalent filters', () => {
+      const a = optimizeFilter({ $or: [{ status: 'b' }, { status: 'a' }], price: { $lte: 5, $gte: 1 } }).filter;
+      const b = optimizeFilter({ $and: [{ price: { $gte: 1 } }, { price: { $lte: 5 } }, { status: { $in: ['a', 'b'] } }] }).filter;
+
+      expect(canonicalKey(a)).toBe(canonicalKey(b));
+    });
+
+    it('should tell dates, regular expressions and strings apart', () => {
+      const date = new Date('2025-01-01');
+
+      expect(canonicalKey({ a: date })).not.toBe(canonicalKey({ a: date.toISOString() }));
+      expect(canonicalKey({ a: /x/i })).not.toBe(canonicalKey({ a: '/x/i' }));
+      expect(canonicalKey({ b: 1, a: 2 })).toBe(canonicalKey({ a: 2, b: 1 }));
+    });
+
+    it('should be idempotent', () => {
+      const once = optimizeFilter({
+        $and: [{ $or: [{ a: 1 }, { b: { $in: [2] } }] }, { c: { $gte: 1 } }, { c: { $gte: 2 } }]
+      }).filter;
+
+      expect(optimizeFilter(once).filter).toEqual(once);
+    });
+  });
+
+  // ============================================================================
+  // Builder Integration
+  // ============================================================================
+
+  describe('Builder Integration', () => {
+    const config: QueryConfig = {
+      staticFilters: { deleted: false },
+      conditions: [
+        and(field('status', Operator.IN, '$statuses'), field('price', Operator.GTE, '$minPrice')),
+        or(field('ownerId', Operator.EQ, '$userId'))
+      ]
+    };
+    const data = { statuses: ['open'], minPrice: 10, userId: 'u-1' };
+
+    it('should optimize built filters with the optimize option', () => {
+      expect(QueryBuilder.build(config, data, { optimize: true })).toEqual({
+        deleted: false,
+        ownerId: 'u-1',
+        price: { $gte: 10 },
+        status: 'open'
+      });
+    });
+
+    it('should optimize compiled filters the same way', () => {
+      const compiled = QueryBuilder.compile(config, { optimize: true });
+
+      expect(compiled(data)).toEqual(QueryBuilder.build(config, data, { optimize: true }));
+    });
+  });
+});
@@ -0,0 +1,534 @@
+/**
+ * Filter Optimizer
+ *
+ * Simplifies built filters into a canonical form:
+ *
+ * - nested `$and`/`$or` are flattened, single-branch `$or` is inlined and
+ *   `$or` over equalities of one field becomes `$in`
+ * - constraints on the same field are merged, keeping the tightest bounds
+ * - single-element `$in`/`$nin` become `$eq`/`$ne` (unless the element is
+ *   a regular expression, which `$eq`/`$ne` would compare as a value)
+ * - field and operator keys and `$in` values are sorted, so equivalent
+ *   filters serialize the same way (see `canonicalKey`)
+ *
+ * Unsatisfiable filters, e.g. `{ $gt: 5, $lt: 3 }`, are reported with the
+ * contradictions found. Checks that only hold for single values (ranges,
+ * two different equalities, `$in` intersections) are skipped for fields
+ * listed in `arrayFields`, since an array can match each part with a
+ * different element.
+ *
+ * Rewrites that rely on single values change which documents match if the
+ * field holds an array, so they only apply to fields listed in
+ * `scalarFields`: `$or` branches are dropped when they cannot match, and
+ * `$in` lists on one field are intersected.
+ */
+
+import { isDeepEqual, isOperatorObject, isPlainObject } from './utils';
+
+export interface OptimizeOptions {
+  // Fields that may hold arrays
+  arrayFields?: string[];
+  // Fields known to hold single values, for rewrites that rely on it
+  scalarFields?: string[];
+}
+
+export interface Contradiction {
+  // Location in the filter, e.g. '$or[1].price'
+  path: string;
+  message: string;
+}
+
+export interface OptimizeResult {
+  filter: Record<string, any>;
+  // True when no document can match the filter
+  unsatisfiable: boolean;
+  contradictions: Contradiction[];
+}
+
+interface Optimized {
+  // null when the filter matches every document
+  filter: Record<string, any> | null;
+  contradictions: Contradiction[];
+  // Whether the contradictions hold even if undeclared fields hold arrays
+  certain: boolean;
+}
+
+interface FieldSets {
+  array: Set<string>;
+  scalar: Set<string>;
+}
+
+type Bound = { operator: string; value: any };
+
+const LOWER_BOUNDS = ['$gt', '$gte'];
+const UPPER_BOUNDS = ['$lt', '$lte'];
+const REGEX_OPERATORS = ['$regex', '$options'];
+
+/**
+ * Simplify a filter and check whether it can match any document
+ *
+ * The optimized filter matches the same documents as the input.
+ */
+export function optimizeFilter(filter: Record<string, any>, options: OptimizeOptions = {}): OptimizeResult {
+  const fieldSets: FieldSets = {
+    array: new Set(options.arrayFields ?? []),
+    scalar: new Set(options.scalarFields ?? [])
+  };
+  const result = optimizeAnd([filter], '', fieldSets);
+
+  return {
+    filter: result.filter ?? {},
+    unsatisfiable: result.contradictions.length > 0,
+    contradictions: result.contradictions
+  };
+}
+
+/**
+ * Serialize a filter or value deterministically, e.g. for cache keys
+ *
+ * Object keys are sorted; dates, regular expressions and ObjectIds are
+ * tagged so they do not collide with plain strings.
+ */
+export function canonicalKey(value: any): string {
+  return JSON.stringify(toCanonical(value));
+}
+
+function toCanonical(value: any): any {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (value instanceof RegExp) {
+    return { $regex: value.source, $options: value.flags };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCanonical);
+  }
+  if (typeof value === 'bigint') {
+    return { $numberLong: value.toString() };
+  }
+  if (value === undefined) {
+    return { $undefined: true };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (!isPlainObject(value)) {
+    // Driver types: ObjectId, Decimal128, ...
+    return typeof value.toHexString === 'function'
+      ? { $oid: value.toHexString() }
+      : { $type: value.constructor?.name, value: String(value) };
+  }
+  const canonical: Record<string, any> = {};
+  for (const key of Object.keys(value).sort()) {
+    canonical[key] = toCanonical(value[key]);
+  }
+  return canonical;
+}
+
+/**
+ * Optimize a conjunction of filters
+ */
+function optimizeAnd(filters: Record<string, any>[], path: string, fieldSets: FieldSets): Optimized {
+  const queue: [string, any][] = filters.flatMap(filter => Object.entries(filter));
+  const fields = new Map<string, any[]>();
+  const operators: [string, any][] = [];
+  const contradictions: Contradiction[] = [];
+  let certain = true;
+
+  while (queue.length > 0) {
+    const [key, value] = queue.shift()!;
+
+    if (key === '$and') {
+      for (const clause of value) {
+        queue.push(...Object.entries(clause));
+      }
+    } else if (key === '$or' || key === '$nor') {
+      const result = key === '$or'
+        ? optimizeOr(value, `${path}$or`, fieldSets)
+        : optimizeNor(value, `${path}$nor`, fieldSets);
+
+      contradictions.push(...result.contradictions);
+      certain &&= result.certain;
+      if (result.filter && (key === '$nor' || isOnly(result.filter, '$or'))) {
+        operators.push(...Object.entries(result.filter));
+      } else if (result.filter) {
+        // The $or collapsed to a single branch or an $in
+        queue.push(...Object.entries(result.filter));
+      }
+    } else if (key.startsWith('$')) {
+      operators.push([key, value]);
+    } else {
+      fields.set(key, [...(fields.get(key) ?? []), value]);
+    }
+  }
+
+  const query: Record<string, any> = {};
+  const clauses: Record<string, any>[] = [];
+
+  for (const field of [...fields.keys()].sort()) {
+    const merged = mergeFieldValues(
+      fields.get(field)!, `${path}${field}`, !fieldSets.array.has(field), fieldSets.scalar.has(field)
+    );
+    contradictions.push(...merged.contradictions);
+    certain &&= !merged.assumesSingleValue || fieldSets.scalar.has(field);
+    query[field] = merged.value;
+    clauses.push(...merged.extras.map(extra => ({ [field]: extra })));
+  }
+
+  // Operators used once stay at the top level, repeated ones go to $and
+  const counts = new Map<string, number>();
+  operators.forEach(([key]) => counts.set(key, (counts.get(key) ?? 0) + 1));
+  for (const [key, value] of operators.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+    if (counts.get(key) === 1) {
+      query[key] = value;
+    } else {
+      clauses.push({ [key]: value });
+    }
+  }
+
+  if (clauses.length > 0) {
+    query.$and = sortUnique(clauses);
+  }
+
+  return {
+    filter: Object.keys(query).length > 0 ? query : null,
+    contradictions,
+    certain
+  };
+}
+
+function optimizeOr(branches: Record<string, any>[], path: string, fieldSets: FieldSets): Optimized {
+  const optimized: Record<string, any>[] = [];
+  const contradictions: Contradiction[] = [];
+  let certain = true;
+  let matchable = false;
+
+  for (let i = 0; i < branches.length; i++) {
+    const result = optimizeAnd([branches[i]], `${path}[${i}].`, fieldSets);
+    if (result.contradictions.length > 0) {
+      contradictions.push(...result.contradictions);
+      certain &&= result.certain;
+      if (result.certain) {
+        // A branch that cannot match is dropped
+        continue;
+      }
+      // It may still match if a field holds an array, so it is kept
+    } else {
+      matchable = true;
+    }
+    if (!result.filter) {
+      // A branch matching everything makes the whole $or match everything
+      return { filter: null, contradictions: [], certain: true };
+    }
+    if (isOnly(result.filter, '$or')) {
+      optimized.push(...result.filter.$or);
+    } else {
+      optimized.push(result.filter);
+    }
+  }
+
+  if (!matchable) {
+    return { filter: { $or: branches }, contradictions, certain };
+  }
+
+  const unique = sortUnique(optimized);
+  if (unique.length === 1) {
+    return { filter: unique[0], contradictions: [], certain: true };
+  }
+
+  return { filter: toInCondition(unique) ?? { $or: unique }, contradictions: [], certain: true };
+}
+
+function optimizeNor(branches: Record<string, any>[], path: string, fieldSets: FieldSets): Optimized {
+  const optimized: Record<string, any>[] = [];
+
+  for (let i = 0; i < branches.length; i++) {
+    const result = optimizeAnd([branches[i]], `${path}[${i}].`, fieldSets);
+    if (result.contradictions.length > 0 && result.certain) {
+      // A branch that cannot match excludes nothing
+      continue;
+    }
+    if (!result.filter) {
+      return {
+        filter: { $nor: branches },
+        contradictions: [{ path: `${path}[${i}]`, message: 'branch matches every document' }],
+        certain: true
+      };
+    }
+    optimized.push(result.filter);
+  }
+
+  return {
+    filter: optimized.length > 0 ? { $nor: sortUnique(optimized) } : null,
+    contradictions: [],
+    certain: true
+  };
+}
+
+/**
+ * Turn `$or` branches that each test one field for equality into `$in`
+ */
+function toInCondition(branches: Record<string, any>[]): Record<string, any> | null {
+  const field = Object.keys(branches[0])[0];
+  const values: any[] = [];
+
+  if (field.startsWith('$')) {
+    return null;
+  }
+
+  for (const branch of branches) {
+    const keys = Object.keys(branch);
+    if (keys.length !== 1 || keys[0] !== field) {
+      return null;
+    }
+    const value = branch[field];
+    if (isOperatorObject(value)) {
+      const operators = Object.keys(value);
+      if (operators.length !== 1 || operators[0] !== '$in') return null;
+      values.push(...value.$in);
+    } else if (Array.isArray(value) || value instanceof RegExp) {
+      return null;
+    } else {
+      values.push(value);
+    }
+  }
+
+  return { [field]: { $in: sortUnique(values) } };
+}
+
+/**
+ * Merge every constraint on one field into an operator object, plus the
+ * constraints that cannot share it
+ *
+ * @param scalar - Check constraints that only conflict for single values
+ * @param declaredScalar - The field is declared single-valued, so `$in`
+ * lists may be intersected
+ */
+function mergeFieldValues(
+  values: any[],
+  path: string,
+  scalar: boolean,
+  declaredScalar: boolean
+): { value: any; extras: any[]; contradictions: Contradiction[]; assumesSingleValue: boolean } {
+  const operators: Record<string, any> = {};
+  const lower: Bound[] = [];
+  const upper: Bound[] = [];
+  const extras: any[] = [];
+  const contradictions: Contradiction[] = [];
+  let assumesSingleValue = false;
+  const contradict = (message: string) => contradictions.push({ path, message });
+  // Conflicts an array can satisfy with different elements
+  const contradictSingleValue = (message: string) => {
+    assumesSingleValue = true;
+    contradict(message);
+  };
+
+  // $regex and its $options form one pattern, compared and moved together
+  let pattern: Record<string, any> | undefined;
+
+  for (const value of values) {
+    if (value instanceof RegExp) {
+      extras.push(value);
+      continue;
+    }
+    const entries = isOperatorObject(value) ? Object.entries(value) : [['$eq', value]];
+
+    const regex = Object.fromEntries(entries.filter(([operator]) => REGEX_OPERATORS.includes(operator)));
+    if (Object.keys(regex).length > 0) {
+      if (!pattern) {
+        pattern = regex;
+      } else if (!isDeepEqual(toFieldValue(pattern), toFieldValue(regex))) {
+        extras.push(toFieldValue(regex));
+      }
+    }
+
+    for (const [operator, operand] of entries) {
+      if (REGEX_OPERATORS.includes(operator)) {
+        continue;
+      } else if (LOWER_BOUNDS.includes(operator)) {
+        lower.push({ operator, value: operand });
+      } else if (UPPER_BOUNDS.includes(operator)) {
+        upper.push({ operator, value: operand });
+      } else if ((operator === '$ne' && !(operand instanceof RegExp)) || operator === '$nin') {
+        // Collected as $nin; a single value becomes $ne again below
+        const excluded = operator === '$ne' ? [operand] : operand;
+        operators.$nin = sortUnique([...(operators.$nin ?? []), ...excluded]);
+      } else if (operator === '$all' && '$all' in operators) {
+        operators.$all = sortUnique([...operators.$all, ...operand]);
+      } else if (!(operator in operators)) {
+        operators[operator] = operator === '$in' ? sortUnique(operand) : operand;
+      } else if (isDeepEqual(operators[operator], operand)) {
+        continue;
+      } else if (operator === '$in' && scalar) {
+        const common = operators.$in.filter((a: any) => operand.some((b: any) => isDeepEqual(a, b)));
+        if (declaredScalar) {
+          operators.$in = common;
+        } else {
+          if (common.length === 0) {
+            contradictSingleValue('$in lists have no value in common');
+          }
+          extras.push({ $in: sortUnique(operand) });
+        }
+      } else {
+        if (operator === '$exists') {
+          contradict('$exists is both true and false');
+        } else if (operator === '$eq' && scalar) {
+          contradictSingleValue(`equals both ${formatValue(operators.$eq)} and ${formatValue(operand)}`);
+        }
+        extras.push(toFieldValue({ [operator]: operand }));
+      }
+    }
+  }
+
+  Object.assign(operators, pattern);
+  const lowerBound = tightestBound(lower, 1, extras);
+  const upperBound = tightestBound(upper, -1, extras);
+  if (lowerBound) operators[lowerBound.operator] = lowerBound.value;
+  if (upperBound) operators[upperBound.operator] = upperBound.value;
+
+  // $in with one value is an equality, unless it is a pattern
+  if (operators.$in?.length === 1 && !(operators.$in[0] instanceof RegExp)) {
+    const [only] = operators.$in;
+    if (!('$eq' in operators)) {
+      operators.$eq = only;
+      delete operators.$in;
+    } else if (isDeepEqual(operators.$eq, only)) {
+      delete operators.$in;
+    }
+  }
+
+  if (operators.$in?.length === 0) {
+    contradict('$in has no values');
+  }
+  if ('$eq' in operators && '$in' in operators && scalar) {
+    if (operators.$in.some((value: any) => isDeepEqual(value, operators.$eq))) {
+      delete operators.$in;
+    } else {
+      contradictSingleValue(`equals ${formatValue(operators.$eq)}, which is not in $in`);
+    }
+  }
+  if ('$nin' in operators) {
+    const excluded: any[] = operators.$nin;
+    const isExcluded = (value: any) => excluded.some(other => isDeepEqual(value, other));
+    if ('$eq' in operators && isExcluded(operators.$eq)) {
+      contradict(`equals ${formatValue(operators.$eq)}, which is excluded`);
+    }
+    if (operators.$in?.length > 0 && operators.$in.every(isExcluded)) {
+      contradict('every $in value is excluded');
+    }
+    if (excluded.length === 1 && !(excluded[0] instanceof RegExp) && !('$ne' in operators)) {
+      operators.$ne = excluded[0];
+      delete operators.$nin;
+    }
+  }
+  if (operators.$exists === false && (('$eq' in operators && operators.$eq !== null) || lowerBound || upperBound)) {
+    contradict('$exists is false but a value is required');
+  }
+
+  if (scalar) {
+    checkBounds(operators, lowerBound, upperBound, contradictSingleValue);
+  }
+
+  return { value: toFieldValue(operators), extras, contradictions, assumesSingleValue };
+}
+
+/**
+ * Pick the tightest of several bounds; bounds of another type (which MongoDB
+ * compares separately) are kept as extra constraints
+ *
+ * @param direction - 1 for lower bounds (larger is tighter), -1 for upper bounds
+ */
+function tightestBound(bounds: Bound[], direction: 1 | -1, extras: any[]): Bound | null {
+  let tightest: Bound | null = null;
+
+  for (const bound of bounds) {
+    if (!tightest) {
+      tightest = bound;
+    } else if (!isComparable(tightest.value, bound.value)) {
+      extras.push({ [bound.operator]: bound.value });
+    } else {
+      const order = compare(bound.value, tightest.value) * direction;
+      // At equal values the exclusive bound ($gt/$lt) is tighter
+      if (order > 0 || (order === 0 && bound.operator.length === 3)) {
+        tightest = bound;
+      }
+    }
+  }
+
+  return tightest;
+}
+
+function checkBounds(
+  operators: Record<string, any>,
+  lower: Bound | null,
+  upper: Bound | null,
+  contradict: (message: string) => void
+): void {
+  if (lower && upper && isComparable(lower.value, upper.value)) {
+    const order = compare(lower.value, upper.value);
+    if (order > 0 || (order === 0 && (lower.operator === '$gt' || upper.operator === '$lt'))) {
+      contradict(
+        `${lower.operator} ${formatValue(lower.value)} and ${upper.operator} ${formatValue(upper.value)} cannot both hold`
+      );
+      return;
+    }
+  }
+
+  if ('$eq' in operators) {
+    const value = operators.$eq;
+    for (const bound of [lower, upper]) {
+      if (!bound || !isComparable(value, bound.value)) continue;
+      const order = compare(value, bound.value) * (bound === lower ? 1 : -1);
+      if (order < 0 || (order === 0 && bound.operator.length === 3)) {
+        contradict(`equals ${formatValue(value)}, outside ${bound.operator} ${formatValue(bound.value)}`);
+      }
+    }
+  }
+}
+
+function toFieldValue(operators: Record<string, any>): any {
+  const keys = Object.keys(operators).sort();
+  const eq = operators.$eq;
+  if (keys.length === 1 && keys[0] === '$eq' && !isOperatorObject(eq) && !(eq instanceof RegExp)) {
+    return eq;
+  }
+  const value: Record<string, any> = {};
+  for (const key of keys) {
+    value[key] = operators[key];
+  }
+  return value;
+}
+
+function isComparable(a: any, b: any): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date;
+  }
+  return (typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string');
+}
+
+function compare(a: any, b: any): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/**
+ * Sort values by their canonical form and drop duplicates
+ */
+function sortUnique<T>(values: T[]): T[] {
+  const byKey = new Map<string, T>();
+  for (const value of values) {
+    const key = canonicalKey(value);
+    if (!byKey.has(key)) byKey.set(key, value);
+  }
+  return [...byKey.keys()].sort().map(key => byKey.get(key)!);
+}
+
+function formatValue(value: any): string {
+  return value instanceof Date ? value.toISOString() : JSON.stringify(value);
+}
+
+function isOnly(filter: Record<string, any>, key: string): boolean {
+  const keys = Object.keys(filter);
+  return keys.length === 1 && keys[0] === key;
+}
@@ -0,0 +1,142 @@
+/**
+ * Input Parameters Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { DataValidationError } from './errors';
+import { QueryBuilder, QueryConfig, Operator, field, or, ifElse } from './query-builder';
+
+function issuesOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof DataValidationError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('Input Parameters', () => {
+
+  // ============================================================================
+  // Data Validation
+  // ============================================================================
+
+  describe('Data Validation', () => {
+    const config: QueryConfig = {
+      parameters: {
+        customerId: { type: 'string', required: true },
+        status: { enum: ['active', 'pending'] },
+        minPriority: { type: 'number', min: 1, max: 5 },
+        tags: { type: 'stringArray', max: 20 }
+      },
+      fieldMappings: { customerId: 'customerId' },
+      conditions: [
+        field('status', Operator.EQ, '$status'),
+        { ...field('priority', Operator.GTE, '$minPriority'), type: 'number' },
+        field('tags', Operator.IN, '$tags')
+      ]
+    };
+
+    it('should build when data matches the declared parameters', () => {
+      const query = QueryBuilder.build(config, { customerId: 'c-1', status: 'active', minPriority: '3' });
+
+      expect(query).toEqual({
+        customerId: 'c-1',
+        $and: [{ status: 'active' }, { priority: { $gte: 3 } }]
+      });
+    });
+
+    it('should report every issue at once', () => {
+      const issues = issuesOf(() =>
+        QueryBuilder.build(config, { status: 'deleted', minPriority: 'high' })
+      );
+
+      expect(issues).toEqual([
+        { path: 'customerId', message: 'is required' },
+        { path: 'status', message: 'must be one of: active, pending' },
+        { path: 'minPriority', message: 'must be of type number' }
+      ]);
+    });
+
+    it('should check min and max bounds', () => {
+      expect(issuesOf(() => QueryBuilder.build(config, { customerId: 'c-1', minPriority: 9 })))
+        .toEqual([{ path: 'minPriority', message: 'must be at most 5' }]);
+      expect(issuesOf(() => QueryBuilder.build(config, { customerId: 'c-1', minPriority: 0 })))
+        .toEqual([{ path: 'minPriority', message: 'must be at least 1' }]);
+    });
+
+    it('should check string length bounds of array elements', () => {
+      const issues = issuesOf(() =>
+        QueryBuilder.build(config, { customerId: 'c-1', tags: 'short,' + 'x'.repeat(21) })
+      );
+
+      expect(issues).toEqual([{ path: 'tags', message: 'must be at most 20' }]);
+    });
+
+    it('should not validate data when no parameters are declared', () => {
+      const plain: QueryConfig = { conditions: [field('status', Operator.EQ, '$status')] };
+
+      expect(QueryBuilder.build(plain, { status: 'anything' })).toEqual({ status: 'anything' });
+    });
+
+    it('should reject invalid parameter definitions', () => {
+      const invalid = { parameters: { status: { type: 'text' } } } as unknown as QueryConfig;
+
+      expect(() => QueryBuilder.build(invalid)).toThrow();
+    });
+  });
+
+  // ============================================================================
+  // Parameter Inference
+  // ============================================================================
+
+  describe('Parameter Inference', () => {
+    it('should list declared and referenced parameters with the fields they feed', () => {
+      const config: QueryConfig = {
+        parameters: {
+          customerId: { required: true, description: 'Customer to filter by' }
+        },
+        fieldMappings: {
+          customerId: 'customerId',
+          accountId: { path: 'account.id', type: 'objectId' }
+        },
+        dateRanges: [{ field: 'orderDate', type: 'date' }],
+        conditions: [
+          or(
+            field('status', Operator.IN, '$statuses'),
+            field('assignee', Operator.EQ, '$userId')
+          ),
+          field('reviewer', Operator.EQ, '$userId')
+        ],
+        limit: { value: '$pageSize', max: 100 }
+      };
+
+      expect(QueryBuilder.getParameters(config)).toEqual([
+        { path: 'customerId', required: true, description: 'Customer to filter by', fields: ['customerId'] },
+        { path: 'account.id', required: false, type: 'objectId', fields: ['accountId'] },
+        { path: 'orderDate.from', required: false, type: 'date', fields: ['orderDate'] },
+        { path: 'orderDate.to', required: false, type: 'date', fields: ['orderDate'] },
+        { path: 'statuses', required: false, array: true, fields: ['status'] },
+        { path: 'userId', required: false, fields: ['assignee', 'reviewer'] },
+        { path: 'pageSize', required: false, fields: [] }
+      ]);
+    });
+
+    it('should list the data paths read by when/unless and if predicates', () => {
+      const config: QueryConfig = {
+        dateRanges: [{ field: 'createdAt', unless: 'allTime' }],
+        conditions: [
+          { ...field('verified', Operator.EQ, true), when: { path: 'mode', equals: 'strict' } },
+          ifElse('mine', field('ownerId', Operator.EQ, '$userId'))
+        ]
+      };
+
+      expect(QueryBuilder.getParameters(config).map(parameter => parameter.path)).toEqual([
+        'allTime', 'createdAt.from', 'createdAt.to', 'mode', 'mine', 'userId'
+      ]);
+    });
+  });
+});
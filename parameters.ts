@@ -0,0 +1,235 @@
+/**
+ * Input Parameters
+ *
+ * A query config can declare the parameters it reads from input data
+ * (`QueryConfig.parameters`). Declared parameters are validated before the
+ * query is built, and the full parameter list (declared plus inferred from
+ * `$` references) can be exported for request validation and API docs.
+ */
+
+import type {
+  QueryConfig,
+  QueryCondition,
+  FieldCondition,
+  LogicalCondition,
+  DateRangeCondition,
+  RangeCondition,
+  NotCondition,
+  TextCondition,
+  NearCondition,
+  ConditionalCondition
+} from './query-builder';
+import { ValueType, CoercionFactories, coerceValue } from './coercion';
+import { CoercionError, DataValidationError, DataValidationIssue, DateExpressionError } from './errors';
+import { getNestedValue, isSameValue } from './utils';
+import { ConditionRules, getPredicatePaths } from './predicates';
+
+export interface ParameterDefinition {
+  // Expected type; values that coerce to it (e.g. '3' for number) are accepted
+  type?: ValueType;
+  // Reject input where the parameter is missing or null
+  required?: boolean;
+  // Allowed values
+  enum?: any[];
+  // Bounds for numbers and dates (as timestamps), or length bounds for strings.
+  // Array values are checked element by element.
+  min?: number;
+  max?: number;
+  description?: string;
+}
+
+export interface ParameterInfo extends ParameterDefinition {
+  // Data path, e.g. 'filters.minPrice' or 'createdAt.from'
+  path: string;
+  required: boolean;
+  // Query fields the parameter feeds
+  fields: string[];
+  // Used with an array operator ($in, $nin, $all)
+  array?: boolean;
+}
+
+const ARRAY_OPERATORS = ['$in', '$nin', '$all'];
+
+/**
+ * List the input parameters of a config: every `$` data reference, field
+ * mapping and date range bound, merged with the declared `parameters`
+ */
+export function inferParameters(config: QueryConfig): ParameterInfo[] {
+  const parameters = new Map<string, ParameterInfo>();
+
+  const add: AddParameter = (path, field, type, array) => {
+    let parameter = parameters.get(path);
+    if (!parameter) {
+      parameter = { path, required: false, fields: [] };
+      parameters.set(path, parameter);
+    }
+    if (type && !parameter.type) {
+      parameter.type = type;
+    }
+    if (array) {
+      parameter.array = true;
+    }
+    if (field && !parameter.fields.includes(field)) {
+      parameter.fields.push(field);
+    }
+  };
+
+  for (const [field, mapping] of Object.entries(config.fieldMappings ?? {})) {
+    if (typeof mapping === 'string') {
+      add(mapping, field);
+    } else {
+      add(mapping.path, field, mapping.type);
+    }
+  }
+
+  for (const dateRange of config.dateRanges ?? []) {
+    addDateRange(dateRange, add);
+  }
+
+  for (const condition of config.conditions ?? []) {
+    addCondition(condition, add);
+  }
+
+  for (const section of [config.sort, config.projection, config.limit, config.skip]) {
+    if (typeof section?.value === 'string' && section.value.startsWith('$')) {
+      add(section.value.substring(1), undefined);
+    }
+  }
+
+  for (const [path, definition] of Object.entries(config.parameters ?? {})) {
+    add(path, undefined);
+    Object.assign(parameters.get(path)!, definition, { required: definition.required ?? false });
+  }
+
+  return Array.from(parameters.values());
+}
+
+/**
+ * Validate input data against the parameters declared on a config
+ *
+ * @throws DataValidationError listing every issue found
+ */
+export function validateData(
+  config: QueryConfig,
+  data: Record<string, any>,
+  factories: CoercionFactories = {}
+): void {
+  const issues: DataValidationIssue[] = [];
+
+  for (const [path, definition] of Object.entries(config.parameters ?? {})) {
+    const value = getNestedValue(data, path);
+
+    if (value === undefined || value === null) {
+      if (definition.required) {
+        issues.push({ path, message: 'is required' });
+      }
+      continue;
+    }
+
+    let typed = value;
+    if (definition.type) {
+      try {
+        typed = coerceValue(value, definition.type, path, factories);
+      } catch (error) {
+        if (!(error instanceof CoercionError || error instanceof DateExpressionError)) throw error;
+        issues.push({ path, message: `must be of type ${definition.type}` });
+        continue;
+      }
+    }
+
+    const values = Array.isArray(typed) ? typed : [typed];
+
+    if (definition.enum) {
+      if (!values.every((item: any) => definition.enum!.some(allowed => isSameValue(allowed, item)))) {
+        issues.push({ path, message: `must be one of: ${definition.enum.map(String).join(', ')}` });
+      }
+    }
+
+    for (const item of values) {
+      const measured = measure(item);
+      if (measured === undefined) continue;
+      if (definition.min !== undefined && measured < definition.min) {
+        issues.push({ path, message: `must be at least ${definition.min}` });
+        break;
+      }
+      if (definition.max !== undefined && measured > definition.max) {
+        issues.push({ path, message: `must be at most ${definition.max}` });
+        break;
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new DataValidationError(issues);
+  }
+}
+
+type AddParameter = (path: string, field: string | undefined, type?: ValueType, array?: boolean) => void;
+
+function addCondition(condition: QueryCondition, add: AddParameter): void {
+  addRules(condition, add);
+
+  if ('if' in condition) {
+    const conditional = condition as ConditionalCondition;
+    getPredicatePaths(conditional.if).forEach(path => add(path, undefined));
+    addCondition(conditional.then, add);
+    if (conditional.else) addCondition(conditional.else, add);
+  } else if ('conditions' in condition) {
+    (condition as LogicalCondition).conditions.forEach(sub => addCondition(sub, add));
+  } else if ('condition' in condition) {
+    addCondition((condition as NotCondition).condition, add);
+  } else if ('expression' in condition) {
+    // $expr conditions are static
+  } else if ('search' in condition) {
+    addReference((condition as TextCondition).search, '$text', add, 'string');
+  } else if ('geometry' in condition) {
+    const geo = condition as NearCondition;
+    addReference(geo.geometry, geo.field, add);
+    addReference(geo.maxDistance, geo.field, add, 'number');
+    addReference(geo.minDistance, geo.field, add, 'number');
+  } else if ('min' in condition || 'max' in condition) {
+    const range = condition as RangeCondition;
+    addReference(range.min, range.field, add, range.type);
+    addReference(range.max, range.field, add, range.type);
+  } else if ('from' in condition || 'to' in condition) {
+    addDateRange(condition as DateRangeCondition, add);
+  } else {
+    const fieldCondition = condition as FieldCondition;
+    if (typeof fieldCondition.value === 'string' && fieldCondition.value.startsWith('$')) {
+      add(
+        fieldCondition.value.substring(1),
+        fieldCondition.field,
+        fieldCondition.type,
+        ARRAY_OPERATORS.includes(fieldCondition.operator)
+      );
+    }
+  }
+}
+
+function addRules(rules: ConditionRules, add: AddParameter): void {
+  for (const predicate of [rules.when, rules.unless]) {
+    if (predicate !== undefined) {
+      getPredicatePaths(predicate).forEach(path => add(path, undefined));
+    }
+  }
+}
+
+function addReference(value: any, field: string, add: AddParameter, type?: ValueType): void {
+  if (typeof value === 'string' && value.startsWith('$')) {
+    add(value.substring(1), field, type);
+  }
+}
+
+function addDateRange(dateRange: DateRangeCondition, add: AddParameter): void {
+  addRules(dateRange, add);
+  add(`${dateRange.field}.from`, dateRange.field, dateRange.type);
+  add(`${dateRange.field}.to`, dateRange.field, dateRange.type);
+}
+
+// Numbers and dates are compared by value, strings and arrays by length
+function measure(value: any): number | undefined {
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  return undefined;
+}
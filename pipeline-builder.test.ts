@@ -0,0 +1,149 @@
+/**
+ * Pipeline Builder Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  PipelineBuilder,
+  AggregationConfig,
+  matchStage,
+  groupStage,
+  projectStage,
+  sortStage,
+  limitStage,
+  lookupStage,
+  unwindStage
+} from './pipeline-builder';
+import { Operator, field, or } from './query-builder';
+import { InvalidFindOptionError } from './errors';
+
+describe('PipelineBuilder', () => {
+
+  // ============================================================================
+  // $match Stages
+  // ============================================================================
+
+  describe('$match Stages', () => {
+    it('should build $match from a query config', () => {
+      const config: AggregationConfig = {
+        stages: [
+          matchStage({
+            staticFilters: { status: 'active' },
+            conditions: [field('priority', Operator.GTE, '$minPriority')]
+          })
+        ]
+      };
+
+      const pipeline = PipelineBuilder.build(config, { minPriority: 3 });
+
+      expect(pipeline).toEqual([
+        { $match: { status: 'active', priority: { $gte: 3 } } }
+      ]);
+    });
+
+    it('should skip $match when all conditions are optional and missing', () => {
+      const config: AggregationConfig = {
+        stages: [
+          matchStage({
+            fieldMappings: { customerId: 'customerId' },
+            conditions: [
+              or(
+                field('status', Operator.EQ, '$status'),
+                field('type', Operator.EQ, '$type')
+              )
+            ]
+          }),
+          groupStage('$status', { total: { $sum: 1 } })
+        ]
+      };
+
+      const pipeline = PipelineBuilder.build(config, {});
+
+      expect(pipeline).toEqual([
+        { $group: { _id: '$status', total: { $sum: 1 } } }
+      ]);
+    });
+  });
+
+  // ============================================================================
+  // Other Stages
+  // ============================================================================
+
+  describe('Other Stages', () => {
+    it('should emit $group, $project, $sort, $lookup and $unwind as configured', () => {
+      const config: AggregationConfig = {
+        stages: [
+          lookupStage('customers', 'customerId', '_id', 'customer'),
+          unwindStage('$customer'),
+          groupStage('$customer.segment', { revenue: { $sum: '$amount' } }),
+          projectStage({ _id: 0, segment: '$_id', revenue: 1 }),
+          sortStage({ revenue: -1 })
+        ]
+      };
+
+      const pipeline = PipelineBuilder.build(config);
+
+      expect(pipeline).toEqual([
+        { $lookup: { from: 'customers', localField: 'customerId', foreignField: '_id', as: 'customer' } },
+        { $unwind: '$customer' },
+        { $group: { _id: '$customer.segment', revenue: { $sum: '$amount' } } },
+        { $project: { _id: 0, segment: '$_id', revenue: 1 } },
+        { $sort: { revenue: -1 } }
+      ]);
+    });
+
+    it('should build $unwind with options', () => {
+      const pipeline = PipelineBuilder.build({ stages: [unwindStage('$items', true)] });
+
+      expect(pipeline).toEqual([
+        { $unwind: { path: '$items', preserveNullAndEmptyArrays: true } }
+      ]);
+    });
+
+    it('should build $limit from a literal or a data reference', () => {
+      expect(PipelineBuilder.build({ stages: [limitStage(10)] })).toEqual([{ $limit: 10 }]);
+      expect(
+        PipelineBuilder.build({ stages: [limitStage('$page.size')] }, { page: { size: 25 } })
+      ).toEqual([{ $limit: 25 }]);
+    });
+
+    it('should skip $limit when its data reference is missing', () => {
+      const pipeline = PipelineBuilder.build({ stages: [limitStage('$pageSize')] }, {});
+
+      expect(pipeline).toEqual([]);
+    });
+
+    it('should reject a non-integer $limit from data', () => {
+      const build = () => PipelineBuilder.build({ stages: [limitStage('$pageSize')] }, { pageSize: 'ten' });
+
+      expect(build).toThrow(InvalidFindOptionError);
+      expect(build).toThrow('Invalid $limit value: ten');
+    });
+  });
+
+  // ============================================================================
+  // Validation
+  // ============================================================================
+
+  describe('Validation', () => {
+    it('should reject unknown stages', () => {
+      const config = { stages: [{ $out: 'results' }] } as unknown as AggregationConfig;
+
+      expect(() => PipelineBuilder.build(config)).toThrow();
+    });
+
+    it('should reject invalid sort directions', () => {
+      const config = { stages: [{ $sort: { createdAt: 'desc' } }] } as unknown as AggregationConfig;
+
+      expect(() => PipelineBuilder.build(config)).toThrow();
+    });
+
+    it('should reject invalid $match configs', () => {
+      const config = {
+        stages: [{ $match: { conditions: [{ operator: Operator.OR, conditions: [] }] } }]
+      } as unknown as AggregationConfig;
+
+      expect(() => PipelineBuilder.build(config)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Aggregation Pipeline Builder
+ *
+ * Converts aggregation configuration objects into MongoDB aggregation
+ * pipelines. `$match` stages are described with a regular `QueryConfig`
+ * and built through `QueryBuilder.build`, so data references and
+ * optional-value skipping behave exactly as they do for `find` filters.
+ */
+
+import { QueryBuilder, QueryConfig, SortDirection, BuildOptions } from './query-builder';
+import { validateAggregationConfig } from './validation';
+import { getNestedValue } from './utils';
+import { InvalidFindOptionError } from './errors';
+
+export interface MatchStageConfig {
+  $match: QueryConfig;
+}
+
+export interface GroupStageConfig {
+  $group: {
+    _id: any;
+    [accumulator: string]: any;
+  };
+}
+
+export interface ProjectStageConfig {
+  $project: Record<string, any>;
+}
+
+export interface SortStageConfig {
+  $sort: Record<string, SortDirection>;
+}
+
+export interface LimitStageConfig {
+  // A number, or a `$`-prefixed data reference resolved from the input data
+  $limit: number | string;
+}
+
+export interface LookupStageConfig {
+  $lookup: {
+    from: string;
+    localField: string;
+    foreignField: string;
+    as: string;
+  };
+}
+
+export interface UnwindStageConfig {
+  $unwind:
+    | string
+    | {
+        path: string;
+        includeArrayIndex?: string;
+        preserveNullAndEmptyArrays?: boolean;
+      };
+}
+
+export type PipelineStageConfig =
+  | MatchStageConfig
+  | GroupStageConfig
+  | ProjectStageConfig
+  | SortStageConfig
+  | LimitStageConfig
+  | LookupStageConfig
+  | UnwindStageConfig;
+
+export interface AggregationConfig {
+  stages: PipelineStageConfig[];
+}
+
+export class PipelineBuilder {
+  /**
+   * Build a MongoDB aggregation pipeline from a configuration object
+   *
+   * @param config - Aggregation configuration
+   * @param data - Input data to inject into `$match` and `$limit` stages
+   * @param options - Build options applied to every `$match` stage
+   * @returns Array of aggregation pipeline stages
+   */
+  static build<T extends Record<string, any> = Record<string, any>>(
+    config: AggregationConfig,
+    data: T = {} as T,
+    options: BuildOptions = {}
+  ): Record<string, any>[] {
+    // Validate config at runtime
+    validateAggregationConfig(config);
+
+    const pipeline: Record<string, any>[] = [];
+
+    for (const stage of config.stages) {
+      const built = this.buildStage(stage, data, options);
+      if (built) {
+        pipeline.push(built);
+      }
+    }
+
+    return pipeline;
+  }
+
+  private static buildStage(
+    stage: PipelineStageConfig,
+    data: Record<string, any>,
+    options: BuildOptions
+  ): Record<string, any> | null {
+    if ('$match' in stage) {
+      const filter = QueryBuilder.build(stage.$match, data, options);
+
+      // Skip the stage entirely when every condition was optional and missing
+      if (Object.keys(filter).length === 0) {
+        return null;
+      }
+
+      return { $match: filter };
+    }
+
+    if ('$limit' in stage) {
+      return this.buildLimitStage(stage, data);
+    }
+
+    // $group, $project, $sort, $lookup and $unwind are emitted as configured.
+    // Their `$`-prefixed values are aggregation field paths, not data references.
+    return { ...stage };
+  }
+
+  private static buildLimitStage(
+    stage: LimitStageConfig,
+    data: Record<string, any>
+  ): Record<string, any> | null {
+    let limit: any = stage.$limit;
+
+    if (typeof limit === 'string') {
+      limit = getNestedValue(data, limit.substring(1));
+
+      // Skip if value is undefined or null (optional limit)
+      if (limit === undefined || limit === null) {
+        return null;
+      }
+    }
+
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit <= 0) {
+      throw new InvalidFindOptionError('$limit', limit, `Invalid $limit value: ${String(limit)}`);
+    }
+
+    return { $limit: limit };
+  }
+}
+
+/**
+ * Helper function to create $match stages
+ */
+export function matchStage(config: QueryConfig): MatchStageConfig {
+  return { $match: config };
+}
+
+/**
+ * Helper function to create $group stages
+ */
+export function groupStage(id: any, accumulators: Record<string, any> = {}): GroupStageConfig {
+  return { $group: { _id: id, ...accumulators } };
+}
+
+/**
+ * Helper function to create $project stages
+ */
+export function projectStage(projection: Record<string, any>): ProjectStageConfig {
+  return { $project: projection };
+}
+
+/**
+ * Helper function to create $sort stages
+ */
+export function sortStage(spec: Record<string, SortDirection>): SortStageConfig {
+  return { $sort: spec };
+}
+
+/**
+ * Helper function to create $limit stages
+ */
+export function limitStage(value: number | string): LimitStageConfig {
+  return { $limit: value };
+}
+
+/**
+ * Helper function to create $lookup stages
+ */
+export function lookupStage(
+  from: string,
+  localField: string,
+  foreignField: string,
+  as: string
+): LookupStageConfig {
+  return { $lookup: { from, localField, foreignField, as } };
+}
+
+/**
+ * Helper function to create $unwind stages
+ */
+export function unwindStage(
+  path: string,
+  preserveNullAndEmptyArrays?: boolean
+): UnwindStageConfig {
+  if (preserveNullAndEmptyArrays === undefined) {
+    return { $unwind: path };
+  }
+  return { $unwind: { path, preserveNullAndEmptyArrays } };
+}
@@ -0,0 +1,69 @@
+/**
+ * Conditional Inclusion Predicate Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { evaluatePredicate, isConditionActive, getPredicatePaths } from './predicates';
+
+describe('Predicates', () => {
+
+  // ============================================================================
+  // evaluatePredicate
+  // ============================================================================
+
+  describe('evaluatePredicate', () => {
+    it('should treat a string as a truthiness check', () => {
+      expect(evaluatePredicate('includeArchived', { includeArchived: true })).toBe(true);
+      expect(evaluatePredicate('includeArchived', { includeArchived: 0 })).toBe(false);
+      expect(evaluatePredicate('filters.strict', { filters: { strict: 'yes' } })).toBe(true);
+      expect(evaluatePredicate('includeArchived', {})).toBe(false);
+    });
+
+    it('should compare values', () => {
+      const data = { mode: 'strict', role: 'owner', since: new Date('2025-01-01') };
+
+      expect(evaluatePredicate({ path: 'mode', equals: 'strict' }, data)).toBe(true);
+      expect(evaluatePredicate({ path: 'mode', notEquals: 'strict' }, data)).toBe(false);
+      expect(evaluatePredicate({ path: 'role', in: ['admin', 'owner'] }, data)).toBe(true);
+      expect(evaluatePredicate({ path: 'since', equals: new Date('2025-01-01') }, data)).toBe(true);
+    });
+
+    it('should check presence and truthiness', () => {
+      expect(evaluatePredicate({ path: 'count', exists: true }, { count: 0 })).toBe(true);
+      expect(evaluatePredicate({ path: 'count', exists: false }, { count: null })).toBe(true);
+      expect(evaluatePredicate({ path: 'count', truthy: false }, { count: 0 })).toBe(true);
+      expect(evaluatePredicate({ path: 'count' }, { count: 0 })).toBe(false);
+    });
+
+    it('should combine predicates with all, any and not', () => {
+      const data = { mode: 'strict', beta: false };
+
+      expect(evaluatePredicate({ all: [{ path: 'mode', equals: 'strict' }, 'beta'] }, data)).toBe(false);
+      expect(evaluatePredicate({ any: [{ path: 'mode', equals: 'strict' }, 'beta'] }, data)).toBe(true);
+      expect(evaluatePredicate({ not: 'beta' }, data)).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // isConditionActive / getPredicatePaths
+  // ============================================================================
+
+  describe('isConditionActive', () => {
+    it('should require when to hold and unless to fail', () => {
+      const rules = { when: 'enabled', unless: { path: 'mode', equals: 'off' } };
+
+      expect(isConditionActive(rules, { enabled: true })).toBe(true);
+      expect(isConditionActive(rules, { enabled: false })).toBe(false);
+      expect(isConditionActive(rules, { enabled: true, mode: 'off' })).toBe(false);
+      expect(isConditionActive({}, {})).toBe(true);
+    });
+  });
+
+  describe('getPredicatePaths', () => {
+    it('should list every data path a predicate reads', () => {
+      expect(getPredicatePaths({
+        all: ['enabled', { any: [{ path: 'mode', equals: 'x' }, { not: 'user.beta' }] }]
+      })).toEqual(['enabled', 'mode', 'user.beta']);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Conditional Inclusion Predicates
+ *
+ * Predicates decide whether a condition applies, based on the input data.
+ * They are plain JSON so they can be stored with the config:
+ *
+ *   'includeArchived'                          data.includeArchived is truthy
+ *   { path: 'mode', equals: 'strict' }         data.mode === 'strict'
+ *   { path: 'role', in: ['admin', 'owner'] }   data.role is one of the values
+ *   { all: [...] } / { any: [...] } / { not: ... }
+ */
+
+import { getNestedValue, isSameValue } from './utils';
+
+export interface PathPredicate {
+  // Data path to test
+  path: string;
+  equals?: any;
+  notEquals?: any;
+  in?: any[];
+  // Value is (or is not) present, i.e. not null/undefined
+  exists?: boolean;
+  // Value is truthy (or falsy). Used when no other test is given.
+  truthy?: boolean;
+}
+
+export type ConditionPredicate =
+  | string
+  | PathPredicate
+  | { all: ConditionPredicate[] }
+  | { any: ConditionPredicate[] }
+  | { not: ConditionPredicate };
+
+export interface ConditionRules {
+  // Apply the condition only when the predicate holds
+  when?: ConditionPredicate;
+  // Skip the condition when the predicate holds
+  unless?: ConditionPredicate;
+}
+
+/**
+ * Evaluate a predicate against the input data
+ */
+export function evaluatePredicate(predicate: ConditionPredicate, data: Record<string, any>): boolean {
+  if (typeof predicate === 'string') {
+    return Boolean(getNestedValue(data, predicate));
+  }
+  if ('all' in predicate) {
+    return predicate.all.every(sub => evaluatePredicate(sub, data));
+  }
+  if ('any' in predicate) {
+    return predicate.any.some(sub => evaluatePredicate(sub, data));
+  }
+  if ('not' in predicate) {
+    return !evaluatePredicate(predicate.not, data);
+  }
+
+  const value = getNestedValue(data, predicate.path);
+  let tested = false;
+
+  if ('equals' in predicate) {
+    tested = true;
+    if (!isSameValue(value, predicate.equals)) return false;
+  }
+  if ('notEquals' in predicate) {
+    tested = true;
+    if (isSameValue(value, predicate.notEquals)) return false;
+  }
+  if (predicate.in !== undefined) {
+    tested = true;
+    if (!predicate.in.some(allowed => isSameValue(value, allowed))) return false;
+  }
+  if (predicate.exists !== undefined) {
+    tested = true;
+    if ((value !== undefined && value !== null) !== predicate.exists) return false;
+  }
+  if (predicate.truthy !== undefined || !tested) {
+    if (Boolean(value) !== (predicate.truthy ?? true)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check the `when` / `unless` rules of a condition
+ */
+export function isConditionActive(rules: ConditionRules, data: Record<string, any>): boolean {
+  if (rules.when !== undefined && !evaluatePredicate(rules.when, data)) {
+    return false;
+  }
+  if (rules.unless !== undefined && evaluatePredicate(rules.unless, data)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * List the data paths a predicate reads
+ */
+export function getPredicatePaths(predicate: ConditionPredicate): string[] {
+  if (typeof predicate === 'string') return [predicate];
+  if ('all' in predicate) return predicate.all.flatMap(getPredicatePaths);
+  if ('any' in predicate) return predicate.any.flatMap(getPredicatePaths);
+  if ('not' in predicate) return getPredicatePaths(predicate.not);
+  return [predicate.path];
+}
@@ -5,7 +5,27 @@
  */
 
 import { describe, it, expect, beforeEach } from '@jest/globals';
-import { QueryBuilder, QueryConfig, Operator, field, and, or, nor, dateRange } from './query-builder';
+import {
+  QueryBuilder,
+  QueryConfig,
+  Operator,
+  field,
+  and,
+  or,
+  nor,
+  not,
+  expr,
+  text,
+  geoWithin,
+  near,
+  mod,
+  ifElse,
+  dateRange,
+  range,
+  InvalidRangeError,
+  InvalidFindOptionError,
+  FieldNotAllowedError
+} from './query-builder';
 
 describe('QueryBuilder', () => {
   
@@ -203,6 +223,145 @@ describe('QueryBuilder', () => {
       expect(query.updatedAt).toBeDefined();
       expect(query.completedAt).toBeDefined();
     });
+
+    it('should emit exclusive bounds with $gt and $lt', () => {
+      const config: QueryConfig = { dateRanges: [dateRange('createdAt', undefined, undefined, { bounds: '[)' })] };
+
+      const query = QueryBuilder.build(config, {
+        createdAt: { from: new Date('2024-01-01'), to: new Date('2025-01-01') }
+      });
+
+      expect(query).toEqual({ createdAt: { $gte: new Date('2024-01-01'), $lt: new Date('2025-01-01') } });
+    });
+
+    it('should expand date-only bounds to whole days in the time zone', () => {
+      const config: QueryConfig = {
+        dateRanges: [{ field: 'createdAt', wholeDays: true, timeZone: 'Asia/Kolkata' }]
+      };
+
+      expect(QueryBuilder.build(config, { createdAt: { from: '2025-06-01', to: '2025-06-30' } })).toEqual({
+        createdAt: {
+          $gte: new Date('2025-05-31T18:30:00.000Z'),
+          $lte: new Date('2025-06-30T18:29:59.999Z')
+        }
+      });
+      expect(QueryBuilder.build({ dateRanges: [{ ...config.dateRanges![0], bounds: '()' }] }, {
+        createdAt: { from: '2025-06-01', to: '2025-06-30' }
+      })).toEqual({
+        createdAt: {
+          $gt: new Date('2025-06-01T18:29:59.999Z'),
+          $lt: new Date('2025-06-29T18:30:00.000Z')
+        }
+      });
+    });
+
+    it('should parse ISO strings into dates with parseDates', () => {
+      const config: QueryConfig = { dateRanges: [{ field: 'createdAt', parseDates: true, timeZone: 'Europe/Berlin' }] };
+
+      const query = QueryBuilder.build(config, { createdAt: { from: '2025-01-15T08:00', to: '2025-01-15T12:00:00Z' } });
+
+      expect(query).toEqual({
+        createdAt: { $gte: new Date('2025-01-15T07:00:00.000Z'), $lte: new Date('2025-01-15T12:00:00.000Z') }
+      });
+      expect(() => QueryBuilder.build(config, { createdAt: { from: 'January 15' } }))
+        .toThrow("Cannot convert value for 'createdAt.from' to ISO date");
+    });
+
+    it('should reject a from bound after the to bound', () => {
+      const config: QueryConfig = { dateRanges: [{ field: 'createdAt' }] };
+
+      expect(() => QueryBuilder.build(config, {
+        createdAt: { from: new Date('2025-02-01'), to: new Date('2025-01-01') }
+      })).toThrow(InvalidRangeError);
+      expect(() => QueryBuilder.build({ dateRanges: [dateRange('createdAt', '2025-02-01', '2025-01-01')] }))
+        .toThrow("from must not be after to");
+    });
+
+    it('should use epoch bounds and ignore blank ones', () => {
+      const config: QueryConfig = { dateRanges: [{ field: 'createdAt', from: '2020-01-01', type: 'date' }] };
+
+      expect(QueryBuilder.build(config, { createdAt: { from: 0, to: '' } })).toEqual({
+        createdAt: { $gte: new Date(0) }
+      });
+    });
+  });
+
+  // ============================================================================
+  // Range Conditions
+  // ============================================================================
+
+  describe('Range Conditions', () => {
+    const priceRange: QueryConfig = { conditions: [range('price', '$price.min', '$price.max', { type: 'number' })] };
+
+    it('should bind min and max to data and coerce them', () => {
+      expect(QueryBuilder.build(priceRange, { price: { min: '10', max: '99.5' } })).toEqual({
+        price: { $gte: 10, $lte: 99.5 }
+      });
+    });
+
+    it('should only emit the supplied bounds', () => {
+      expect(QueryBuilder.build(priceRange, { price: { min: 0 } })).toEqual({ price: { $gte: 0 } });
+      expect(QueryBuilder.build(priceRange, { price: { max: '5', min: '' } })).toEqual({ price: { $lte: 5 } });
+      expect(QueryBuilder.build(priceRange, {})).toEqual({});
+    });
+
+    it('should emit exclusive bounds and static values', () => {
+      const config: QueryConfig = {
+        conditions: [range('priority', 1, '$maxPriority', { bounds: '(]' }), range('age', 18, 65, { bounds: '[)' })]
+      };
+
+      expect(QueryBuilder.build(config, { maxPriority: 5 })).toEqual({
+        $and: [{ priority: { $gt: 1, $lte: 5 } }, { age: { $gte: 18, $lt: 65 } }]
+      });
+    });
+
+    it('should range over strings and ObjectIds', () => {
+      const objectIdFactory = (hex: string) => ({ _bsontype: 'ObjectId', toHexString: () => hex });
+      const config: QueryConfig = {
+        conditions: [
+          range('lastName', 'A', 'M', { bounds: '[)' }),
+          range('_id', '$after', '$before', { type: 'objectId', bounds: '()' })
+        ]
+      };
+
+      const query = QueryBuilder.build(config, {
+        after: '65f1c0ffee0000000000aaaa',
+        before: '65f1c0ffee0000000000ffff'
+      }, { objectIdFactory });
+
+      const [names, ids] = query.$and;
+      expect(names).toEqual({ lastName: { $gte: 'A', $lt: 'M' } });
+      expect(ids._id.$gt.toHexString()).toBe('65f1c0ffee0000000000aaaa');
+      expect(ids._id.$lt.toHexString()).toBe('65f1c0ffee0000000000ffff');
+      expect(() => QueryBuilder.build(config, {
+        after: '65f1c0ffee0000000000ffff',
+        before: '65f1c0ffee0000000000aaaa'
+      }, { objectIdFactory })).toThrow(InvalidRangeError);
+    });
+
+    it('should reject a min greater than max', () => {
+      expect(() => QueryBuilder.build(priceRange, { price: { min: 50, max: 10 } })).toThrow(InvalidRangeError);
+      expect(() => QueryBuilder.build({ conditions: [range('age', 65, 18)] })).toThrow('min must not be greater than max');
+    });
+
+    it('should work when compiled, negated and inside logical conditions', () => {
+      const config: QueryConfig = {
+        conditions: [or(range('price', '$price.min', '$price.max'), not(range('stock', 1)))]
+      };
+      const data = { price: { min: 5, max: 10 } };
+
+      expect(QueryBuilder.compile(config)(data)).toEqual(QueryBuilder.build(config, data));
+      expect(QueryBuilder.build(config, data)).toEqual({
+        $or: [{ price: { $gte: 5, $lte: 10 } }, { stock: { $not: { $gte: 1 } } }]
+      });
+    });
+
+    it('should list min and max references as parameters', () => {
+      expect(QueryBuilder.getParameters(priceRange).map(parameter => [parameter.path, parameter.type])).toEqual([
+        ['price.min', 'number'],
+        ['price.max', 'number']
+      ]);
+    });
   });
 
   // ============================================================================
@@ -502,6 +661,220 @@ describe('QueryBuilder', () => {
     });
   });
 
+  // ============================================================================
+  // $not, $expr, $text and Geospatial Operators
+  // ============================================================================
+
+  describe('$not, $expr, $text and Geospatial Operators', () => {
+    it('should nest $not under the field', () => {
+      const config: QueryConfig = {
+        conditions: [
+          not(field('price', Operator.GT, 100)),
+          not(field('status', Operator.EQ, '$excludedStatus'))
+        ]
+      };
+
+      const query = QueryBuilder.build(config, { excludedStatus: 'archived' });
+
+      expect(query.$and).toEqual([
+        { price: { $not: { $gt: 100 } } },
+        { status: { $not: { $eq: 'archived' } } }
+      ]);
+    });
+
+    it('should negate a date range in place', () => {
+      const config: QueryConfig = {
+        conditions: [not(dateRange('createdAt', '2025-01-01', '2025-01-31'))]
+      };
+
+      expect(QueryBuilder.build(config)).toEqual({
+        createdAt: { $not: { $gte: '2025-01-01', $lte: '2025-01-31' } }
+      });
+    });
+
+    it('should wrap negated logical conditions in $nor', () => {
+      const config: QueryConfig = {
+        conditions: [
+          not(and(field('status', Operator.EQ, 'closed'), field('priority', Operator.LT, 2)))
+        ]
+      };
+
+      expect(QueryBuilder.build(config)).toEqual({
+        $nor: [{ $and: [{ status: 'closed' }, { priority: { $lt: 2 } }] }]
+      });
+    });
+
+    it('should skip $not when its condition is skipped', () => {
+      const config: QueryConfig = {
+        conditions: [not(field('status', Operator.EQ, '$status'))]
+      };
+
+      expect(QueryBuilder.build(config, {})).toEqual({});
+    });
+
+    it('should emit $expr at the top level', () => {
+      const config: QueryConfig = {
+        conditions: [expr({ $gt: ['$spent', '$budget'] })]
+      };
+
+      expect(QueryBuilder.build(config)).toEqual({ $expr: { $gt: ['$spent', '$budget'] } });
+    });
+
+    it('should emit $text at the top level and bind the search string', () => {
+      const config: QueryConfig = {
+        staticFilters: { published: true },
+        conditions: [text('$q', { language: 'en', caseSensitive: false })]
+      };
+
+      expect(QueryBuilder.build(config, { q: 'wireless headphones' })).toEqual({
+        published: true,
+        $text: { $search: 'wireless headphones', $language: 'en', $caseSensitive: false }
+      });
+      expect(QueryBuilder.build(config, { q: '' })).toEqual({ published: true });
+    });
+
+    it('should build $geoWithin and $near conditions', () => {
+      const polygon = { type: 'Polygon', coordinates: [[[0, 0], [0, 1], [1, 1], [0, 0]]] };
+      const config: QueryConfig = {
+        conditions: [
+          geoWithin('area', polygon),
+          near('location', '$point', { maxDistance: '$radius', minDistance: 10 })
+        ]
+      };
+
+      const query = QueryBuilder.build(config, {
+        point: { type: 'Point', coordinates: [76.27, 9.93] },
+        radius: 5000
+      });
+
+      expect(query.$and).toEqual([
+        { area: { $geoWithin: { $geometry: polygon } } },
+        {
+          location: {
+            $near: {
+              $geometry: { type: 'Point', coordinates: [76.27, 9.93] },
+              $maxDistance: 5000,
+              $minDistance: 10
+            }
+          }
+        }
+      ]);
+    });
+
+    it('should skip geospatial conditions without geometry', () => {
+      const config: QueryConfig = {
+        conditions: [near('location', '$point')]
+      };
+
+      expect(QueryBuilder.build(config, {})).toEqual({});
+    });
+
+    it('should build $mod conditions', () => {
+      const config: QueryConfig = {
+        conditions: [mod('quantity', 4, 0)]
+      };
+
+      expect(QueryBuilder.build(config)).toEqual({ quantity: { $mod: [4, 0] } });
+    });
+
+    it('should compile the new condition types', () => {
+      const config: QueryConfig = {
+        conditions: [not(field('price', Operator.GT, '$max')), text('$q')]
+      };
+      const data = { max: 10, q: 'lamp' };
+
+      expect(QueryBuilder.compile(config)(data)).toEqual(QueryBuilder.build(config, data));
+    });
+  });
+
+  // ============================================================================
+  // Conditional Conditions
+  // ============================================================================
+
+  describe('Conditional Conditions', () => {
+    it('should apply a condition only when its predicate holds', () => {
+      const config: QueryConfig = {
+        conditions: [
+          field('status', Operator.EQ, 'active'),
+          { ...field('verified', Operator.EQ, true), when: { path: 'mode', equals: 'strict' } }
+        ]
+      };
+
+      expect(QueryBuilder.build(config, { mode: 'strict' })).toEqual({
+        $and: [{ status: 'active' }, { verified: true }]
+      });
+      expect(QueryBuilder.build(config, { mode: 'loose' })).toEqual({ status: 'active' });
+    });
+
+    it('should skip a condition when its unless predicate holds', () => {
+      const config: QueryConfig = {
+        conditions: [{ ...field('archived', Operator.NE, true), unless: 'includeArchived' }]
+      };
+
+      expect(QueryBuilder.build(config, {})).toEqual({ archived: { $ne: true } });
+      expect(QueryBuilder.build(config, { includeArchived: true })).toEqual({});
+    });
+
+    it('should apply rules to logical groups and date ranges', () => {
+      const config: QueryConfig = {
+        dateRanges: [{ field: 'createdAt', unless: 'allTime' }],
+        conditions: [
+          {
+            ...or(field('ownerId', Operator.EQ, '$userId'), field('shared', Operator.EQ, true)),
+            unless: { path: 'role', equals: 'admin' }
+          }
+        ]
+      };
+
+      const data = { userId: 'u-1', createdAt: { from: '2025-01-01' } };
+
+      expect(QueryBuilder.build(config, data)).toEqual({
+        createdAt: { $gte: '2025-01-01' },
+        $or: [{ ownerId: 'u-1' }, { shared: true }]
+      });
+      expect(QueryBuilder.build(config, { ...data, role: 'admin', allTime: true })).toEqual({});
+    });
+
+    it('should choose between two conditions with ifElse', () => {
+      const config: QueryConfig = {
+        conditions: [
+          ifElse(
+            { path: 'view', equals: 'mine' },
+            field('ownerId', Operator.EQ, '$userId'),
+            field('visibility', Operator.EQ, 'public')
+          ),
+          ifElse('onlyUrgent', field('priority', Operator.GTE, 4))
+        ]
+      };
+
+      expect(QueryBuilder.build(config, { view: 'mine', userId: 'u-1' })).toEqual({ ownerId: 'u-1' });
+      expect(QueryBuilder.build(config, { onlyUrgent: true })).toEqual({
+        $and: [{ visibility: 'public' }, { priority: { $gte: 4 } }]
+      });
+    });
+
+    it('should produce the same filters when compiled', () => {
+      const config: QueryConfig = {
+        dateRanges: [{ field: 'createdAt', when: 'useDates' }],
+        conditions: [
+          { ...field('verified', Operator.EQ, true), when: { path: 'mode', equals: 'strict' } },
+          ifElse('mine', field('ownerId', Operator.EQ, '$userId'), field('shared', Operator.EQ, true)),
+          { ...not(field('status', Operator.EQ, 'deleted')), unless: 'includeDeleted' }
+        ]
+      };
+      const compiled = QueryBuilder.compile(config);
+      const inputs = [
+        {},
+        { mode: 'strict', mine: true, userId: 'u-1' },
+        { useDates: true, createdAt: { from: '2025-01-01' }, includeDeleted: true }
+      ];
+
+      for (const data of inputs) {
+        expect(compiled(data)).toEqual(QueryBuilder.build(config, data));
+      }
+    });
+  });
+
   // ============================================================================
   // Complex Real-World Scenarios
   // ============================================================================
@@ -610,6 +983,216 @@ describe('QueryBuilder', () => {
     });
   });
 
+  // ============================================================================
+  // Find Options (sort, projection, limit, skip)
+  // ============================================================================
+
+  describe('Find Options', () => {
+    it('should return filter and static options', () => {
+      const config: QueryConfig = {
+        staticFilters: { status: 'active' },
+        sort: { value: { createdAt: -1 } },
+        projection: { value: { name: 1, email: 1 } },
+        limit: { value: 20 },
+        skip: { value: 40 }
+      };
+
+      const result = QueryBuilder.buildFindOptions(config);
+
+      expect(result).toEqual({
+        filter: { status: 'active' },
+        options: {
+          sort: { createdAt: -1 },
+          projection: { name: 1, email: 1 },
+          limit: 20,
+          skip: 40
+        }
+      });
+    });
+
+    it('should bind options to data references', () => {
+      const config: QueryConfig = {
+        sort: { value: '$sortBy' },
+        projection: { value: '$fields' },
+        limit: { value: '$page.size' },
+        skip: { value: '$page.offset' }
+      };
+
+      const data = {
+        sortBy: '-priority,createdAt',
+        fields: ['name', 'status'],
+        page: { size: 10, offset: 30 }
+      };
+
+      const { options } = QueryBuilder.buildFindOptions(config, data);
+
+      expect(options).toEqual({
+        sort: { priority: -1, createdAt: 1 },
+        projection: { name: 1, status: 1 },
+        limit: 10,
+        skip: 30
+      });
+    });
+
+    it('should accept sort objects with named directions', () => {
+      const config: QueryConfig = {
+        sort: { value: '$sort' }
+      };
+
+      const { options } = QueryBuilder.buildFindOptions(config, {
+        sort: { priority: 'desc', name: 'asc' }
+      });
+
+      expect(options.sort).toEqual({ priority: -1, name: 1 });
+    });
+
+    it('should fall back to defaults when data references are missing', () => {
+      const config: QueryConfig = {
+        sort: { value: '$sortBy', default: { createdAt: -1 } },
+        limit: { value: '$pageSize', default: 25 },
+        skip: { value: '$offset' }
+      };
+
+      const { options } = QueryBuilder.buildFindOptions(config, {});
+
+      expect(options).toEqual({ sort: { createdAt: -1 }, limit: 25 });
+    });
+
+    it('should clamp limit to the configured max', () => {
+      const config: QueryConfig = {
+        limit: { value: '$pageSize', max: 100 }
+      };
+
+      const { options } = QueryBuilder.buildFindOptions(config, { pageSize: 5000 });
+
+      expect(options.limit).toBe(100);
+    });
+
+    it('should clamp a limit of 0 to max, since MongoDB reads it as no limit', () => {
+      const config: QueryConfig = {
+        limit: { value: '$pageSize', max: 100 }
+      };
+
+      expect(QueryBuilder.buildFindOptions(config, { pageSize: 0 }).options.limit).toBe(100);
+      expect(QueryBuilder.buildFindOptions({ limit: { value: '$pageSize' } }, { pageSize: 0 }).options.limit).toBe(0);
+    });
+
+    it('should reject sort fields outside the whitelist', () => {
+      const config: QueryConfig = {
+        sort: { value: '$sortBy', allowedFields: ['createdAt', 'priority'] }
+      };
+
+      expect(() => QueryBuilder.buildFindOptions(config, { sortBy: '-createdAt' })).not.toThrow();
+      expect(() => QueryBuilder.buildFindOptions(config, { sortBy: 'password' })).toThrow(
+        'Field(s) not allowed in sort: password'
+      );
+      expect(() => QueryBuilder.buildFindOptions(config, { sortBy: 'password' })).toThrow(FieldNotAllowedError);
+    });
+
+    it('should reject projection fields outside the whitelist', () => {
+      const config: QueryConfig = {
+        projection: { value: '$fields', allowedFields: ['name', 'email'] }
+      };
+
+      expect(() => QueryBuilder.buildFindOptions(config, { fields: 'name,ssn' })).toThrow(
+        'Field(s) not allowed in projection: ssn'
+      );
+    });
+
+    it('should reject invalid limit and skip values', () => {
+      const config: QueryConfig = {
+        limit: { value: '$pageSize' },
+        skip: { value: '$offset' }
+      };
+
+      expect(() => QueryBuilder.buildFindOptions(config, { pageSize: 'all' })).toThrow('Invalid limit value');
+      expect(() => QueryBuilder.buildFindOptions(config, { offset: -1 })).toThrow('Invalid skip value');
+      expect(() => QueryBuilder.buildFindOptions(config, { offset: -1 })).toThrow(InvalidFindOptionError);
+    });
+
+    it('should ignore find options in build', () => {
+      const config: QueryConfig = {
+        staticFilters: { status: 'active' },
+        sort: { value: { createdAt: -1 } },
+        limit: { value: 10 }
+      };
+
+      expect(QueryBuilder.build(config)).toEqual({ status: 'active' });
+    });
+  });
+
+  // ============================================================================
+  // Compiled Queries
+  // ============================================================================
+
+  describe('Compiled Queries', () => {
+    const config: QueryConfig = {
+      staticFilters: { channel: 'online' },
+      fieldMappings: {
+        customerId: 'customer.id',
+        age: { path: 'filters.age', type: 'number' }
+      },
+      dateRanges: [{ field: 'orderDate' }],
+      conditions: [
+        or(
+          field('status', Operator.EQ, 'fulfilled'),
+          and(
+            field('status', Operator.EQ, 'in-progress'),
+            field('priority', Operator.GTE, '$minPriority')
+          )
+        ),
+        field('tags', Operator.IN, '$tags'),
+        dateRange('deliveredAt', '2025-01-01')
+      ]
+    };
+
+    const inputs: Record<string, any>[] = [
+      {},
+      { customer: { id: 'c-1' }, filters: { age: '30' } },
+      { minPriority: 3, tags: ['a'], orderDate: { from: new Date('2025-01-01') } },
+      { customer: { id: 'c-2' }, minPriority: null, orderDate: { to: new Date('2025-06-30') } }
+    ];
+
+    it('should produce the same filters as build', () => {
+      const compiled = QueryBuilder.compile(config);
+
+      for (const data of inputs) {
+        expect(compiled(data)).toEqual(QueryBuilder.build(config, data));
+      }
+    });
+
+    it('should validate the config once at compile time', () => {
+      const invalid = { conditions: [{ operator: Operator.OR, conditions: [] }] } as unknown as QueryConfig;
+
+      expect(() => QueryBuilder.compile(invalid)).toThrow();
+    });
+
+    it('should apply build options on every call', () => {
+      const compiled = QueryBuilder.compile(
+        { conditions: [field('status', Operator.EQ, '$status')] },
+        { sanitize: true }
+      );
+
+      expect(compiled({ status: 'open' })).toEqual({ status: 'open' });
+      expect(() => compiled({ status: { $ne: null } })).toThrow('value contains operator keys');
+    });
+
+    it('should validate data against declared parameters on every call', () => {
+      const compiled = QueryBuilder.compile({
+        parameters: { status: { required: true } },
+        conditions: [field('status', Operator.EQ, '$status')]
+      });
+
+      expect(() => compiled({})).toThrow('status: is required');
+    });
+
+    it('should return a new filter object on every call', () => {
+      const compiled = QueryBuilder.compile(config);
+
+      expect(compiled(inputs[1])).not.toBe(compiled(inputs[1]));
+    });
+  });
+
   // ============================================================================
   // Edge Cases
   // ============================================================================
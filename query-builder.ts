@@ -7,6 +7,25 @@
  */
 
 import { validateConfig } from './validation';
+import { getNestedValue, compilePath, isOperatorObject } from './utils';
+import { AccessPolicy, enforcePolicy } from './access-policy';
+import { SanitizeOptions, resolveSanitizeOptions, sanitizeDataValue } from './sanitization';
+import { ValueType, CoercionFactories, coerceValue } from './coercion';
+import { isDateExpression, parseIsoDate, resolveDateExpression } from './date-expressions';
+import {
+  CoercionError,
+  FieldNotAllowedError,
+  InvalidFindOptionError,
+  InvalidRangeError,
+  UnresolvedReferenceError
+} from './errors';
+import { ParameterDefinition, ParameterInfo, inferParameters, validateData } from './parameters';
+import { ConditionPredicate, ConditionRules, evaluatePredicate, isConditionActive } from './predicates';
+import { FilterFragment, MergePolicy, mergeFilters } from './merge';
+import { OptimizeOptions, optimizeFilter } from './optimizer';
+import { ParseOptions, parseFilter } from './filter-parser';
+import { QueryExplanation, explainQuery } from './explain';
+import { BuildTrace, TracePhase, TraceOptions, TraceRecorder } from './trace';
 
 export enum Operator {
   // Comparison
@@ -35,27 +54,184 @@ export enum Operator {
   // Array
   ALL = '$all',
   ELEM_MATCH = '$elemMatch',
-  SIZE = '$size'
+  SIZE = '$size',
+
+  // Evaluation
+  EXPR = '$expr',
+  TEXT = '$text',
+  MOD = '$mod',
+
+  // Geospatial
+  GEO_WITHIN = '$geoWithin',
+  NEAR = '$near'
 }
 
-export interface FieldCondition {
+export interface FieldCondition extends ConditionRules {
   field: string;
   operator: Operator | string;
   value: any;
+  // Treat a data-referenced $regex value as a pattern even in sanitize mode
+  allowRegex?: boolean;
+  // Convert the value to this type before it is emitted
+  type?: ValueType;
 }
 
-export interface LogicalCondition {
+export interface LogicalCondition extends ConditionRules {
   operator: Operator.AND | Operator.OR | Operator.NOR;
   conditions: QueryCondition[];
 }
 
-export interface DateRangeCondition {
+export interface DateRangeCondition extends ConditionRules {
   field: string;
+  // Dates, or date expressions like 'now-7d/d' (see date-expressions.ts)
   from?: Date | string;
   to?: Date | string;
+  // Convert the bounds to this type before they are emitted (usually 'date')
+  type?: ValueType;
+  // '[]' (default): from and to are included; '[)', '(]' and '()' exclude them
+  bounds?: RangeBounds;
+  // Expand date-only strings ('2025-06-30') to whole days: an included day
+  // is covered from its first to its last millisecond, an excluded one entirely
+  wholeDays?: boolean;
+  // Parse ISO strings into Dates (values without an offset are read in `timeZone`)
+  parseDates?: boolean;
+  // IANA time zone for this range's date expressions, whole days and ISO
+  // strings; overrides BuildOptions.timeZone
+  timeZone?: string;
+}
+
+export type RangeBounds = '[]' | '[)' | '(]' | '()';
+
+export type DateRangeOptions = Omit<DateRangeCondition, 'field' | 'from' | 'to'>;
+
+export interface RangeCondition extends ConditionRules {
+  field: string;
+  // Bounds: values, or `$` data references (e.g. '$price.min'); a missing
+  // bound is left out
+  min?: any;
+  max?: any;
+  // '[]' (default): min and max are included; '[)', '(]' and '()' exclude them
+  bounds?: RangeBounds;
+  // Convert the bounds to this type before they are emitted
+  type?: ValueType;
 }
 
-export type QueryCondition = FieldCondition | LogicalCondition | DateRangeCondition;
+export type RangeOptions = Omit<RangeCondition, 'field' | 'min' | 'max'>;
+
+export interface NotCondition extends ConditionRules {
+  operator: Operator.NOT;
+  // Field-level conditions are negated in place ({ field: { $not: ... } });
+  // anything else is wrapped in $nor
+  condition: QueryCondition;
+}
+
+export interface ExprCondition extends ConditionRules {
+  operator: Operator.EXPR;
+  // Aggregation expression; `$`-prefixed strings inside are field paths
+  expression: Record<string, any>;
+}
+
+export interface TextCondition extends ConditionRules {
+  operator: Operator.TEXT;
+  // Search string, or a `$` data reference
+  search: string;
+  language?: string;
+  caseSensitive?: boolean;
+  diacriticSensitive?: boolean;
+}
+
+export interface GeoWithinCondition extends ConditionRules {
+  field: string;
+  operator: Operator.GEO_WITHIN;
+  // GeoJSON Polygon/MultiPolygon, or a `$` data reference
+  geometry: Record<string, any> | string;
+}
+
+export interface NearCondition extends ConditionRules {
+  field: string;
+  operator: Operator.NEAR;
+  // GeoJSON Point, or a `$` data reference
+  geometry: Record<string, any> | string;
+  // Distances in meters, or `$` data references
+  maxDistance?: number | string;
+  minDistance?: number | string;
+}
+
+export interface ConditionalCondition extends ConditionRules {
+  // Use `then` when the predicate holds, otherwise `else` (if any)
+  if: ConditionPredicate;
+  then: QueryCondition;
+  else?: QueryCondition;
+}
+
+export interface ConditionRef extends ConditionRules {
+  // Name of the stored config whose conditions take this place; replaced
+  // by resolveStoredConfig, and rejected by build
+  $ref: string;
+}
+
+export type QueryCondition =
+  | FieldCondition
+  | LogicalCondition
+  | DateRangeCondition
+  | RangeCondition
+  | NotCondition
+  | ExprCondition
+  | TextCondition
+  | GeoWithinCondition
+  | NearCondition
+  | ConditionalCondition
+  | ConditionRef;
+
+export interface FieldMapping {
+  // Data path to read the value from
+  path: string;
+  // Convert the value to this type before it is emitted
+  type?: ValueType;
+}
+
+export type SortDirection = 1 | -1;
+
+export interface SortConfig {
+  // Static sort spec, or a `$` data reference resolving to a spec object,
+  // a 'field' / '-field' string (comma-separated for several) or an array of those
+  value?: Record<string, SortDirection> | string;
+  // Used when the data reference is missing
+  default?: Record<string, SortDirection>;
+  // Whitelist of sortable fields
+  allowedFields?: string[];
+}
+
+export interface ProjectionConfig {
+  // Static projection, or a `$` data reference resolving to a projection object,
+  // an array of field names or a comma-separated string
+  value?: Record<string, 0 | 1> | string;
+  // Used when the data reference is missing
+  default?: Record<string, 0 | 1>;
+  // Whitelist of projectable fields
+  allowedFields?: string[];
+}
+
+export interface PageConfig {
+  // Static number, or a `$` data reference resolving to a number
+  value?: number | string;
+  // Used when the data reference is missing
+  default?: number;
+  // Upper bound; larger values (and a limit of 0, which means no limit) are clamped
+  max?: number;
+}
+
+export interface FindOptions {
+  sort?: Record<string, SortDirection>;
+  projection?: Record<string, 0 | 1>;
+  limit?: number;
+  skip?: number;
+}
+
+export interface FindQuery {
+  filter: Record<string, any>;
+  options: FindOptions;
+}
 
 export interface QueryConfig {
   // Static filters (always applied)
@@ -64,73 +240,531 @@ export interface QueryConfig {
   // Dynamic conditions
   conditions?: QueryCondition[];
 
-  // Simple field mappings
-  fieldMappings?: Record<string, any>;
+  // Simple field mappings (data path, or data path with a target type)
+  fieldMappings?: Record<string, string | FieldMapping>;
 
   // Date range fields
   dateRanges?: DateRangeCondition[];
+
+  // Input parameters, keyed by data path (validated before building)
+  parameters?: Record<string, ParameterDefinition>;
+
+  // Find options (used by buildFindOptions)
+  sort?: SortConfig;
+  projection?: ProjectionConfig;
+  limit?: PageConfig;
+  skip?: PageConfig;
+}
+
+export interface BuildOptions extends CoercionFactories {
+  // Field/operator access policy checked against the built filter
+  policy?: AccessPolicy;
+
+  // Check values resolved from input data (true uses the defaults)
+  sanitize?: boolean | SanitizeOptions;
+
+  // How to resolve conflicting constraints on the same field
+  merge?: MergePolicy;
+
+  // Simplify the built filter into canonical form (true uses the defaults)
+  optimize?: boolean | OptimizeOptions;
+
+  // Record what the build did with each part of the config (build only)
+  trace?: TraceRecorder;
 }
 
+// A config compiled by QueryBuilder.compile
+export type CompiledQuery<T extends Record<string, any> = Record<string, any>> =
+  (data?: T) => Record<string, any>;
+
+type CompiledCondition = (data: Record<string, any>) => Record<string, any> | null;
+
+// Date-only ISO strings, which DateRangeCondition.wholeDays expands to whole days
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 export class QueryBuilder {
   /**
    * Build a MongoDB query from a configuration object
    * 
    * @param config - Query configuration
    * @param data - Input data to inject into the query
+   * @param options - Build options (access policy, sanitization)
    * @returns MongoDB query object
+   * @throws PolicyViolationError if the query breaks the access policy
+   * @throws UnsafeValueError if sanitize mode rejects a data value
+   * @throws DataValidationError if data does not match the declared parameters
+   * @throws CoercionError if a value cannot be converted to its declared type
+   * @throws DateExpressionError if a date expression is malformed
+   * @throws MergeConflictError if the merge policy is 'error' and two parts
+   * of the config set different values for the same field
    */
   static build<T extends Record<string, any> = Record<string, any>>(
     config: QueryConfig,
-    data: T = {} as T
+    data: T = {} as T,
+    options: BuildOptions = {}
   ): Record<string, any> {
-    // Validate config at runtime
-    validateConfig(config);
+    const { trace } = options;
 
-    const query: Record<string, any> = {};
+    this.phase(trace, 'validate', () => {
+      // Validate config at runtime
+      validateConfig(config);
+      rejectConditionRefs(config.conditions);
+
+      // Validate input data against declared parameters
+      if (config.parameters) {
+        validateData(config, data, options);
+      }
+    });
+
+    const fragments: FilterFragment[] = [];
 
     // 1. Apply static filters
     if (config.staticFilters) {
-      Object.assign(query, config.staticFilters);
+      const staticFilters = config.staticFilters;
+      this.phase(trace, 'staticFilters', () => {
+        for (const [key, value] of Object.entries(staticFilters)) {
+          trace?.staticFilter(key, value);
+        }
+        fragments.push({ source: 'staticFilters', filter: staticFilters });
+      });
     }
 
     // 2. Apply field mappings (simple key-value pairs)
     if (config.fieldMappings) {
-      this.applyFieldMappings(query, config.fieldMappings, data);
+      const fieldMappings = config.fieldMappings;
+      this.phase(trace, 'fieldMappings', () =>
+        this.applyFieldMappings(fragments, fieldMappings, data, options)
+      );
     }
 
     // 3. Apply date ranges
     if (config.dateRanges) {
-      this.applyDateRanges(query, config.dateRanges, data);
+      const dateRanges = config.dateRanges;
+      this.phase(trace, 'dateRanges', () =>
+        this.applyDateRanges(fragments, dateRanges, data, options)
+      );
     }
 
     // 4. Apply complex conditions
     if (config.conditions && config.conditions.length > 0) {
-      const conditionsQuery = this.buildConditions(config.conditions, data);
+      const conditions = config.conditions;
+      const conditionsQuery = this.phase(trace, 'conditions', () =>
+        this.buildConditions(conditions, data, options)
+      );
       if (Object.keys(conditionsQuery).length > 0) {
-        Object.assign(query, conditionsQuery);
+        fragments.push({ source: 'conditions', filter: conditionsQuery });
       }
     }
 
-    return query;
+    // 5. Merge constraints on the same field
+    const query = this.phase(trace, 'merge', () => mergeFilters(fragments, options.merge));
+
+    // 6. Enforce access policy (server-side JavaScript is blocked by default)
+    this.phase(trace, 'policy', () => enforcePolicy(query, options.policy));
+
+    // 7. Simplify the filter
+    return this.phase(trace, 'optimize', () => this.optimize(query, options));
   }
 
-  private static applyFieldMappings(query: Record<string, any>, mappings: Record<string, any>, data: any) {
-    for (const [field, dataKey] of Object.entries(mappings)) {
-      const value = this.getNestedValue(data, dataKey);
-      if (value !== undefined && value !== null) {
-        query[field] = value;
+  /**
+   * Build a MongoDB query and trace how each part of the config was handled
+   *
+   * @param config - Query configuration
+   * @param data - Input data to inject into the query
+   * @param options - Build options, plus which resolved values to redact
+   * @returns Built filter and the trace (per-part entries and phase timings)
+   * @throws the same errors as `build`
+   */
+  static buildWithTrace<T extends Record<string, any> = Record<string, any>>(
+    config: QueryConfig,
+    data: T = {} as T,
+    options: BuildOptions & TraceOptions = {}
+  ): { filter: Record<string, any>; trace: BuildTrace } {
+    const { redact, ...buildOptions } = options;
+    const trace = new TraceRecorder({ redact });
+    const filter = this.build(config, data, { ...buildOptions, trace });
+    return { filter, trace: trace.toTrace() };
+  }
+
+  /**
+   * Compile a configuration into a reusable query function
+   *
+   * The config is validated once and every data path is pre-split, so each
+   * call only resolves values and assembles the filter. The result is the
+   * same as calling `build` with the same config, data and options.
+   * The config must not be mutated after it is compiled.
+   *
+   * @param config - Query configuration
+   * @param options - Build options applied on every call
+   * @returns Function building the MongoDB query from input data
+   */
+  static compile<T extends Record<string, any> = Record<string, any>>(
+    config: QueryConfig,
+    options: BuildOptions = {}
+  ): CompiledQuery<T> {
+    // Validate config once
+    validateConfig(config);
+    rejectConditionRefs(config.conditions);
+
+    // Tracing is only supported by build
+    if (options.trace) {
+      options = { ...options, trace: undefined };
+    }
+
+    const staticFilters = config.staticFilters;
+
+    const fieldMappings = Object.entries(config.fieldMappings ?? {}).map(([field, mapping]) => ({
+      field,
+      mapping,
+      getValue: compilePath(typeof mapping === 'string' ? mapping : mapping.path)
+    }));
+
+    const dateRanges = (config.dateRanges ?? []).map(dateRange => ({
+      dateRange,
+      getRange: compilePath(dateRange.field)
+    }));
+
+    const conditions = (config.conditions ?? []).map(condition =>
+      this.compileCondition(condition, options)
+    );
+
+    return (data: T = {} as T) => {
+      if (config.parameters) {
+        validateData(config, data, options);
+      }
+
+      const fragments: FilterFragment[] = [];
+
+      if (staticFilters) {
+        fragments.push({ source: 'staticFilters', filter: staticFilters });
+      }
+
+      const mapped: Record<string, any> = {};
+      for (const { field, mapping, getValue } of fieldMappings) {
+        this.applyFieldMapping(mapped, field, mapping, getValue(data), options);
       }
+      if (Object.keys(mapped).length > 0) {
+        fragments.push({ source: 'fieldMappings', filter: mapped });
+      }
+
+      for (const { dateRange, getRange } of dateRanges) {
+        if (!isConditionActive(dateRange, data)) {
+          continue;
+        }
+        const dateQuery = this.buildDateRange(dateRange, getRange(data), options);
+        if (dateQuery) {
+          fragments.push({ source: 'dateRanges', filter: dateQuery });
+        }
+      }
+
+      if (conditions.length > 0) {
+        const results: Record<string, any>[] = [];
+        for (const condition of conditions) {
+          const result = condition(data);
+          if (result) {
+            results.push(result);
+          }
+        }
+        const conditionsQuery = this.combineConditions(results);
+        if (Object.keys(conditionsQuery).length > 0) {
+          fragments.push({ source: 'conditions', filter: conditionsQuery });
+        }
+      }
+
+      const query = mergeFilters(fragments, options.merge);
+
+      enforcePolicy(query, options.policy);
+
+      return this.optimize(query, options);
+    };
+  }
+
+  /**
+   * Build a MongoDB filter together with find options (sort, projection,
+   * limit, skip) from a configuration object
+   *
+   * @param config - Query configuration
+   * @param data - Input data to inject into the query and options
+   * @param buildOptions - Build options (access policy, sanitization)
+   * @returns Filter and options, ready for `collection.find(filter, options)`
+   */
+  static buildFindOptions<T extends Record<string, any> = Record<string, any>>(
+    config: QueryConfig,
+    data: T = {} as T,
+    buildOptions: BuildOptions = {}
+  ): FindQuery {
+    const filter = this.build(config, data, buildOptions);
+    const options: FindOptions = {};
+
+    if (config.sort) {
+      const sort = this.buildSort(config.sort, data);
+      if (sort) options.sort = sort;
     }
+
+    if (config.projection) {
+      const projection = this.buildProjection(config.projection, data);
+      if (projection) options.projection = projection;
+    }
+
+    if (config.limit) {
+      const limit = this.buildPageValue('limit', config.limit, data);
+      if (limit !== undefined) options.limit = limit;
+    }
+
+    if (config.skip) {
+      const skip = this.buildPageValue('skip', config.skip, data);
+      if (skip !== undefined) options.skip = skip;
+    }
+
+    return { filter, options };
   }
 
-  private static applyDateRanges(query: Record<string, any>, dateRanges: DateRangeCondition[], data: any) {
-    for (const dateRange of dateRanges) {
-      const rangeData = this.getNestedValue(data, dateRange.field);
-      const dateQuery = this.buildDateRange(dateRange, rangeData);
-      if (dateQuery) {
-        Object.assign(query, dateQuery);
+  /**
+   * List the input parameters of a configuration: declared parameters plus
+   * every data path referenced by mappings, date ranges, conditions and options
+   *
+   * @param config - Query configuration
+   * @returns Parameter list, e.g. for generating request validation or docs
+   */
+  static getParameters(config: QueryConfig): ParameterInfo[] {
+    validateConfig(config);
+    rejectConditionRefs(config.conditions);
+    return inferParameters(config);
+  }
+
+  /**
+   * Convert an existing MongoDB filter into a query configuration
+   *
+   * @param filter - MongoDB filter document
+   * @param options - Literal values to replace with `$` data references
+   * @returns Validated query configuration that builds an equivalent filter
+   * @throws FilterParseError if part of the filter has no condition form
+   */
+  static parse(filter: Record<string, any>, options: ParseOptions = {}): QueryConfig {
+    const config = parseFilter(filter, options);
+    validateConfig(config);
+    return config;
+  }
+
+  /**
+   * Explain which parts of a configuration apply to the given data
+   *
+   * @param config - Query configuration
+   * @param data - Input data
+   * @param options - Build options (access policy, sanitization)
+   * @returns Built filter, applied and skipped parts, data usage and a text summary
+   */
+  static explain<T extends Record<string, any> = Record<string, any>>(
+    config: QueryConfig,
+    data: T = {} as T,
+    options: BuildOptions = {}
+  ): QueryExplanation {
+    return explainQuery(config, data, options);
+  }
+
+  /**
+   * Run one build phase, timing it when tracing
+   */
+  private static phase<R>(trace: TraceRecorder | undefined, phase: TracePhase, run: () => R): R {
+    return trace ? trace.time(phase, run) : run();
+  }
+
+  private static optimize(query: Record<string, any>, options: BuildOptions): Record<string, any> {
+    if (!options.optimize) {
+      return query;
+    }
+    return optimizeFilter(query, options.optimize === true ? {} : options.optimize).filter;
+  }
+
+  private static buildSort(
+    sortConfig: SortConfig,
+    data: Record<string, any>
+  ): Record<string, SortDirection> | null {
+    const value = this.resolveValue(sortConfig.value, data) ?? sortConfig.default;
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    const sort: Record<string, SortDirection> = {};
+    const entries: string[] = typeof value === 'string'
+      ? value.split(',')
+      : Array.isArray(value) ? value : [];
+
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      for (const [sortField, direction] of Object.entries(value)) {
+        sort[sortField] = this.parseSortDirection(sortField, direction);
+      }
+    }
+
+    for (const entry of entries) {
+      const trimmed = String(entry).trim();
+      if (!trimmed) continue;
+      if (trimmed.startsWith('-')) {
+        sort[trimmed.substring(1)] = -1;
+      } else {
+        sort[trimmed.replace(/^\+/, '')] = 1;
       }
     }
+
+    this.assertAllowedFields('sort', Object.keys(sort), sortConfig.allowedFields);
+
+    return Object.keys(sort).length > 0 ? sort : null;
+  }
+
+  private static parseSortDirection(sortField: string, direction: any): SortDirection {
+    if (direction === 1 || direction === 'asc' || direction === 'ascending') return 1;
+    if (direction === -1 || direction === 'desc' || direction === 'descending') return -1;
+    throw new InvalidFindOptionError(
+      'sort', direction, `Invalid sort direction for '${sortField}': ${String(direction)}`
+    );
+  }
+
+  private static buildProjection(
+    projectionConfig: ProjectionConfig,
+    data: Record<string, any>
+  ): Record<string, 0 | 1> | null {
+    const value = this.resolveValue(projectionConfig.value, data) ?? projectionConfig.default;
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    let projection: Record<string, 0 | 1> = {};
+
+    if (typeof value === 'string' || Array.isArray(value)) {
+      const fields = typeof value === 'string' ? value.split(',') : value;
+      for (const projectedField of fields) {
+        const trimmed = String(projectedField).trim();
+        if (trimmed) projection[trimmed] = 1;
+      }
+    } else if (typeof value === 'object') {
+      projection = { ...value };
+    }
+
+    this.assertAllowedFields('projection', Object.keys(projection), projectionConfig.allowedFields);
+
+    return Object.keys(projection).length > 0 ? projection : null;
+  }
+
+  private static buildPageValue(
+    name: 'limit' | 'skip',
+    pageConfig: PageConfig,
+    data: Record<string, any>
+  ): number | undefined {
+    const value = this.resolveValue(pageConfig.value, data) ?? pageConfig.default;
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new InvalidFindOptionError(name, value, `Invalid ${name} value: ${String(value)}`);
+    }
+
+    // MongoDB reads a limit of 0 as no limit, which is above any max
+    const unlimited = name === 'limit' && value === 0;
+    if (pageConfig.max !== undefined && (value > pageConfig.max || unlimited)) {
+      return pageConfig.max;
+    }
+
+    return value;
+  }
+
+  private static assertAllowedFields(
+    section: string,
+    fields: string[],
+    allowedFields?: string[]
+  ): void {
+    if (!allowedFields) return;
+    const disallowed = fields.filter(f => !allowedFields.includes(f));
+    if (disallowed.length > 0) {
+      throw new FieldNotAllowedError(section, disallowed);
+    }
+  }
+
+  /**
+   * Resolve a `$`-prefixed data reference, or return the value unchanged
+   */
+  private static resolveValue(value: any, data: Record<string, any>): any {
+    if (typeof value === 'string' && value.startsWith('$')) {
+      return getNestedValue(data, value.substring(1));
+    }
+    return value;
+  }
+
+  /**
+   * Run a data value through sanitize mode, if enabled
+   */
+  private static sanitizeValue(
+    value: any,
+    operator: string,
+    dataPath: string,
+    options: BuildOptions,
+    allowRegex?: boolean
+  ): { value: any; literal: boolean } {
+    const sanitize = resolveSanitizeOptions(options.sanitize);
+    if (!sanitize || value === undefined || value === null) {
+      return { value, literal: false };
+    }
+    return sanitizeDataValue(value, operator, dataPath, sanitize, allowRegex);
+  }
+
+  private static applyFieldMappings(
+    fragments: FilterFragment[],
+    mappings: Record<string, string | FieldMapping>,
+    data: any,
+    options: BuildOptions
+  ) {
+    const mapped: Record<string, any> = {};
+    for (const [field, mapping] of Object.entries(mappings)) {
+      const dataKey = typeof mapping === 'string' ? mapping : mapping.path;
+      const value = getNestedValue(data, dataKey);
+      this.applyFieldMapping(mapped, field, mapping, value, options);
+      options.trace?.fieldMapping(field, dataKey, value, field in mapped);
+    }
+    if (Object.keys(mapped).length > 0) {
+      fragments.push({ source: 'fieldMappings', filter: mapped });
+    }
+  }
+
+  /**
+   * Apply one field mapping with its resolved value
+   */
+  private static applyFieldMapping(
+    query: Record<string, any>,
+    field: string,
+    mapping: string | FieldMapping,
+    value: any,
+    options: BuildOptions
+  ) {
+    if (value === undefined || value === null) {
+      return;
+    }
+
+    const dataKey = typeof mapping === 'string' ? mapping : mapping.path;
+    if (typeof mapping !== 'string' && mapping.type) {
+      value = coerceValue(value, mapping.type, dataKey, options);
+    }
+
+    const sanitized = this.sanitizeValue(value, Operator.EQ, dataKey, options);
+    query[field] = sanitized.literal ? { [Operator.EQ]: sanitized.value } : sanitized.value;
+  }
+
+  private static applyDateRanges(
+    fragments: FilterFragment[],
+    dateRanges: DateRangeCondition[],
+    data: any,
+    options: BuildOptions
+  ) {
+    dateRanges.forEach((dateRange, i) => {
+      let dateQuery: Record<string, any> | null = null;
+      if (isConditionActive(dateRange, data)) {
+        const rangeData = getNestedValue(data, dateRange.field);
+        dateQuery = this.buildDateRange(dateRange, rangeData, options);
+      }
+      options.trace?.dateRange(i, dateRange, data, dateQuery);
+      if (dateQuery) {
+        fragments.push({ source: 'dateRanges', filter: dateQuery });
+      }
+    });
   }
 
   /**
@@ -138,17 +772,26 @@ export class QueryBuilder {
    */
   private static buildConditions(
     conditions: QueryCondition[],
-    data: Record<string, any>
+    data: Record<string, any>,
+    options: BuildOptions
   ): Record<string, any> {
-    const query: Record<string, any> = {};
     const andConditions: any[] = [];
 
-    for (const condition of conditions) {
-      const result = this.processCondition(condition, data);
+    conditions.forEach((condition, i) => {
+      const result = this.processCondition(condition, data, options, `conditions[${i}]`);
       if (result) {
         andConditions.push(result);
       }
-    }
+    });
+
+    return this.combineConditions(andConditions);
+  }
+
+  /**
+   * Combine top-level condition results (implicit AND)
+   */
+  private static combineConditions(andConditions: Record<string, any>[]): Record<string, any> {
+    const query: Record<string, any> = {};
 
     if (andConditions.length === 1) {
       return andConditions[0];
@@ -159,20 +802,72 @@ export class QueryBuilder {
     return query;
   }
 
-  private static processCondition(condition: QueryCondition, data: Record<string, any>): Record<string, any> | null {
+  /**
+   * Build one condition, recording it when tracing
+   *
+   * @param path - Location of the condition in the config, for the trace
+   */
+  private static processCondition(
+    condition: QueryCondition,
+    data: Record<string, any>,
+    options: BuildOptions,
+    path: string
+  ): Record<string, any> | null {
+    const { trace } = options;
+    if (!trace) {
+      return this.buildCondition(condition, data, options, path);
+    }
+
+    const at = trace.mark();
+    const result = this.buildCondition(condition, data, options, path);
+    trace.condition(path, condition, data, result, at);
+    return result;
+  }
+
+  private static buildCondition(
+    condition: QueryCondition,
+    data: Record<string, any>,
+    options: BuildOptions,
+    path: string
+  ): Record<string, any> | null {
+    // Skip conditions whose when/unless rules do not hold
+    if (!isConditionActive(condition, data)) {
+      return null;
+    }
+
+    // Check if it's an if/else condition
+    if ('if' in condition) {
+      return this.buildConditionalCondition(condition, data, options, path);
+    }
     // Check if it's a logical condition
-    if ('operator' in condition && this.isLogicalOperator(condition.operator)) {
-      return this.buildLogicalCondition(condition as LogicalCondition, data);
+    else if ('operator' in condition && this.isLogicalOperator(condition.operator)) {
+      return this.buildLogicalCondition(condition as LogicalCondition, data, options, path);
+    }
+    // Check if it's a $not, $expr, $text or geospatial condition
+    else if ('condition' in condition && condition.operator === Operator.NOT) {
+      return this.buildNotCondition(condition, data, options, path);
+    }
+    else if ('expression' in condition && condition.operator === Operator.EXPR) {
+      return { [Operator.EXPR]: condition.expression };
+    }
+    else if ('search' in condition && condition.operator === Operator.TEXT) {
+      return this.buildTextCondition(condition, data, options);
+    }
+    else if ('geometry' in condition) {
+      return this.buildGeoCondition(condition, data, options);
+    }
+    else if ('min' in condition || 'max' in condition) {
+      return this.buildRange(condition, data, options);
     }
     // Check if it's a date range condition
     else if ('from' in condition || 'to' in condition) {
       const dateCondition = condition as DateRangeCondition;
-      const rangeData = this.getNestedValue(data, dateCondition.field);
-      return this.buildDateRange(dateCondition, rangeData);
+      const rangeData = getNestedValue(data, dateCondition.field);
+      return this.buildDateRange(dateCondition, rangeData, options);
     }
     // It's a field condition
     else {
-      return this.buildFieldCondition(condition as FieldCondition, data);
+      return this.buildFieldCondition(condition as FieldCondition, data, options);
     }
   }
 
@@ -181,26 +876,106 @@ export class QueryBuilder {
    */
   private static buildLogicalCondition(
     condition: LogicalCondition,
-    data: Record<string, any>
+    data: Record<string, any>,
+    options: BuildOptions,
+    path: string
   ): Record<string, any> | null {
     const builtConditions: any[] = [];
 
-    for (const subCondition of condition.conditions) {
-      const result = this.processCondition(subCondition, data);
+    condition.conditions.forEach((subCondition, i) => {
+      const result = this.processCondition(subCondition, data, options, `${path}.conditions[${i}]`);
       if (result && Object.keys(result).length > 0) {
         builtConditions.push(result);
       }
-    }
+    });
+
+    return this.combineLogical(condition.operator, builtConditions);
+  }
 
+  /**
+   * Combine the built sub-conditions of a logical condition
+   */
+  private static combineLogical(
+    operator: LogicalCondition['operator'],
+    builtConditions: Record<string, any>[]
+  ): Record<string, any> | null {
     if (builtConditions.length === 0) {
       return null;
     }
 
-    if (builtConditions.length === 1 && condition.operator === Operator.AND) {
+    if (builtConditions.length === 1 && operator === Operator.AND) {
       return builtConditions[0];
     }
 
-    return { [condition.operator]: builtConditions };
+    return { [operator]: builtConditions };
+  }
+
+  /**
+   * Compile a condition into a function of the input data
+   */
+  private static compileCondition(condition: QueryCondition, options: BuildOptions): CompiledCondition {
+    if (condition.when !== undefined || condition.unless !== undefined) {
+      const compiled = this.compileCondition({ ...condition, when: undefined, unless: undefined }, options);
+      return data => (isConditionActive(condition, data) ? compiled(data) : null);
+    }
+
+    if ('if' in condition) {
+      const then = this.compileCondition(condition.then, options);
+      const otherwise = condition.else ? this.compileCondition(condition.else, options) : null;
+      return data => {
+        if (evaluatePredicate(condition.if, data)) {
+          return then(data);
+        }
+        return otherwise ? otherwise(data) : null;
+      };
+    }
+
+    if ('operator' in condition && this.isLogicalOperator(condition.operator)) {
+      const logical = condition as LogicalCondition;
+      const subConditions = logical.conditions.map(sub => this.compileCondition(sub, options));
+
+      return data => {
+        const builtConditions: Record<string, any>[] = [];
+        for (const subCondition of subConditions) {
+          const result = subCondition(data);
+          if (result && Object.keys(result).length > 0) {
+            builtConditions.push(result);
+          }
+        }
+        return this.combineLogical(logical.operator, builtConditions);
+      };
+    }
+
+    if ('min' in condition || 'max' in condition) {
+      return data => this.buildRange(condition as RangeCondition, data, options);
+    }
+
+    if ('from' in condition || 'to' in condition) {
+      const dateCondition = condition as DateRangeCondition;
+      const getRange = compilePath(dateCondition.field);
+      return data => this.buildDateRange(dateCondition, getRange(data), options);
+    }
+
+    if ('condition' in condition || 'expression' in condition || 'search' in condition || 'geometry' in condition) {
+      return data => this.processCondition(condition, data, options, '');
+    }
+
+    const fieldCondition = condition as FieldCondition;
+    if (typeof fieldCondition.value === 'string' && fieldCondition.value.startsWith('$')) {
+      const dataKey = fieldCondition.value.substring(1);
+      const getValue = compilePath(dataKey);
+
+      return data => {
+        const value = getValue(data);
+        // Skip if value is undefined or null (optional field)
+        if (value === undefined || value === null) {
+          return null;
+        }
+        return this.emitFieldCondition(fieldCondition, value, dataKey, options);
+      };
+    }
+
+    return () => this.emitFieldCondition(fieldCondition, fieldCondition.value, undefined, options);
   }
 
   /**
@@ -208,25 +983,50 @@ export class QueryBuilder {
    */
   private static buildFieldCondition(
     condition: FieldCondition,
-    data: Record<string, any>
+    data: Record<string, any>,
+    options: BuildOptions
   ): Record<string, any> | null {
-    let value: any;
-
     // Check if value is a data reference (starts with $)
     if (typeof condition.value === 'string' && condition.value.startsWith('$')) {
       const dataKey = condition.value.substring(1);
-      value = this.getNestedValue(data, dataKey);
+      const value = getNestedValue(data, dataKey);
 
       // Skip if value is undefined or null (optional field)
       if (value === undefined || value === null) {
         return null;
       }
-    } else {
-      value = condition.value;
+
+      return this.emitFieldCondition(condition, value, dataKey, options);
+    }
+
+    return this.emitFieldCondition(condition, condition.value, undefined, options);
+  }
+
+  /**
+   * Emit a field condition for a resolved value
+   *
+   * @param dataKey - Data path the value came from, or undefined for static values
+   */
+  private static emitFieldCondition(
+    condition: FieldCondition,
+    value: any,
+    dataKey: string | undefined,
+    options: BuildOptions
+  ): Record<string, any> {
+    let literal = false;
+
+    if (condition.type) {
+      value = coerceValue(value, condition.type, dataKey ?? condition.field, options);
+    }
+
+    if (dataKey !== undefined) {
+      ({ value, literal } = this.sanitizeValue(
+        value, condition.operator, dataKey, options, condition.allowRegex
+      ));
     }
 
     // Handle different operators
-    if (condition.operator === Operator.EQ) {
+    if (condition.operator === Operator.EQ && !literal) {
       return { [condition.field]: value };
     }
 
@@ -235,52 +1035,243 @@ export class QueryBuilder {
 
   /**
    * Build a date range condition
+   *
+   * @throws InvalidRangeError if `from` is after `to`
    */
   private static buildDateRange(
     condition: DateRangeCondition,
-    rangeData?: any
+    rangeData: any,
+    options: BuildOptions
   ): Record<string, any> | null {
-    // If rangeData is provided, use it (for nested data)
-    const from = rangeData?.from || condition.from;
-    const to = rangeData?.to || condition.to;
+    const bounds = condition.bounds ?? '[]';
+    const fromOperator = bounds[0] === '(' ? Operator.GT : Operator.GTE;
+    const toOperator = bounds[1] === ')' ? Operator.LT : Operator.LTE;
+
+    const dataFrom = this.sanitizeValue(rangeData?.from, fromOperator, `${condition.field}.from`, options).value;
+    const dataTo = this.sanitizeValue(rangeData?.to, toOperator, `${condition.field}.to`, options).value;
 
-    if (!from && !to) {
+    // Bounds from the data replace the config's; 0 (the epoch) is a bound, '' is not
+    const from = this.resolveDateBound(
+      isMissingBound(dataFrom) ? condition.from : dataFrom, 'from', fromOperator === Operator.GT, condition, options
+    );
+    const to = this.resolveDateBound(
+      isMissingBound(dataTo) ? condition.to : dataTo, 'to', toOperator === Operator.LTE, condition, options
+    );
+
+    if (from === undefined && to === undefined) {
       return null;
     }
+    if (from !== undefined && to !== undefined && isOutOfOrder(from, to)) {
+      throw new InvalidRangeError(condition.field, from, to);
+    }
+
+    const range: Record<string, any> = {};
+    if (from !== undefined) range[fromOperator] = from;
+    if (to !== undefined) range[toOperator] = to;
 
-    const dateQuery: Record<string, any> = {};
+    return { [condition.field]: range };
+  }
 
-    if (from && to) {
-      dateQuery[condition.field] = {
-        [Operator.GTE]: from,
-        [Operator.LTE]: to
+  /**
+   * Resolve expressions, whole days and ISO strings in a date range bound
+   *
+   * @param roundUp - Round to the end of a unit rather than its start: `$gt`
+   * and `$lte` bounds exclude or include the whole unit (like Elasticsearch)
+   */
+  private static resolveDateBound(
+    value: any,
+    bound: 'from' | 'to',
+    roundUp: boolean,
+    condition: DateRangeCondition,
+    options: BuildOptions
+  ): any {
+    if (isMissingBound(value)) {
+      return undefined;
+    }
+
+    const dataPath = `${condition.field}.${bound}`;
+    const timeZone = condition.timeZone ?? options.timeZone;
+    if (isDateExpression(value)) {
+      value = resolveDateExpression(value, { clock: options.clock, timeZone, roundUp });
+    } else if (condition.wholeDays && typeof value === 'string' && DATE_ONLY_PATTERN.test(value)) {
+      value = resolveDateExpression(`${value}||/d`, { timeZone, roundUp });
+    } else if (condition.parseDates && typeof value === 'string') {
+      const parsed = parseIsoDate(value, timeZone);
+      if (!parsed) {
+        throw new CoercionError(dataPath, 'ISO date', value);
+      }
+      value = parsed;
+    }
+
+    return condition.type ? coerceValue(value, condition.type, dataPath, options) : value;
+  }
+
+  /**
+   * Build a range condition, with only the bounds that are supplied
+   *
+   * @throws InvalidRangeError if `min` is greater than `max`
+   */
+  private static buildRange(
+    condition: RangeCondition,
+    data: Record<string, any>,
+    options: BuildOptions
+  ): Record<string, any> | null {
+    const bounds = condition.bounds ?? '[]';
+    const minOperator = bounds[0] === '(' ? Operator.GT : Operator.GTE;
+    const maxOperator = bounds[1] === ')' ? Operator.LT : Operator.LTE;
+
+    const min = this.resolveRangeBound(condition.min, minOperator, condition, data, options);
+    const max = this.resolveRangeBound(condition.max, maxOperator, condition, data, options);
+
+    if (min === undefined && max === undefined) {
+      return null;
+    }
+    if (min !== undefined && max !== undefined && isOutOfOrder(min, max)) {
+      throw new InvalidRangeError(condition.field, min, max);
+    }
+
+    const range: Record<string, any> = {};
+    if (min !== undefined) range[minOperator] = min;
+    if (max !== undefined) range[maxOperator] = max;
+
+    return { [condition.field]: range };
+  }
+
+  /**
+   * Resolve a `$` data reference in a range bound, then coerce and sanitize it
+   */
+  private static resolveRangeBound(
+    value: any,
+    operator: Operator,
+    condition: RangeCondition,
+    data: Record<string, any>,
+    options: BuildOptions
+  ): any {
+    let dataKey: string | undefined;
+    if (typeof value === 'string' && value.startsWith('$')) {
+      dataKey = value.substring(1);
+      value = getNestedValue(data, dataKey);
+    }
+    if (isMissingBound(value)) {
+      return undefined;
+    }
+
+    if (condition.type) {
+      value = coerceValue(value, condition.type, dataKey ?? condition.field, options);
+    }
+    return dataKey !== undefined ? this.sanitizeValue(value, operator, dataKey, options).value : value;
+  }
+
+  /**
+   * Build an if/else condition
+   */
+  private static buildConditionalCondition(
+    condition: ConditionalCondition,
+    data: Record<string, any>,
+    options: BuildOptions,
+    path: string
+  ): Record<string, any> | null {
+    if (evaluatePredicate(condition.if, data)) {
+      return this.processCondition(condition.then, data, options, `${path}.then`);
+    }
+    return condition.else ? this.processCondition(condition.else, data, options, `${path}.else`) : null;
+  }
+
+  /**
+   * Build a $not condition
+   *
+   * MongoDB only accepts $not under a field, so a negated field condition
+   * becomes { field: { $not: { ... } } } and anything else becomes $nor.
+   */
+  private static buildNotCondition(
+    condition: NotCondition,
+    data: Record<string, any>,
+    options: BuildOptions,
+    path: string
+  ): Record<string, any> | null {
+    const inner = this.processCondition(condition.condition, data, options, `${path}.condition`);
+    if (!inner || Object.keys(inner).length === 0) {
+      return null;
+    }
+
+    const keys = Object.keys(inner);
+    if (keys.length === 1 && !keys[0].startsWith('$')) {
+      const fieldName = keys[0];
+      const value = inner[fieldName];
+      return {
+        [fieldName]: { [Operator.NOT]: isOperatorObject(value) ? value : { [Operator.EQ]: value } }
       };
-    } else if (from) {
-      dateQuery[condition.field] = { [Operator.GTE]: from };
-    } else if (to) {
-      dateQuery[condition.field] = { [Operator.LTE]: to };
     }
 
-    return dateQuery;
+    return { [Operator.NOR]: [inner] };
   }
 
   /**
-   * Get nested value from object using dot notation
+   * Build a top-level $text condition
    */
-  private static getNestedValue(obj: any, path: string): any {
-    if (!path || !obj) return undefined;
-    if (path.indexOf('.') === -1) {
-      return obj[path];
-    }
-    const keys = path.split('.');
-    let current = obj;
-    for (const key of keys) {
-      if (current === null || current === undefined) {
-        return undefined;
+  private static buildTextCondition(
+    condition: TextCondition,
+    data: Record<string, any>,
+    options: BuildOptions
+  ): Record<string, any> | null {
+    let search = condition.search;
+
+    if (search.startsWith('$')) {
+      const dataKey = search.substring(1);
+      search = getNestedValue(data, dataKey);
+
+      // Skip if the search string is missing or empty
+      if (search === undefined || search === null || search === '') {
+        return null;
       }
-      current = current[key];
+
+      search = this.sanitizeValue(search, Operator.TEXT, dataKey, options).value;
     }
-    return current;
+
+    const text: Record<string, any> = { $search: search };
+    if (condition.language !== undefined) text.$language = condition.language;
+    if (condition.caseSensitive !== undefined) text.$caseSensitive = condition.caseSensitive;
+    if (condition.diacriticSensitive !== undefined) text.$diacriticSensitive = condition.diacriticSensitive;
+
+    return { [Operator.TEXT]: text };
+  }
+
+  /**
+   * Build a $geoWithin or $near condition
+   */
+  private static buildGeoCondition(
+    condition: GeoWithinCondition | NearCondition,
+    data: Record<string, any>,
+    options: BuildOptions
+  ): Record<string, any> | null {
+    const geometry = this.resolveGeoValue(condition.geometry, condition.operator, data, options);
+
+    // Skip if the geometry is missing (optional field)
+    if (geometry === undefined || geometry === null) {
+      return null;
+    }
+
+    const spec: Record<string, any> = { $geometry: geometry };
+
+    if (condition.operator === Operator.NEAR) {
+      const maxDistance = this.resolveGeoValue(condition.maxDistance, '$maxDistance', data, options);
+      const minDistance = this.resolveGeoValue(condition.minDistance, '$minDistance', data, options);
+      if (maxDistance !== undefined && maxDistance !== null) spec.$maxDistance = maxDistance;
+      if (minDistance !== undefined && minDistance !== null) spec.$minDistance = minDistance;
+    }
+
+    return { [condition.field]: { [condition.operator]: spec } };
+  }
+
+  /**
+   * Resolve a geometry or distance, sanitizing values read from data
+   */
+  private static resolveGeoValue(value: any, operator: string, data: Record<string, any>, options: BuildOptions): any {
+    if (typeof value !== 'string' || !value.startsWith('$')) {
+      return value;
+    }
+    const dataKey = value.substring(1);
+    return this.sanitizeValue(getNestedValue(data, dataKey), operator, dataKey, options).value;
   }
 
   /**
@@ -291,6 +1282,54 @@ export class QueryBuilder {
   }
 }
 
+/**
+ * Throw for the first `{ $ref }` condition left in a config, wherever it is
+ * nested, so an unresolved stored config fails before anything is built
+ *
+ * @throws UnresolvedReferenceError
+ */
+function rejectConditionRefs(conditions: QueryCondition[] = [], path = 'conditions'): void {
+  conditions.forEach((condition, i) => rejectConditionRef(condition, `${path}[${i}]`));
+}
+
+function rejectConditionRef(condition: QueryCondition, path: string): void {
+  if ('$ref' in condition) {
+    throw new UnresolvedReferenceError(condition.$ref, path);
+  }
+  if ('conditions' in condition) {
+    rejectConditionRefs(condition.conditions, `${path}.conditions`);
+  }
+  if ('condition' in condition) {
+    rejectConditionRef(condition.condition, `${path}.condition`);
+  }
+  if ('if' in condition) {
+    rejectConditionRef(condition.then, `${path}.then`);
+    if (condition.else) {
+      rejectConditionRef(condition.else, `${path}.else`);
+    }
+  }
+}
+
+// Range bounds that are absent; empty strings come from blank query string parameters
+function isMissingBound(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Lower bound greater than the upper bound, for bounds of the same comparable kind
+function isOutOfOrder(lower: any, upper: any): boolean {
+  if (lower instanceof Date && upper instanceof Date) {
+    return lower.getTime() > upper.getTime();
+  }
+  if (typeof lower === typeof upper && (typeof lower === 'number' || typeof lower === 'string')) {
+    return lower > upper;
+  }
+  // ObjectIds order like their hex strings (timestamp first)
+  if (lower?._bsontype === 'ObjectId' && upper?._bsontype === 'ObjectId') {
+    return lower.toHexString() > upper.toHexString();
+  }
+  return false;
+}
+
 /**
  * Helper function to create field conditions
  */
@@ -302,6 +1341,16 @@ export function field(
   return { field, operator, value };
 }
 
+/**
+ * Helper function to create range conditions (min/max may be `$` references)
+ */
+export function range(field: string, min?: any, max?: any, options: RangeOptions = {}): RangeCondition {
+  const condition: RangeCondition = { field, ...options };
+  if (min !== undefined) condition.min = min;
+  if (max !== undefined) condition.max = max;
+  return condition;
+}
+
 /**
  * Helper function to create AND conditions
  */
@@ -332,13 +1381,105 @@ export function nor(...conditions: QueryCondition[]): LogicalCondition {
   };
 }
 
+/**
+ * Helper function to create $not conditions
+ */
+export function not(condition: QueryCondition): NotCondition {
+  return {
+    operator: Operator.NOT,
+    condition
+  };
+}
+
+/**
+ * Helper function to create $expr conditions
+ */
+export function expr(expression: Record<string, any>): ExprCondition {
+  return {
+    operator: Operator.EXPR,
+    expression
+  };
+}
+
+/**
+ * Helper function to create $text conditions
+ */
+export function text(
+  search: string,
+  options: Pick<TextCondition, 'language' | 'caseSensitive' | 'diacriticSensitive'> = {}
+): TextCondition {
+  return { operator: Operator.TEXT, search, ...options };
+}
+
+/**
+ * Helper function to create $geoWithin conditions
+ */
+export function geoWithin(field: string, geometry: Record<string, any> | string): GeoWithinCondition {
+  return { field, operator: Operator.GEO_WITHIN, geometry };
+}
+
+/**
+ * Helper function to create $near conditions
+ */
+export function near(
+  field: string,
+  geometry: Record<string, any> | string,
+  options: Pick<NearCondition, 'maxDistance' | 'minDistance'> = {}
+): NearCondition {
+  return { field, operator: Operator.NEAR, geometry, ...options };
+}
+
+/**
+ * Helper function to create $mod conditions
+ */
+export function mod(field: string, divisor: number, remainder: number): FieldCondition {
+  return { field, operator: Operator.MOD, value: [divisor, remainder] };
+}
+
+/**
+ * Helper function to create if/else conditions
+ */
+export function ifElse(
+  predicate: ConditionPredicate,
+  then: QueryCondition,
+  otherwise?: QueryCondition
+): ConditionalCondition {
+  const condition: ConditionalCondition = { if: predicate, then };
+  if (otherwise) {
+    condition.else = otherwise;
+  }
+  return condition;
+}
+
 /**
  * Helper function to create date range conditions
  */
 export function dateRange(
   field: string,
   from?: Date | string,
-  to?: Date | string
+  to?: Date | string,
+  options: DateRangeOptions = {}
 ): DateRangeCondition {
-  return { field, from, to };
+  return { field, from, to, ...options };
 }
+
+export * from './pipeline-builder';
+export * from './cursor-pagination';
+export * from './errors';
+export * from './access-policy';
+export * from './sanitization';
+export * from './coercion';
+export * from './parameters';
+export * from './predicates';
+export * from './merge';
+export * from './optimizer';
+export * from './filter-parser';
+export * from './explain';
+export * from './trace';
+export * from './evaluator';
+export * from './config-diff';
+export * from './config-cache';
+export * from './config-store';
+export * from './file-config-store';
+export * from './config-inheritance';
+export * from './date-expressions';
@@ -0,0 +1,254 @@
+/**
+ * Query Configuration Manager Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { QueryConfigManager } from './query-config-manager';
+import { MemoryConfigStore, QueryConfigRevision, StoredQueryConfig } from './config-store';
+import { InMemoryInvalidator } from './config-cache';
+import { ref } from './config-inheritance';
+import { ConfigResolutionError, ConfigVersionConflictError } from './errors';
+import { Operator, field, or } from './query-builder';
+
+/**
+ * A store that does not report changes, like a MongoDB store without
+ * change streams or polling
+ */
+class SilentStore extends MemoryConfigStore {
+  watch(): () => void {
+    return () => undefined;
+  }
+}
+
+const tasks: StoredQueryConfig = {
+  name: 'tasks',
+  staticFilters: { status: 'open' },
+  conditions: [field('priority', Operator.GTE, '$minPriority')]
+};
+
+async function conflictOf(promise: Promise<unknown>): Promise<ConfigVersionConflictError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof ConfigVersionConflictError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a ConfigVersionConflictError');
+}
+
+describe('QueryConfigManager', () => {
+
+  // ============================================================================
+  // Versioning
+  // ============================================================================
+
+  describe('Versioning', () => {
+    it('should number saves and record a revision for each', async () => {
+      const manager = new QueryConfigManager(new MemoryConfigStore());
+
+      expect(await manager.saveConfig({ ...tasks }, { author: 'ana', note: 'First draft' })).toBe(1);
+      const loaded = (await manager.getConfig('tasks'))!;
+      loaded.staticFilters = { status: 'done' };
+      expect(await manager.saveConfig(loaded, { author: 'ben' })).toBe(2);
+
+      const history = await manager.getHistory('tasks');
+      expect(history.map(({ version, author, note }) => ({ version, author, note }))).toEqual([
+        { version: 2, author: 'ben', note: undefined },
+        { version: 1, author: 'ana', note: 'First draft' }
+      ]);
+      expect((await manager.getConfig('tasks', 1))!.staticFilters).toEqual({ status: 'open' });
+      expect((await manager.getConfig('tasks'))!.version).toBe(2);
+    });
+
+    it('should not let changes to loaded or saved configs reach the cache', async () => {
+      const manager = new QueryConfigManager(new MemoryConfigStore());
+      const saved = { ...tasks, staticFilters: { status: 'open' }, conditions: [...tasks.conditions!] };
+      await manager.saveConfig(saved);
+      saved.staticFilters.status = 'changed after saving';
+
+      const loaded = (await manager.getConfig('tasks'))!;
+      loaded.staticFilters!.status = 'changed before saving';
+      loaded.conditions!.push(or());
+      await expect(manager.saveConfig(loaded)).rejects.toThrow();
+
+      expect(await manager.getConfig('tasks')).toMatchObject({ version: 1, staticFilters: { status: 'open' } });
+      expect(await manager.buildQuery('tasks', {})).toEqual({ status: 'open' });
+    });
+
+    it('should diff versions without bookkeeping fields', async () => {
+      const manager = new QueryConfigManager(new MemoryConfigStore());
+      await manager.saveConfig({ ...tasks });
+      await manager.saveConfig({ ...tasks, staticFilters: { status: 'done' }, tags: ['work'] }, { expectedVersion: 1 });
+
+      expect(await manager.diffVersions('tasks', 1, 2)).toEqual([
+        { path: 'staticFilters.status', kind: 'changed', before: 'open', after: 'done' },
+        { path: 'tags', kind: 'added', after: ['work'] }
+      ]);
+    });
+
+    it('should roll back by saving an earlier version as a new one', async () => {
+      const manager = new QueryConfigManager(new MemoryConfigStore());
+      await manager.saveConfig({ ...tasks });
+      await manager.saveConfig({ ...tasks, staticFilters: { status: 'done' } }, { expectedVersion: 1 });
+
+      expect(await manager.rollback('tasks', 1, { author: 'ana' })).toBe(3);
+
+      const [latest] = await manager.getHistory('tasks', { limit: 1 });
+      expect(latest).toMatchObject({ version: 3, author: 'ana', note: 'Rollback to version 1' });
+      expect(await manager.buildQuery('tasks', {})).toEqual({ status: 'open' });
+    });
+  });
+
+  // ============================================================================
+  // Conflicts
+  // ============================================================================
+
+  describe('Conflicts', () => {
+    it('should reject a save based on a stale version and cache the stored one', async () => {
+      const store = new SilentStore();
+      const alice = new QueryConfigManager(store);
+      const bob = new QueryConfigManager(store);
+      await alice.saveConfig({ ...tasks });
+
+      const stale = (await alice.getConfig('tasks'))!;
+      await bob.saveConfig({ ...(await bob.getConfig('tasks'))!, staticFilters: { status: 'done' } });
+      // The store does not report Bob's save, so Alice still has version 1
+      expect((await alice.getConfig('tasks'))!.version).toBe(1);
+
+      const conflict = await conflictOf(alice.saveConfig({ ...stale, staticFilters: { status: 'later' } }));
+
+      expect(conflict).toMatchObject({ configName: 'tasks', expectedVersion: 1, currentVersion: 2 });
+      expect(await alice.getConfig('tasks')).toMatchObject({ version: 2, staticFilters: { status: 'done' } });
+      expect(await alice.buildQuery('tasks', {})).toEqual({ status: 'done' });
+    });
+
+    it('should reject a save when another lands between the check and the write', async () => {
+      class RacingStore extends MemoryConfigStore {
+        raced = false;
+
+        async save(revision: QueryConfigRevision, expectedVersion?: number): Promise<boolean> {
+          if (!this.raced) {
+            this.raced = true;
+            await super.save({ ...revision, config: { ...revision.config, description: 'theirs' } });
+          }
+          return super.save(revision, expectedVersion);
+        }
+      }
+      const store = new RacingStore([{ ...tasks, version: 1 }]);
+      const manager = new QueryConfigManager(store);
+
+      const conflict = await conflictOf(manager.saveConfig({ ...tasks, version: 1, description: 'mine' }));
+
+      expect(conflict).toMatchObject({ expectedVersion: 1, currentVersion: 2 });
+      expect((await manager.getConfig('tasks'))!.description).toBe('theirs');
+      expect((await manager.getHistory('tasks')).map(r => r.config.description)).toEqual(['theirs']);
+    });
+
+    it('should overwrite when the config has no version', async () => {
+      const manager = new QueryConfigManager(new MemoryConfigStore([{ ...tasks, version: 5 }]));
+
+      expect(await manager.saveConfig({ ...tasks, staticFilters: { status: 'done' } })).toBe(6);
+    });
+  });
+
+  // ============================================================================
+  // Invalidation
+  // ============================================================================
+
+  describe('Invalidation', () => {
+    it('should drop cached configs the store reports as changed', async () => {
+      const store = new MemoryConfigStore();
+      const reader = new QueryConfigManager(store);
+      const writer = new QueryConfigManager(store);
+      await writer.saveConfig({ ...tasks });
+      expect(await reader.buildQuery('tasks', {})).toEqual({ status: 'open' });
+
+      await writer.saveConfig({ ...tasks, staticFilters: { status: 'done' } });
+      expect(await reader.buildQuery('tasks', {})).toEqual({ status: 'done' });
+
+      await writer.deleteConfig('tasks');
+      expect(await reader.getConfig('tasks')).toBeNull();
+    });
+
+    it('should share saves and deletes through an invalidator', async () => {
+      const store = new SilentStore();
+      const invalidator = new InMemoryInvalidator();
+      const reader = new QueryConfigManager(store, { invalidator });
+      const writer = new QueryConfigManager(store, { invalidator });
+      const unaware = new QueryConfigManager(store);
+      await writer.saveConfig({ ...tasks });
+      await reader.getConfig('tasks');
+      await unaware.getConfig('tasks');
+
+      await writer.saveConfig({ ...tasks, staticFilters: { status: 'done' } });
+
+      expect((await reader.getConfig('tasks'))!.version).toBe(2);
+      expect((await unaware.getConfig('tasks'))!.version).toBe(1);
+
+      await writer.deleteConfig('tasks');
+      expect(await reader.getConfig('tasks')).toBeNull();
+    });
+
+    it('should stop listening once closed', async () => {
+      const store = new MemoryConfigStore();
+      const reader = new QueryConfigManager(store);
+      const writer = new QueryConfigManager(store);
+      await writer.saveConfig({ ...tasks });
+      await reader.getConfig('tasks');
+
+      reader.close();
+      await writer.saveConfig({ ...tasks, staticFilters: { status: 'done' } });
+
+      expect((await reader.getConfig('tasks'))!.version).toBe(1);
+      reader.clearCache();
+      expect((await reader.getConfig('tasks'))!.version).toBe(2);
+    });
+  });
+
+  // ============================================================================
+  // Inheritance
+  // ============================================================================
+
+  describe('Inheritance', () => {
+    const base: StoredQueryConfig = { name: 'tenant-base', staticFilters: { deleted: false } };
+    const visible: StoredQueryConfig = {
+      name: 'visible-to-user',
+      conditions: [field('ownerId', Operator.EQ, '$userId')]
+    };
+    const orders: StoredQueryConfig = {
+      name: 'orders',
+      extends: 'tenant-base',
+      conditions: [ref('visible-to-user'), field('total', Operator.GTE, '$minTotal')]
+    };
+
+    it('should refuse to save configs whose references do not resolve', async () => {
+      const manager = new QueryConfigManager(new MemoryConfigStore([visible]));
+
+      await expect(manager.saveConfig({ ...orders })).rejects.toThrow(ConfigResolutionError);
+      expect(await manager.getConfig('orders')).toBeNull();
+
+      await manager.saveConfig({ ...base });
+      expect(await manager.saveConfig({ ...orders })).toBe(1);
+    });
+
+    it('should build from the current base and fragments', async () => {
+      const manager = new QueryConfigManager(new MemoryConfigStore([base, visible]));
+      await manager.saveConfig({ ...orders });
+
+      expect(await manager.buildQuery('orders', { userId: 'u-1', minTotal: 10 })).toEqual({
+        deleted: false,
+        $and: [{ ownerId: 'u-1' }, { total: { $gte: 10 } }]
+      });
+
+      await manager.saveConfig({ ...base, staticFilters: { deleted: false, archived: false } });
+      expect(await manager.buildQuery('orders', { userId: 'u-1' })).toEqual({
+        deleted: false,
+        archived: false,
+        ownerId: 'u-1'
+      });
+      expect((await manager.getConfig('orders'))!.conditions).toEqual(orders.conditions);
+    });
+  });
+});
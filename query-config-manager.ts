@@ -1,82 +1,214 @@
 /**
  * Query Configuration Manager
  * 
- * Manages storage and retrieval of query configurations from MongoDB
+ * Manages storage and retrieval of query configurations, in MongoDB or any
+ * other `ConfigStore`
  */
 
-import { MongoClient, Db, Collection } from 'mongodb';
-import { QueryBuilder, QueryConfig } from './query-builder';
-import { validateConfig } from './validation';
+import { MongoClient, Db } from 'mongodb';
+import {
+  QueryBuilder,
+  BuildOptions,
+  FindQuery,
+  ParameterInfo,
+  QueryExplanation,
+  ConfigChange,
+  ConfigVersionConflictError,
+  diffConfigs,
+  ConfigCache,
+  CacheOptions,
+  CacheInvalidator,
+  ConfigChangeEvent,
+  ConfigStore,
+  ConfigListFilter,
+  StoredQueryConfig,
+  QueryConfigRevision,
+  resolveStoredConfig
+} from './query-builder';
+import { MongoConfigStore } from './mongo-config-store';
+import { validateConfig, validateAccessPolicy } from './validation';
+import { cloneValue } from './utils';
 
-export interface StoredQueryConfig extends QueryConfig {
-  name: string;
-  description?: string;
+export type { StoredQueryConfig, QueryConfigRevision };
+
+export interface SaveOptions {
+  author?: string;
+  note?: string;
+  // Version the edit is based on (0 for a new config); defaults to
+  // config.version. The save fails if another version is stored by then.
+  expectedVersion?: number;
+}
+
+export interface ManagerBuildOptions extends BuildOptions {
+  // Use this version of the config instead of the current one
   version?: number;
-  createdAt?: Date;
-  updatedAt?: Date;
-  tags?: string[];
 }
 
+export interface StoredFindQuery extends FindQuery {
+  // The config the query was built from
+  config: StoredQueryConfig;
+}
+
+// Bookkeeping fields left out of diffs
+const METADATA_FIELDS = ['_id', 'version', 'createdAt', 'updatedAt'];
+
 export class QueryConfigManager {
-  private db: Db;
-  private collection: Collection<StoredQueryConfig>;
-  private cache: Map<string, StoredQueryConfig> = new Map();
+  private store: ConfigStore;
+  // Both caches hold copies and hand out copies, so callers changing a
+  // config they got or saved never change a cached one
+  private cache: ConfigCache<StoredQueryConfig>;
+  // Configs with their base and fragments resolved
+  private resolved: ConfigCache<StoredQueryConfig>;
   private cacheEnabled: boolean;
+  private invalidator?: CacheInvalidator;
+  private unsubscribers: Array<() => void> = [];
 
-  constructor(db: Db, collectionName: string = 'queryConfigs', enableCache: boolean = true) {
-    this.db = db;
-    this.collection = this.db.collection<StoredQueryConfig>(collectionName);
-    this.cacheEnabled = enableCache;
+  /**
+   * @param store - Where configs are kept
+   * @param cache - false to disable caching, or TTL, size and invalidation
+   * options. Changes the store reports through `watch` always invalidate;
+   * an invalidator is needed when the store does not see other instances'
+   * changes.
+   */
+  constructor(store: ConfigStore, cache?: boolean | CacheOptions);
+  /**
+   * @param collectionName - Collection for current configs; revisions are
+   * kept in `${collectionName}History`
+   */
+  constructor(db: Db, collectionName?: string, cache?: boolean | CacheOptions);
+  constructor(
+    source: ConfigStore | Db,
+    collectionOrCache?: string | boolean | CacheOptions,
+    cache: boolean | CacheOptions = true
+  ) {
+    if (isDb(source)) {
+      this.store = new MongoConfigStore(source, typeof collectionOrCache === 'string' ? collectionOrCache : undefined);
+    } else {
+      this.store = source;
+      cache = collectionOrCache === undefined ? true : collectionOrCache as boolean | CacheOptions;
+    }
+    this.cacheEnabled = cache !== false;
+
+    const options = typeof cache === 'object' ? cache : {};
+    this.cache = new ConfigCache(options);
+    this.resolved = new ConfigCache(options);
+    if (this.cacheEnabled) {
+      this.unsubscribers.push(this.store.watch(event => this.invalidate(event)));
+      if (options.invalidator) {
+        this.invalidator = options.invalidator;
+        this.unsubscribers.push(options.invalidator.subscribe(event => this.invalidate(event)));
+      }
+    }
   }
 
   /**
-   * Save or update a query configuration
+   * Save a query configuration as a new version
+   *
+   * Every save records an immutable revision with the author and change
+   * note, and sets `version`, `createdAt` and `updatedAt` on the config.
+   *
+   * Saves are compare-and-swap: a config loaded with `getConfig` carries its
+   * `version`, and saving it fails if another version was saved meanwhile.
+   * A config without a version overwrites whatever is stored.
+   *
+   * @returns The new version number
+   * @throws ConfigVersionConflictError if the stored version is not the
+   * expected one; the cache then holds the stored config
    */
-  async saveConfig(config: StoredQueryConfig): Promise<void> {
+  async saveConfig(config: StoredQueryConfig, options: SaveOptions = {}): Promise<number> {
     if (!config.name) {
       throw new Error('Configuration name is required');
     }
 
-    // Validate config before saving
-    validateConfig(config);
-
-    const now = new Date();
-    config.updatedAt = now;
+    // Validate config, with its base and fragments resolved, before saving
+    await this.resolve(config);
 
-    if (!config.createdAt) {
-      config.createdAt = now;
-    }
+    const { name } = config;
+    const expectedVersion = options.expectedVersion ?? config.version;
 
     try {
-      await this.collection.updateOne(
-        { name: config.name },
-        { $set: config },
-        { upsert: true }
-      );
+      const [current, [latest]] = await Promise.all([
+        this.store.get(name),
+        this.store.history(name, { limit: 1 })
+      ]);
+
+      if (expectedVersion !== undefined && (current?.version ?? 0) !== expectedVersion) {
+        throw this.versionConflict(name, expectedVersion, current);
+      }
+
+      const now = new Date();
+      const snapshot: StoredQueryConfig = {
+        ...stripId(config),
+        version: Math.max(current?.version ?? 0, latest?.version ?? 0) + 1,
+        createdAt: current?.createdAt ?? config.createdAt ?? now,
+        updatedAt: now
+      };
+
+      const written = await this.store.save({
+        name,
+        version: snapshot.version!,
+        config: snapshot,
+        ...(options.author !== undefined && { author: options.author }),
+        ...(options.note !== undefined && { note: options.note }),
+        createdAt: now
+      }, expectedVersion);
+      if (!written) {
+        // Someone else saved between the read above and the write
+        throw this.versionConflict(name, expectedVersion!, await this.store.get(name));
+      }
+
+      config.version = snapshot.version;
+      config.createdAt = snapshot.createdAt;
+      config.updatedAt = now;
 
       // Update cache
       if (this.cacheEnabled) {
-        this.cache.set(config.name, config);
+        this.cache.set(name, cloneValue(snapshot));
       }
+      this.resolved.clear();
+      this.invalidator?.publish?.({ type: 'saved', name, version: snapshot.version });
+
+      return snapshot.version!;
     } catch (error) {
-      throw new Error(`Failed to save configuration '${config.name}': ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof ConfigVersionConflictError) {
+        throw error;
+      }
+      // The stored config is unknown after a failed write
+      this.cache.delete(name);
+      this.resolved.clear();
+      throw new Error(`Failed to save configuration '${name}': ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Create the indexes saves rely on: unique config names and unique
+   * revision numbers per config
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.store.ensureIndexes?.();
+  }
+
   /**
    * Get a query configuration by name
+   *
+   * @param version - Return this version instead of the current one
    */
-  async getConfig(name: string): Promise<StoredQueryConfig | null> {
+  async getConfig(name: string, version?: number): Promise<StoredQueryConfig | null> {
+    if (version !== undefined) {
+      return this.getConfigVersion(name, version);
+    }
+
     // Check cache first
-    if (this.cacheEnabled && this.cache.has(name)) {
-      return this.cache.get(name)!;
+    const cached = this.cacheEnabled ? this.cache.get(name) : undefined;
+    if (cached) {
+      return cloneValue(cached);
     }
 
     try {
-      const config = await this.collection.findOne({ name });
+      const config = await this.store.get(name);
 
       if (config && this.cacheEnabled) {
-        this.cache.set(name, config);
+        this.cache.set(name, cloneValue(config));
       }
 
       return config;
@@ -86,30 +218,132 @@ export class QueryConfigManager {
   }
 
   /**
-   * Build a query using a stored configuration
+   * Get a configuration with its `extends` base and `$ref` fragments
+   * resolved into one validated config, as buildQuery uses it
+   *
+   * Bases and fragments are always their current versions. Resolved
+   * configs are cached until any config changes.
+   *
+   * @param version - Resolve this version instead of the current one
+   * @throws ConfigResolutionError for missing references and cycles
    */
-  async buildQuery(configName: string, data: Record<string, any>): Promise<Record<string, any>> {
-    const config = await this.getConfig(configName);
+  async resolveConfig(name: string, version?: number): Promise<StoredQueryConfig> {
+    const cacheable = this.cacheEnabled && version === undefined;
+    const cached = cacheable ? this.resolved.get(name) : undefined;
+    if (cached) {
+      return cloneValue(cached);
+    }
 
-    if (!config) {
-      throw new Error(`Query configuration '${configName}' not found`);
+    const resolved = await this.resolve(await this.requireConfig(name, version));
+    if (cacheable) {
+      this.resolved.set(name, cloneValue(resolved));
     }
+    return resolved;
+  }
 
-    return QueryBuilder.build(config, data);
+  /**
+   * List the revisions of a configuration, newest first
+   */
+  async getHistory(name: string, options: { limit?: number } = {}): Promise<QueryConfigRevision[]> {
+    try {
+      return await this.store.history(name, options);
+    } catch (error) {
+      throw new Error(`Failed to retrieve history of configuration '${name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   /**
-   * List all configurations
+   * List what changed in a configuration from one version to another
    */
-  async listConfigs(filter?: { tags?: string[] }): Promise<StoredQueryConfig[]> {
-    const query: any = {};
+  async diffVersions(name: string, fromVersion: number, toVersion: number): Promise<ConfigChange[]> {
+    const [from, to] = await Promise.all([
+      this.requireConfig(name, fromVersion),
+      this.requireConfig(name, toVersion)
+    ]);
 
-    if (filter?.tags && filter.tags.length > 0) {
-      query.tags = { $in: filter.tags };
-    }
+    return diffConfigs(from, to, { ignore: METADATA_FIELDS });
+  }
+
+  /**
+   * Restore an earlier version by saving it as a new version
+   *
+   * @returns The new version number
+   */
+  async rollback(name: string, version: number, options: SaveOptions = {}): Promise<number> {
+    const config = await this.requireConfig(name, version);
+
+    return this.saveConfig(
+      { ...config, version: undefined, createdAt: undefined, updatedAt: undefined },
+      { ...options, note: options.note ?? `Rollback to version ${version}` }
+    );
+  }
+
+  /**
+   * Build a query using a stored configuration
+   *
+   * The stored policy is enforced; a policy passed in `options` takes precedence.
+   * Pass `options.version` to build from a pinned version.
+   */
+  async buildQuery(
+    configName: string,
+    data: Record<string, any>,
+    options: ManagerBuildOptions = {}
+  ): Promise<Record<string, any>> {
+    const { version, ...buildOptions } = options;
+    const config = await this.resolveConfig(configName, version);
+
+    return QueryBuilder.build(config, data, { policy: config.policy, ...buildOptions });
+  }
+
+  /**
+   * Build a filter together with find options (sort, projection, limit,
+   * skip) using a stored configuration
+   *
+   * The stored policy is enforced; a policy passed in `options` takes precedence.
+   * Pass `options.version` to build from a pinned version.
+   */
+  async buildFindQuery(
+    configName: string,
+    data: Record<string, any>,
+    options: ManagerBuildOptions = {}
+  ): Promise<StoredFindQuery> {
+    const { version, ...buildOptions } = options;
+    const config = await this.resolveConfig(configName, version);
+
+    return { ...QueryBuilder.buildFindOptions(config, data, { policy: config.policy, ...buildOptions }), config };
+  }
+
+  /**
+   * Explain which parts of a stored configuration apply to the given data
+   *
+   * The stored policy is enforced; a policy passed in `options` takes precedence.
+   */
+  async explainQuery(
+    configName: string,
+    data: Record<string, any>,
+    options: ManagerBuildOptions = {}
+  ): Promise<QueryExplanation> {
+    const { version, ...buildOptions } = options;
+    const config = await this.resolveConfig(configName, version);
+
+    return QueryBuilder.explain(config, data, { policy: config.policy, ...buildOptions });
+  }
 
+  /**
+   * List the input parameters of a stored configuration
+   */
+  async getParameters(configName: string): Promise<ParameterInfo[]> {
+    const config = await this.resolveConfig(configName);
+
+    return QueryBuilder.getParameters(config);
+  }
+
+  /**
+   * List all configurations
+   */
+  async listConfigs(filter?: ConfigListFilter): Promise<StoredQueryConfig[]> {
     try {
-      return await this.collection.find(query).toArray();
+      return await this.store.list(filter);
     } catch (error) {
       throw new Error(`Failed to list configurations: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -117,16 +351,22 @@ export class QueryConfigManager {
 
   /**
    * Delete a configuration
+   *
+   * Its revisions are kept; saving the name again continues the numbering.
    */
   async deleteConfig(name: string): Promise<boolean> {
     try {
-      const result = await this.collection.deleteOne({ name });
+      const deleted = await this.store.delete(name);
 
       if (this.cacheEnabled) {
         this.cache.delete(name);
       }
+      this.resolved.clear();
+      if (deleted) {
+        this.invalidator?.publish?.({ type: 'deleted', name });
+      }
 
-      return result.deletedCount > 0;
+      return deleted;
     } catch (error) {
       throw new Error(`Failed to delete configuration '${name}': ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -137,6 +377,15 @@ export class QueryConfigManager {
    */
   clearCache(): void {
     this.cache.clear();
+    this.resolved.clear();
+  }
+
+  /**
+   * Stop listening for changes from other instances
+   */
+  close(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
   }
 
   /**
@@ -146,14 +395,112 @@ export class QueryConfigManager {
     if (!this.cacheEnabled) return;
 
     try {
-      const configs = await this.collection.find({}).toArray();
-      this.cache.clear(); // Clear existing cache before reloading
+      const configs = await this.store.list();
+      this.clearCache(); // Clear existing cache before reloading
       configs.forEach((config: StoredQueryConfig) => {
-        this.cache.set(config.name, config);
+        this.cache.set(config.name, cloneValue(config));
       });
     } catch (error) {
       // Log error but don't fail, as this is an optimization
       console.error(`Failed to preload cache: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+
+  /**
+   * Drop cache entries another instance changed. A save this instance
+   * already cached (same version) is kept.
+   */
+  private invalidate(event: ConfigChangeEvent): void {
+    // Any config may be the base or a fragment of a resolved one
+    this.resolved.clear();
+    if (event.type === 'reset') {
+      this.cache.clear();
+      return;
+    }
+    if (event.type === 'saved' && event.version !== undefined && this.cache.get(event.name)?.version === event.version) {
+      return;
+    }
+    this.cache.delete(event.name);
+  }
+
+  /**
+   * Build the conflict error for a stale save and refresh the cache with
+   * the stored config, so later reads see what the server has
+   */
+  private versionConflict(
+    name: string,
+    expectedVersion: number,
+    current: StoredQueryConfig | null
+  ): ConfigVersionConflictError {
+    if (this.cacheEnabled) {
+      if (current) {
+        this.cache.set(name, cloneValue(current));
+      } else {
+        this.cache.delete(name);
+      }
+    }
+    this.resolved.clear();
+    return new ConfigVersionConflictError(name, expectedVersion, current ? current.version ?? 0 : null);
+  }
+
+  /**
+   * Resolve a config's base and fragments, and validate the result. Stored
+   * configs are validated again here, as they may have been written without
+   * going through saveConfig (e.g. a hand-edited file).
+   */
+  private async resolve(config: StoredQueryConfig): Promise<StoredQueryConfig> {
+    const resolved = await resolveStoredConfig(config, name => this.getConfig(name));
+
+    validateConfig(resolved);
+    if (resolved.policy) {
+      validateAccessPolicy(resolved.policy);
+    }
+    return resolved;
+  }
+
+  /**
+   * Get a configuration by name, failing if it does not exist
+   */
+  private async requireConfig(name: string, version?: number): Promise<StoredQueryConfig> {
+    const config = await this.getConfig(name, version);
+
+    if (!config) {
+      throw new Error(version === undefined
+        ? `Query configuration '${name}' not found`
+        : `Query configuration '${name}' version ${version} not found`);
+    }
+
+    return config;
+  }
+
+  /**
+   * Get one version of a configuration from its revisions
+   */
+  private async getConfigVersion(name: string, version: number): Promise<StoredQueryConfig | null> {
+    try {
+      const [revision] = await this.store.history(name, { version });
+      if (revision) {
+        return revision.config;
+      }
+
+      // Configs saved before revisions were recorded only have their current version
+      const current = await this.getConfig(name);
+      return current?.version === version ? current : null;
+    } catch (error) {
+      throw new Error(`Failed to retrieve configuration '${name}' version ${version}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Copy a config without the MongoDB _id, so it can be stored elsewhere
+ */
+function stripId(config: StoredQueryConfig): StoredQueryConfig {
+  const copy: StoredQueryConfig & { _id?: unknown } = { ...config };
+  delete copy._id;
+  return copy;
+}
+
+function isDb(source: ConfigStore | Db): source is Db {
+  return typeof (source as Db).collection === 'function';
 }
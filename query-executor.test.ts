@@ -0,0 +1,124 @@
+/**
+ * Query Executor Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Collection, Db } from 'mongodb';
+import { QueryExecutor } from './query-executor';
+import { QueryConfigManager } from './query-config-manager';
+import { MemoryConfigStore, StoredQueryConfig } from './config-store';
+import { Operator, field } from './query-builder';
+
+interface Call {
+  method: string;
+  args: any[];
+}
+
+/**
+ * A collection that records its calls and answers with fixed documents
+ */
+function stubCollection(documents: Record<string, any>[] = []): { collection: Collection; calls: Call[] } {
+  const calls: Call[] = [];
+  const record = (method: string, result: unknown) => (...args: any[]) => {
+    calls.push({ method, args });
+    return result;
+  };
+  const collection = {
+    find: record('find', { toArray: async () => documents }),
+    findOne: record('findOne', Promise.resolve(documents[0] ?? null)),
+    countDocuments: record('countDocuments', Promise.resolve(documents.length)),
+    distinct: record('distinct', Promise.resolve(documents.map(document => document.status)))
+  };
+  return { collection: collection as unknown as Collection, calls };
+}
+
+const tasks: StoredQueryConfig = {
+  name: 'tasks',
+  collection: 'tasks',
+  staticFilters: { deleted: false },
+  conditions: [field('priority', Operator.GTE, '$minPriority')],
+  sort: { value: '$sortBy', default: { createdAt: -1 } },
+  projection: { value: { title: 1 } },
+  limit: { value: '$pageSize', default: 20, max: 100 },
+  skip: { value: '$offset' }
+};
+
+function executorFor(collection: Collection, config: StoredQueryConfig = tasks): QueryExecutor {
+  const manager = new QueryConfigManager(new MemoryConfigStore([config]));
+  const db = { collection: (name: string) => (name === 'tasks' ? collection : undefined) } as unknown as Db;
+  return new QueryExecutor(manager, db);
+}
+
+describe('QueryExecutor', () => {
+  it('should find with the built filter and the config\'s find options', async () => {
+    const { collection, calls } = stubCollection([{ _id: 1, title: 'Ship it' }]);
+
+    const documents = await executorFor(collection).find('tasks', { minPriority: 3, pageSize: 500, offset: 40 });
+
+    expect(documents).toEqual([{ _id: 1, title: 'Ship it' }]);
+    expect(calls).toEqual([{
+      method: 'find',
+      args: [
+        { deleted: false, priority: { $gte: 3 } },
+        { sort: { createdAt: -1 }, projection: { title: 1 }, limit: 100, skip: 40 }
+      ]
+    }]);
+  });
+
+  it('should find one document without the limit', async () => {
+    const { collection, calls } = stubCollection([{ _id: 1 }]);
+
+    expect(await executorFor(collection).findOne('tasks', { offset: 5 })).toEqual({ _id: 1 });
+    expect(calls[0].args).toEqual([
+      { deleted: false },
+      { sort: { createdAt: -1 }, projection: { title: 1 }, skip: 5 }
+    ]);
+  });
+
+  it('should count what find would return', async () => {
+    const { collection, calls } = stubCollection([{ _id: 1 }, { _id: 2 }]);
+
+    expect(await executorFor(collection).count('tasks', { minPriority: 2, pageSize: 10 })).toBe(2);
+    expect(calls).toEqual([{
+      method: 'countDocuments',
+      args: [{ deleted: false, priority: { $gte: 2 } }, { limit: 10, skip: undefined }]
+    }]);
+  });
+
+  it('should list distinct values among the matching documents', async () => {
+    const { collection, calls } = stubCollection([{ status: 'open' }, { status: 'done' }]);
+
+    expect(await executorFor(collection).distinct('tasks', 'status', { minPriority: 1 })).toEqual(['open', 'done']);
+    expect(calls).toEqual([{
+      method: 'distinct',
+      args: ['status', { deleted: false, priority: { $gte: 1 } }]
+    }]);
+  });
+
+  it('should check whether any document matches', async () => {
+    const { collection, calls } = stubCollection();
+
+    expect(await executorFor(collection).exists('tasks')).toBe(false);
+    expect(calls[0].args[1]).toEqual({ projection: { _id: 1 } });
+  });
+
+  it('should prefer the collection passed in the options', async () => {
+    const { collection: configured, calls: configuredCalls } = stubCollection();
+    const { collection: passed, calls: passedCalls } = stubCollection();
+
+    await executorFor(configured).count('tasks', {}, { collection: passed });
+
+    expect(configuredCalls).toHaveLength(0);
+    expect(passedCalls).toHaveLength(1);
+  });
+
+  it('should need a collection and a Db to resolve its name', async () => {
+    const { collection } = stubCollection();
+    const manager = new QueryConfigManager(new MemoryConfigStore([{ ...tasks, collection: undefined }]));
+
+    await expect(executorFor(collection, { ...tasks, collection: undefined }).find('tasks'))
+      .rejects.toThrow("Query configuration 'tasks' has no collection; pass options.collection");
+    await expect(new QueryExecutor(manager).find('tasks', {}, { collection: 'tasks' }))
+      .rejects.toThrow("QueryExecutor needs a Db to resolve collection 'tasks'");
+  });
+});
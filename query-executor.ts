@@ -0,0 +1,126 @@
+/**
+ * Query Executor
+ *
+ * Runs stored configs against MongoDB collections: builds the filter and
+ * find options with `QueryConfigManager.buildFindQuery` and calls the
+ * collection, so services do not repeat the build-then-find code.
+ */
+
+import { Db, Collection, Document, Filter, Flatten, WithId } from 'mongodb';
+import { QueryConfigManager, ManagerBuildOptions, StoredFindQuery } from './query-config-manager';
+
+export interface ExecuteOptions<T extends Document = Document> extends ManagerBuildOptions {
+  // Collection (or collection name) to query; defaults to the config's `collection`
+  collection?: Collection<T> | string;
+}
+
+/**
+ * Executes stored configs
+ *
+ * The config's sort, projection, limit and skip are applied the same way
+ * as `buildFindOptions`, and the stored access policy is enforced.
+ */
+export class QueryExecutor {
+  /**
+   * @param db - Resolves collection names; not needed when every call
+   * passes a `Collection`
+   */
+  constructor(private readonly manager: QueryConfigManager, private readonly db?: Db) {}
+
+  /**
+   * Find the matching documents, with the config's sort, projection, limit and skip
+   */
+  async find<T extends Document = Document>(
+    configName: string,
+    data: Record<string, any> = {},
+    options: ExecuteOptions<T> = {}
+  ): Promise<WithId<T>[]> {
+    const { collection, query } = await this.prepare(configName, data, options);
+
+    return collection.find(query.filter as Filter<T>, query.options).toArray();
+  }
+
+  /**
+   * Find the first matching document, with the config's sort, projection and skip
+   */
+  async findOne<T extends Document = Document>(
+    configName: string,
+    data: Record<string, any> = {},
+    options: ExecuteOptions<T> = {}
+  ): Promise<WithId<T> | null> {
+    const { collection, query } = await this.prepare(configName, data, options);
+    const { sort, projection, skip } = query.options;
+
+    return collection.findOne(query.filter as Filter<T>, { sort, projection, skip });
+  }
+
+  /**
+   * Count the matching documents find would return, with the config's
+   * limit and skip
+   */
+  async count<T extends Document = Document>(
+    configName: string,
+    data: Record<string, any> = {},
+    options: ExecuteOptions<T> = {}
+  ): Promise<number> {
+    const { collection, query } = await this.prepare(configName, data, options);
+    const { limit, skip } = query.options;
+
+    return collection.countDocuments(query.filter as Filter<T>, { limit, skip });
+  }
+
+  /**
+   * List the distinct values of a field among the matching documents
+   */
+  async distinct<T extends Document = Document, K extends keyof WithId<T> & string = keyof WithId<T> & string>(
+    configName: string,
+    key: K,
+    data: Record<string, any> = {},
+    options: ExecuteOptions<T> = {}
+  ): Promise<Array<Flatten<WithId<T>[K]>>> {
+    const { collection, query } = await this.prepare(configName, data, options);
+
+    return collection.distinct(key, query.filter as Filter<T>);
+  }
+
+  /**
+   * Check whether any document matches
+   */
+  async exists<T extends Document = Document>(
+    configName: string,
+    data: Record<string, any> = {},
+    options: ExecuteOptions<T> = {}
+  ): Promise<boolean> {
+    const { collection, query } = await this.prepare(configName, data, options);
+
+    const match = await collection.findOne(query.filter as Filter<T>, { projection: { _id: 1 } });
+    return match !== null;
+  }
+
+  private async prepare<T extends Document>(
+    configName: string,
+    data: Record<string, any>,
+    options: ExecuteOptions<T>
+  ): Promise<{ collection: Collection<T>; query: StoredFindQuery }> {
+    const { collection, ...buildOptions } = options;
+    const query = await this.manager.buildFindQuery(configName, data, buildOptions);
+
+    return { collection: this.resolveCollection(collection ?? query.config.collection, configName), query };
+  }
+
+  private resolveCollection<T extends Document>(
+    collection: Collection<T> | string | undefined,
+    configName: string
+  ): Collection<T> {
+    if (collection === undefined) {
+      throw new Error(`Query configuration '${configName}' has no collection; pass options.collection`);
+    }
+    if (typeof collection !== 'string') {
+      return collection;
+    }
+    if (!this.db) {
+      throw new Error(`QueryExecutor needs a Db to resolve collection '${collection}'`);
+    }
+    return this.db.collection<T>(collection);
+  }
+}
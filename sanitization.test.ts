@@ -0,0 +1,185 @@
+/**
+ * Sanitization Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { escapeRegex } from './sanitization';
+import { UnsafeValueError } from './errors';
+import { QueryBuilder, QueryConfig, Operator, field, or, geoWithin, near } from './query-builder';
+
+describe('Sanitization', () => {
+
+  // ============================================================================
+  // Operator Keys
+  // ============================================================================
+
+  describe('Operator Keys', () => {
+    const config: QueryConfig = {
+      fieldMappings: { ownerId: 'ownerId' },
+      dateRanges: [{ field: 'createdAt' }],
+      conditions: [field('status', Operator.EQ, '$status')]
+    };
+
+    it('should insert operator objects verbatim when sanitize is off', () => {
+      const query = QueryBuilder.build(config, { status: { $ne: null } });
+
+      expect(query.status).toEqual({ $ne: null });
+    });
+
+    it('should reject operator keys in conditions, field mappings and date ranges', () => {
+      const options = { sanitize: true };
+
+      expect(() => QueryBuilder.build(config, { status: { $ne: null } }, options))
+        .toThrow(UnsafeValueError);
+      expect(() => QueryBuilder.build(config, { ownerId: { $gt: '' } }, options))
+        .toThrow("Unsafe value for 'ownerId': value contains operator keys");
+      expect(() => QueryBuilder.build(config, { createdAt: { from: { $exists: true } } }, options))
+        .toThrow("Unsafe value for 'createdAt.from'");
+    });
+
+    it('should reject operator keys nested inside arrays', () => {
+      const inConfig: QueryConfig = {
+        conditions: [field('status', Operator.IN, '$statuses')]
+      };
+
+      expect(() =>
+        QueryBuilder.build(inConfig, { statuses: ['open', { $gt: '' }] }, { sanitize: true })
+      ).toThrow(UnsafeValueError);
+    });
+
+    it('should match operator objects literally in escape mode', () => {
+      const options = { sanitize: { operatorKeys: 'escape' as const } };
+
+      const query = QueryBuilder.build(
+        config,
+        { status: { $ne: null }, ownerId: { $gt: '' } },
+        options
+      );
+
+      expect(query).toEqual({
+        ownerId: { $eq: { $gt: '' } },
+        status: { $eq: { $ne: null } }
+      });
+    });
+
+    it('should reject operator keys for expression operators even in escape mode', () => {
+      const elemConfig: QueryConfig = {
+        conditions: [field('items', Operator.ELEM_MATCH, '$item')]
+      };
+
+      expect(() =>
+        QueryBuilder.build(elemConfig, { item: { sku: { $where: '1' } } }, {
+          sanitize: { operatorKeys: 'escape' }
+        })
+      ).toThrow(UnsafeValueError);
+    });
+
+    it('should check geometries and distances read from data', () => {
+      const geoConfig: QueryConfig = {
+        conditions: [
+          geoWithin('area', '$area'),
+          near('location', '$point', { maxDistance: '$radius', minDistance: '$inner' })
+        ]
+      };
+      const point = { type: 'Point', coordinates: [2.35, 48.85] };
+
+      expect(QueryBuilder.build(geoConfig, { point, radius: 500 }, { sanitize: true })).toEqual({
+        location: { $near: { $geometry: point, $maxDistance: 500 } }
+      });
+      for (const data of [
+        { area: { type: 'Polygon', coordinates: { $where: '1' } } },
+        { point, radius: { $gt: 0 } },
+        { point, inner: { $function: {} } }
+      ]) {
+        expect(() => QueryBuilder.build(geoConfig, data, { sanitize: { operatorKeys: 'escape' } }))
+          .toThrow(UnsafeValueError);
+      }
+    });
+
+    it('should leave static config values untouched', () => {
+      const staticConfig: QueryConfig = {
+        conditions: [field('deletedAt', Operator.EQ, { $exists: false })]
+      };
+
+      expect(QueryBuilder.build(staticConfig, {}, { sanitize: true })).toEqual({
+        deletedAt: { $exists: false }
+      });
+    });
+  });
+
+  // ============================================================================
+  // Regex
+  // ============================================================================
+
+  describe('Regex', () => {
+    it('should escape regex metacharacters in data values', () => {
+      const config: QueryConfig = {
+        conditions: [field('name', Operator.REGEX, '$search')]
+      };
+
+      const query = QueryBuilder.build(config, { search: 'a.*(b)' }, { sanitize: true });
+
+      expect(query.name).toEqual({ $regex: 'a\\.\\*\\(b\\)' });
+    });
+
+    it('should keep patterns when the condition opts in', () => {
+      const config: QueryConfig = {
+        conditions: [{ ...field('name', Operator.REGEX, '$search'), allowRegex: true }]
+      };
+
+      const query = QueryBuilder.build(config, { search: '^acme.*' }, { sanitize: true });
+
+      expect(query.name).toEqual({ $regex: '^acme.*' });
+    });
+
+    it('should keep patterns when regex escaping is disabled', () => {
+      const config: QueryConfig = {
+        conditions: [field('name', Operator.REGEX, '$search')]
+      };
+
+      const query = QueryBuilder.build(config, { search: '^acme' }, {
+        sanitize: { escapeRegex: false }
+      });
+
+      expect(query.name).toEqual({ $regex: '^acme' });
+    });
+
+    it('should escape every metacharacter', () => {
+      const special = '.*+?^${}()|[]\\';
+
+      expect(new RegExp(`^${escapeRegex(special)}$`).test(special)).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // Array Length
+  // ============================================================================
+
+  describe('Array Length', () => {
+    const config: QueryConfig = {
+      conditions: [
+        or(
+          field('tags', Operator.IN, '$tags'),
+          field('tags', Operator.NIN, '$excluded')
+        )
+      ]
+    };
+
+    it('should cap $in and $nin arrays', () => {
+      const options = { sanitize: { maxArrayLength: 3 } };
+
+      expect(() => QueryBuilder.build(config, { tags: ['a', 'b', 'c'] }, options)).not.toThrow();
+      expect(() => QueryBuilder.build(config, { tags: ['a', 'b', 'c', 'd'] }, options))
+        .toThrow("Unsafe value for 'tags': array has 4 elements, more than the allowed 3");
+      expect(() => QueryBuilder.build(config, { excluded: ['a', 'b', 'c', 'd'] }, options))
+        .toThrow(UnsafeValueError);
+    });
+
+    it('should apply the default cap when sanitize is enabled', () => {
+      const tags = Array.from({ length: 1001 }, (_, i) => `tag-${i}`);
+
+      expect(() => QueryBuilder.build(config, { tags })).not.toThrow();
+      expect(() => QueryBuilder.build(config, { tags }, { sanitize: true })).toThrow(UnsafeValueError);
+    });
+  });
+});
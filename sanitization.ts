@@ -0,0 +1,113 @@
+/**
+ * Sanitization of User-Supplied Values
+ *
+ * Values resolved from input data are inserted into the query as-is, so an
+ * object like `{ "$ne": null }` from a request body would change what the
+ * query means. In sanitize mode those values are checked before use.
+ */
+
+import { UnsafeValueError } from './errors';
+
+export interface SanitizeOptions {
+  // What to do with `$`-prefixed keys inside data values:
+  // 'reject' throws, 'escape' keeps the value but matches it literally (via $eq).
+  // Defaults to 'reject'.
+  operatorKeys?: 'reject' | 'escape';
+
+  // Escape regex metacharacters in data values used with $regex, unless the
+  // condition sets `allowRegex`. Defaults to true.
+  escapeRegex?: boolean;
+
+  // Maximum array length for $in, $nin and $all. Defaults to 1000.
+  maxArrayLength?: number;
+}
+
+export interface SanitizedValue {
+  value: any;
+  // The value must be matched literally, i.e. emitted as `{ $eq: value }`
+  literal: boolean;
+}
+
+export const DEFAULT_MAX_ARRAY_LENGTH = 1000;
+
+// Operators whose operand is itself interpreted as a query expression
+const EXPRESSION_OPERATORS = ['$elemMatch', '$not', '$and', '$or', '$nor', '$expr'];
+
+// Geospatial operands, which have no literal form to escape to
+const GEO_OPERATORS = ['$geoWithin', '$near', '$maxDistance', '$minDistance'];
+
+const ARRAY_OPERATORS = ['$in', '$nin', '$all'];
+
+/**
+ * Normalize the `sanitize` build option into a full options object
+ */
+export function resolveSanitizeOptions(
+  sanitize?: boolean | SanitizeOptions
+): Required<SanitizeOptions> | null {
+  if (!sanitize) return null;
+  const options = sanitize === true ? {} : sanitize;
+  return {
+    operatorKeys: options.operatorKeys ?? 'reject',
+    escapeRegex: options.escapeRegex ?? true,
+    maxArrayLength: options.maxArrayLength ?? DEFAULT_MAX_ARRAY_LENGTH
+  };
+}
+
+/**
+ * Check a value resolved from input data before it is used with `operator`
+ *
+ * @param value - Value resolved from the input data
+ * @param operator - Operator the value is used with ('$eq' for plain equality)
+ * @param dataPath - Data path the value came from (used in errors)
+ * @param options - Resolved sanitize options
+ * @param allowRegex - Whether the condition opted in to raw regex patterns
+ * @throws UnsafeValueError if the value cannot be used safely
+ */
+export function sanitizeDataValue(
+  value: any,
+  operator: string,
+  dataPath: string,
+  options: Required<SanitizeOptions>,
+  allowRegex = false
+): SanitizedValue {
+  let literal = false;
+
+  if (hasOperatorKeys(value)) {
+    if (options.operatorKeys === 'reject' || EXPRESSION_OPERATORS.includes(operator) || GEO_OPERATORS.includes(operator)) {
+      throw new UnsafeValueError(dataPath, 'value contains operator keys');
+    }
+    // Only plain equality treats an object as an operator expression
+    literal = operator === '$eq';
+  }
+
+  if (ARRAY_OPERATORS.includes(operator) && Array.isArray(value) &&
+    value.length > options.maxArrayLength) {
+    throw new UnsafeValueError(
+      dataPath,
+      `array has ${value.length} elements, more than the allowed ${options.maxArrayLength}`
+    );
+  }
+
+  if (operator === '$regex' && typeof value === 'string' && options.escapeRegex && !allowRegex) {
+    return { value: escapeRegex(value), literal };
+  }
+
+  return { value, literal };
+}
+
+/**
+ * Escape regex metacharacters so a string matches literally
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function hasOperatorKeys(value: any): boolean {
+  if (Array.isArray(value)) {
+    return value.some(hasOperatorKeys);
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return false;
+  }
+  return Object.keys(value).some(key => key.startsWith('$') || hasOperatorKeys(value[key]));
+}
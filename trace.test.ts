@@ -0,0 +1,221 @@
+/**
+ * Build Tracing Test Suite
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PolicyViolationError } from './errors';
+import {
+  QueryBuilder,
+  QueryConfig,
+  Operator,
+  TraceRecorder,
+  REDACTED,
+  field,
+  or,
+  not,
+  ifElse,
+  range
+} from './query-builder';
+
+describe('Build Tracing', () => {
+  const config: QueryConfig = {
+    staticFilters: { deleted: false },
+    fieldMappings: { customerId: 'customer.id', region: 'region' },
+    dateRanges: [{ field: 'createdAt' }],
+    conditions: [
+      field('priority', Operator.GTE, '$minPriority'),
+      or(field('ownerId', Operator.EQ, '$userId'), field('shared', Operator.EQ, true)),
+      { ...field('verified', Operator.EQ, true), when: { path: 'mode', equals: 'strict' } },
+      ifElse('mine', field('ownerId', Operator.EQ, '$userId'))
+    ]
+  };
+  const data = { customer: { id: 'c-1' }, userId: 'u-1', createdAt: { from: new Date('2025-01-01') } };
+
+  // ============================================================================
+  // Entries
+  // ============================================================================
+
+  describe('Entries', () => {
+    it('should return the built filter', () => {
+      expect(QueryBuilder.buildWithTrace(config, data).filter).toEqual(QueryBuilder.build(config, data));
+    });
+
+    it('should list every part with its path, parents before children', () => {
+      const { trace } = QueryBuilder.buildWithTrace(config, data);
+
+      expect(trace.entries.map(entry => [entry.path, entry.included, entry.reason])).toEqual([
+        ['staticFilters.deleted', true, undefined],
+        ['fieldMappings.customerId', true, undefined],
+        ['fieldMappings.region', false, '$region is missing'],
+        ['dateRanges[0]', true, undefined],
+        ['conditions[0]', false, '$minPriority is missing'],
+        ['conditions[1]', true, undefined],
+        ['conditions[1].conditions[0]', true, undefined],
+        ['conditions[1].conditions[1]', true, undefined],
+        ['conditions[2]', false, 'when rule on $mode did not hold'],
+        ['conditions[3]', false, 'the predicate did not hold and there is no else branch']
+      ]);
+    });
+
+    it('should record the data path and resolved value', () => {
+      const { trace } = QueryBuilder.buildWithTrace(config, data);
+
+      expect(trace.entries[1]).toEqual({
+        path: 'fieldMappings.customerId',
+        kind: 'fieldMapping',
+        field: 'customerId',
+        dataPath: 'customer.id',
+        value: 'c-1',
+        included: true
+      });
+      expect(trace.entries[6]).toEqual({
+        path: 'conditions[1].conditions[0]',
+        kind: 'field',
+        field: 'ownerId',
+        dataPath: 'userId',
+        value: 'u-1',
+        included: true
+      });
+      expect(trace.entries[3].value).toEqual({ from: new Date('2025-01-01'), to: undefined });
+    });
+
+    it('should record the resolved bounds of range conditions', () => {
+      const { trace } = QueryBuilder.buildWithTrace({
+        conditions: [range('price', '$price.min', 100), range('stock', '$minStock')]
+      }, { price: { min: 10 } });
+
+      expect(trace.entries).toEqual([
+        { path: 'conditions[0]', kind: 'range', field: 'price', dataPath: 'price.min', value: { min: 10, max: 100 }, included: true },
+        {
+          path: 'conditions[1]',
+          kind: 'range',
+          field: 'stock',
+          dataPath: 'minStock',
+          value: { min: undefined, max: undefined },
+          included: false,
+          reason: '$minStock is missing'
+        }
+      ]);
+    });
+
+    it('should trace the branch an if/else condition took and negated conditions', () => {
+      const { trace } = QueryBuilder.buildWithTrace(
+        { conditions: [ifElse('mine', field('ownerId', Operator.EQ, '$userId')), not(field('a', Operator.EQ, '$a'))] },
+        { mine: true }
+      );
+
+      expect(trace.entries.map(entry => [entry.path, entry.kind, entry.reason])).toEqual([
+        ['conditions[0]', 'conditional', 'the chosen branch was skipped'],
+        ['conditions[0].then', 'field', '$userId is missing'],
+        ['conditions[1]', 'not', 'the negated condition was skipped'],
+        ['conditions[1].condition', 'field', '$a is missing']
+      ]);
+    });
+  });
+
+  // ============================================================================
+  // Redaction
+  // ============================================================================
+
+  describe('Redaction', () => {
+    it('should hide every value with redact: true', () => {
+      const { trace } = QueryBuilder.buildWithTrace(config, data, { redact: true });
+
+      expect(trace.entries.filter(entry => entry.value !== undefined).map(entry => entry.value))
+        .toEqual(Array(6).fill(REDACTED));
+    });
+
+    it('should hide values read from the listed data paths and below', () => {
+      const { trace } = QueryBuilder.buildWithTrace(config, data, { redact: ['customer', 'userId'] });
+
+      expect(trace.entries.map(entry => entry.value)).toEqual([
+        false,
+        REDACTED,
+        undefined,
+        { from: new Date('2025-01-01'), to: undefined },
+        undefined,
+        undefined,
+        REDACTED,
+        true,
+        true,
+        undefined
+      ]);
+    });
+
+    it('should hide each range bound by its own data path', () => {
+      const rangeConfig: QueryConfig = {
+        conditions: [range('price', '$filters.minPrice', '$limits.maxPrice'), range('age', 18, '$limits.maxAge')]
+      };
+      const rangeData = { filters: { minPrice: 10 }, limits: { maxPrice: 100, maxAge: 65 } };
+
+      const { trace } = QueryBuilder.buildWithTrace(rangeConfig, rangeData, { redact: ['limits'] });
+
+      expect(trace.entries.map(entry => entry.value)).toEqual([
+        { min: 10, max: REDACTED },
+        { min: 18, max: REDACTED }
+      ]);
+      expect(QueryBuilder.buildWithTrace(rangeConfig, rangeData, { redact: ['filters.minPrice'] }).trace.entries[0].value)
+        .toEqual({ min: REDACTED, max: 100 });
+    });
+
+    it('should hide each date range bound by the data path getParameters lists', () => {
+      const dateConfig: QueryConfig = { dateRanges: [{ field: 'createdAt', type: 'date' }] };
+      const dateData = { createdAt: { from: '2025-01-01', to: '2025-02-01' } };
+      const paths = QueryBuilder.getParameters(dateConfig).map(parameter => parameter.path);
+
+      expect(paths).toEqual(['createdAt.from', 'createdAt.to']);
+      expect(QueryBuilder.buildWithTrace(dateConfig, dateData, { redact: paths }).trace.entries[0].value)
+        .toEqual({ from: REDACTED, to: REDACTED });
+      expect(QueryBuilder.buildWithTrace(dateConfig, dateData, { redact: ['createdAt.to'] }).trace.entries[0].value)
+        .toEqual({ from: '2025-01-01', to: REDACTED });
+    });
+  });
+
+  // ============================================================================
+  // Timings
+  // ============================================================================
+
+  describe('Timings', () => {
+    it('should time each phase that ran', () => {
+      const { trace } = QueryBuilder.buildWithTrace({ conditions: [field('a', Operator.EQ, 1)] });
+
+      expect(Object.keys(trace.timings)).toEqual(['validate', 'conditions', 'merge', 'policy', 'optimize']);
+      for (const ms of Object.values(trace.timings)) {
+        expect(ms).toBeGreaterThanOrEqual(0);
+      }
+      expect(trace.total).toBeCloseTo(Object.values(trace.timings).reduce((sum, ms) => sum + ms!, 0));
+    });
+
+    it('should keep the timings of a build that throws', () => {
+      const recorder = new TraceRecorder();
+
+      expect(() => QueryBuilder.build(
+        { conditions: [field('score', '$where', 'this.score > 10')] },
+        {},
+        { trace: recorder }
+      )).toThrow(PolicyViolationError);
+      expect(Object.keys(recorder.toTrace().timings)).toEqual(['validate', 'conditions', 'merge', 'policy']);
+    });
+  });
+
+  // ============================================================================
+  // Build Option
+  // ============================================================================
+
+  describe('Build Option', () => {
+    it('should record into a recorder passed to build', () => {
+      const recorder = new TraceRecorder();
+      const filter = QueryBuilder.build(config, data, { trace: recorder });
+
+      expect(filter).toEqual(QueryBuilder.build(config, data));
+      expect(recorder.toTrace().entries).toHaveLength(10);
+    });
+
+    it('should not record from compiled queries', () => {
+      const recorder = new TraceRecorder();
+      QueryBuilder.compile(config, { trace: recorder })(data);
+
+      expect(recorder.toTrace().entries).toEqual([]);
+    });
+  });
+});
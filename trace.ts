@@ -0,0 +1,310 @@
+/**
+ * Build Tracing
+ *
+ * Records what `QueryBuilder.build` did with each part of a config, to
+ * find out why a query returns nothing: where each condition sits in the
+ * config, which data path it read and the value it got, whether it made it
+ * into the filter (and why not), and how long each build phase took.
+ *
+ * Pass a `TraceRecorder` as the `trace` build option, or call
+ * `QueryBuilder.buildWithTrace` to get the filter and the trace together.
+ */
+
+import { performance } from 'perf_hooks';
+import {
+  QueryCondition,
+  FieldCondition,
+  DateRangeCondition,
+  RangeCondition,
+  TextCondition,
+  GeoWithinCondition,
+  NearCondition,
+  ConditionalCondition
+} from './query-builder';
+import { ExplainNodeKind } from './explain';
+import { ConditionPredicate, evaluatePredicate, getPredicatePaths, isConditionActive } from './predicates';
+import { getNestedValue } from './utils';
+
+export type TracePhase =
+  | 'validate'
+  | 'staticFilters'
+  | 'fieldMappings'
+  | 'dateRanges'
+  | 'conditions'
+  | 'merge'
+  | 'policy'
+  | 'optimize';
+
+export interface TraceEntry {
+  // Location in the config, e.g. 'conditions[1].conditions[0]' or 'fieldMappings.customerId'
+  path: string;
+  kind: ExplainNodeKind;
+  field?: string;
+  // Data path the value was read from (absent for static values)
+  dataPath?: string;
+  // Resolved value, or REDACTED
+  value?: any;
+  included: boolean;
+  // Why the part was skipped
+  reason?: string;
+}
+
+export interface BuildTrace {
+  entries: TraceEntry[];
+  // Milliseconds spent in each phase that ran
+  timings: Partial<Record<TracePhase, number>>;
+  // Milliseconds for the whole build
+  total: number;
+}
+
+export interface TraceOptions {
+  // Hide resolved values: true for all of them, or the data paths to hide
+  // (a path also hides everything below it)
+  redact?: boolean | string[];
+}
+
+export const REDACTED = '[redacted]';
+
+// What a condition read from the data
+type ConditionDetails = Pick<TraceEntry, 'kind' | 'field' | 'dataPath' | 'value'> & {
+  // Data paths of the parts of an object value that were read separately,
+  // e.g. the bounds of a range; each part is redacted on its own
+  partPaths?: Record<string, string | undefined>;
+};
+
+/**
+ * Collects trace entries and phase timings during a build
+ */
+export class TraceRecorder {
+  private readonly entries: TraceEntry[] = [];
+  private readonly timings: Partial<Record<TracePhase, number>> = {};
+
+  constructor(private readonly options: TraceOptions = {}) {}
+
+  /**
+   * Run one build phase and add its duration to the phase timings
+   */
+  time<T>(phase: TracePhase, run: () => T): T {
+    const start = performance.now();
+    try {
+      return run();
+    } finally {
+      this.timings[phase] = (this.timings[phase] ?? 0) + performance.now() - start;
+    }
+  }
+
+  /**
+   * Position for an entry recorded after its children, so that parents are
+   * listed before the conditions nested in them
+   */
+  mark(): number {
+    return this.entries.length;
+  }
+
+  record(entry: TraceEntry, at: number = this.entries.length): void {
+    if ('value' in entry && this.isRedacted(entry)) {
+      entry = { ...entry, value: REDACTED };
+    }
+    this.entries.splice(at, 0, entry);
+  }
+
+  staticFilter(key: string, value: any): void {
+    this.record({ path: `staticFilters.${key}`, kind: 'staticFilter', field: key, value, included: true });
+  }
+
+  fieldMapping(field: string, dataPath: string, value: any, included: boolean): void {
+    const entry: TraceEntry = { path: `fieldMappings.${field}`, kind: 'fieldMapping', field, dataPath, value, included };
+    if (!included) {
+      entry.reason = `$${dataPath} is missing`;
+    }
+    this.record(entry);
+  }
+
+  /**
+   * Record a condition from its built result
+   */
+  condition(
+    path: string,
+    condition: QueryCondition,
+    data: Record<string, any>,
+    result: Record<string, any> | null,
+    at?: number
+  ): void {
+    this.recordCondition(path, describeCondition(condition, data), condition, data, result, at);
+  }
+
+  /**
+   * Record an entry of the config's dateRanges from its built result
+   */
+  dateRange(
+    index: number,
+    dateRange: DateRangeCondition,
+    data: Record<string, any>,
+    result: Record<string, any> | null
+  ): void {
+    this.recordCondition(`dateRanges[${index}]`, describeDateRange(dateRange, data), dateRange, data, result);
+  }
+
+  toTrace(): BuildTrace {
+    const timings = { ...this.timings };
+    const total = Object.values(timings).reduce((sum, ms) => sum + (ms ?? 0), 0);
+    return { entries: [...this.entries], timings, total };
+  }
+
+  private recordCondition(
+    path: string,
+    details: ConditionDetails,
+    condition: QueryCondition,
+    data: Record<string, any>,
+    result: Record<string, any> | null,
+    at?: number
+  ): void {
+    const { partPaths, ...described } = details;
+    const entry: TraceEntry = { path, ...described, included: false };
+
+    if (!isConditionActive(condition, data)) {
+      entry.reason = condition.when !== undefined && !evaluatePredicate(condition.when, data)
+        ? `when rule on ${describePaths(condition.when)} did not hold`
+        : `unless rule on ${describePaths(condition.unless!)} held`;
+    } else if (result && Object.keys(result).length > 0) {
+      entry.included = true;
+    } else {
+      entry.reason = skipReason(entry.kind, condition, data);
+    }
+
+    if (partPaths && Array.isArray(this.options.redact)) {
+      const value: Record<string, any> = { ...entry.value };
+      for (const [key, dataPath] of Object.entries(partPaths)) {
+        if (value[key] !== undefined && this.isRedactedPath(dataPath)) {
+          value[key] = REDACTED;
+        }
+      }
+      this.entries.splice(at ?? this.entries.length, 0, { ...entry, value });
+      return;
+    }
+    this.record(entry, at);
+  }
+
+  private isRedacted(entry: TraceEntry): boolean {
+    const { redact } = this.options;
+    if (!redact || entry.value === undefined) {
+      return false;
+    }
+    return redact === true || this.isRedactedPath(entry.dataPath);
+  }
+
+  private isRedactedPath(dataPath: string | undefined): boolean {
+    const { redact } = this.options;
+    return Array.isArray(redact) && dataPath !== undefined &&
+      redact.some(path => dataPath === path || dataPath.startsWith(`${path}.`));
+  }
+}
+
+/**
+ * Kind, field and resolved value of a condition
+ */
+function describeCondition(
+  condition: QueryCondition,
+  data: Record<string, any>
+): ConditionDetails {
+  if ('if' in condition) {
+    return { kind: 'conditional' };
+  }
+  if ('conditions' in condition) {
+    return { kind: 'logical' };
+  }
+  if ('condition' in condition) {
+    return { kind: 'not' };
+  }
+  if ('expression' in condition) {
+    return { kind: 'expr' };
+  }
+  if ('search' in condition) {
+    return { kind: 'text', ...resolve((condition as TextCondition).search, data) };
+  }
+  if ('geometry' in condition) {
+    const geo = condition as GeoWithinCondition | NearCondition;
+    return { kind: 'geo', field: geo.field, ...resolve(geo.geometry, data) };
+  }
+  if ('min' in condition || 'max' in condition) {
+    return describeRange(condition as RangeCondition, data);
+  }
+  if ('from' in condition || 'to' in condition) {
+    return describeDateRange(condition as DateRangeCondition, data);
+  }
+  const fieldCondition = condition as FieldCondition;
+  return { kind: 'field', field: fieldCondition.field, ...resolve(fieldCondition.value, data) };
+}
+
+function describeDateRange(dateRange: DateRangeCondition, data: Record<string, any>): ConditionDetails {
+  const range = getNestedValue(data, dateRange.field);
+  // Bounds read from data are at '<field>.from' and '<field>.to', as getParameters lists them
+  const dataPathOf = (bound: 'from' | 'to') => (range?.[bound] !== undefined ? `${dateRange.field}.${bound}` : undefined);
+  return {
+    kind: 'dateRange',
+    field: dateRange.field,
+    dataPath: dateRange.field,
+    value: { from: range?.from ?? dateRange.from, to: range?.to ?? dateRange.to },
+    partPaths: { from: dataPathOf('from'), to: dataPathOf('to') }
+  };
+}
+
+function describeRange(range: RangeCondition, data: Record<string, any>): ConditionDetails {
+  const min = resolve(range.min, data);
+  const max = resolve(range.max, data);
+  return {
+    kind: 'range',
+    field: range.field,
+    dataPath: min.dataPath ?? max.dataPath,
+    value: { min: min.value, max: max.value },
+    partPaths: { min: min.dataPath, max: max.dataPath }
+  };
+}
+
+/**
+ * Resolve a `$` data reference, or keep a static value
+ */
+function resolve(value: any, data: Record<string, any>): Pick<TraceEntry, 'dataPath' | 'value'> {
+  if (typeof value === 'string' && value.startsWith('$')) {
+    const dataPath = value.substring(1);
+    return { dataPath, value: getNestedValue(data, dataPath) };
+  }
+  return { value };
+}
+
+/**
+ * Why an active condition built nothing
+ */
+function skipReason(kind: ExplainNodeKind, condition: QueryCondition, data: Record<string, any>): string {
+  switch (kind) {
+    case 'conditional': {
+      const conditional = condition as ConditionalCondition;
+      return !evaluatePredicate(conditional.if, data) && !conditional.else
+        ? 'the predicate did not hold and there is no else branch'
+        : 'the chosen branch was skipped';
+    }
+    case 'logical':
+      return 'no sub-condition applied';
+    case 'not':
+      return 'the negated condition was skipped';
+    case 'text':
+      return `${(condition as TextCondition).search} is missing or empty`;
+    case 'geo':
+      return `${(condition as GeoWithinCondition | NearCondition).geometry} is missing`;
+    case 'range': {
+      const { min, max } = condition as RangeCondition;
+      const references = [min, max].filter(bound => typeof bound === 'string' && bound.startsWith('$'));
+      return `${references.join(' and ')} ${references.length > 1 ? 'are' : 'is'} missing`;
+    }
+    case 'dateRange': {
+      const { field } = condition as DateRangeCondition;
+      return `$${field}.from and $${field}.to are missing`;
+    }
+    default:
+      return `${(condition as FieldCondition).value} is missing`;
+  }
+}
+
+function describePaths(predicate: ConditionPredicate): string {
+  return getPredicatePaths(predicate).map(path => `$${path}`).join(', ');
+}
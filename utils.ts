@@ -0,0 +1,123 @@
+/**
+ * Shared helpers used by the query and pipeline builders
+ */
+
+/**
+ * Get nested value from object using dot notation
+ */
+export function getNestedValue(obj: any, path: string): any {
+  if (!path || !obj) return undefined;
+  if (path.indexOf('.') === -1) {
+    return obj[path];
+  }
+  const keys = path.split('.');
+  let current = obj;
+  for (const key of keys) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Pre-split a dot-notation path into a getter function
+ */
+export function compilePath(path: string): (obj: any) => any {
+  if (!path) {
+    return () => undefined;
+  }
+  if (path.indexOf('.') === -1) {
+    return obj => (obj ? obj[path] : undefined);
+  }
+  const keys = path.split('.');
+  return obj => {
+    if (!obj) return undefined;
+    let current = obj;
+    for (const key of keys) {
+      if (current === null || current === undefined) {
+        return undefined;
+      }
+      current = current[key];
+    }
+    return current;
+  };
+}
+
+/**
+ * Compare two values, treating dates with the same time as equal
+ */
+export function isSameValue(a: any, b: any): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return a === b;
+}
+
+/**
+ * Structural equality for filter values: dates by time, regular expressions
+ * by source and flags, arrays and plain objects element by element
+ */
+export function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date || b instanceof Date) return isSameValue(a, b);
+  if (a instanceof RegExp || b instanceof RegExp) {
+    return a instanceof RegExp && b instanceof RegExp && String(a) === String(b);
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b) || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false;
+  }
+  if (typeof a.equals === 'function' && !Array.isArray(a)) {
+    // Driver types such as ObjectId and Decimal128
+    return a.equals(b);
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]));
+}
+
+/**
+ * Check for an object literal (or a null-prototype object), as opposed to
+ * arrays, dates, regular expressions and driver types
+ */
+export function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Check for a plain object whose keys are all operators, e.g. `{ $gte: 5 }`
+ */
+export function isOperatorObject(value: any): value is Record<string, any> {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+/**
+ * Deep copy arrays, plain objects and dates; other values (regular
+ * expressions, driver types) are shared
+ */
+export function cloneValue<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => cloneValue(item)) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneValue(item);
+    }
+    return copy as T;
+  }
+  return value;
+}
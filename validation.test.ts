@@ -1,5 +1,5 @@
 import { describe, it, expect } from '@jest/globals';
-import { validateConfig, safeValidateConfig } from './validation';
+import { validateConfig, safeValidateConfig, validateAccessPolicy } from './validation';
 import { Operator } from './query-builder';
 
 describe('Runtime Validation', () => {
@@ -78,4 +78,90 @@ describe('Runtime Validation', () => {
 
         expect(() => validateConfig(config)).toThrow();
     });
+
+    it('should validate find option sections', () => {
+        const config = {
+            sort: { value: '$sortBy', default: { createdAt: -1 }, allowedFields: ['createdAt'] },
+            projection: { value: { name: 1 } },
+            limit: { value: '$pageSize', max: 100 },
+            skip: { value: 0 }
+        };
+
+        expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    it('should fail on invalid find option values', () => {
+        expect(() => validateConfig({ sort: { value: { createdAt: 'down' } } })).toThrow();
+        expect(() => validateConfig({ limit: { value: -5 } })).toThrow();
+        expect(() => validateConfig({ limit: { value: 'pageSize' } })).toThrow();
+    });
+
+    it('should validate access policies', () => {
+        expect(() => validateAccessPolicy({
+            allowedFields: ['status'],
+            fieldOperators: { status: ['$eq', '$in'] },
+            bannedOperators: ['$regex']
+        })).not.toThrow();
+        expect(() => validateAccessPolicy({ bannedOperators: ['where'] })).toThrow();
+        expect(() => validateAccessPolicy({ allowFields: ['status'] })).toThrow();
+    });
+
+    it('should validate $not, $expr, $text and geospatial conditions', () => {
+        const config = {
+            conditions: [
+                { operator: Operator.NOT, condition: { field: 'price', operator: Operator.GT, value: 5 } },
+                { operator: Operator.EXPR, expression: { $gt: ['$spent', '$budget'] } },
+                { operator: Operator.TEXT, search: '$q', language: 'en' },
+                { field: 'location', operator: Operator.NEAR, geometry: '$point', maxDistance: 100 },
+                { field: 'area', operator: Operator.GEO_WITHIN, geometry: { type: 'Polygon', coordinates: [] } }
+            ]
+        };
+
+        expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    it('should fail on invalid geospatial and text conditions', () => {
+        expect(() => validateConfig({
+            conditions: [{ field: 'location', operator: Operator.NEAR, geometry: 'point' }]
+        })).toThrow();
+        expect(() => validateConfig({
+            conditions: [{ field: 'area', operator: Operator.GEO_WITHIN, geometry: '$area', maxDistance: 5 }]
+        })).toThrow();
+        expect(() => validateConfig({
+            conditions: [{ operator: Operator.TEXT, search: '' }]
+        })).toThrow();
+    });
+
+    it('should validate when/unless rules and if/else conditions', () => {
+        const config = {
+            dateRanges: [{ field: 'createdAt', unless: 'allTime' }],
+            conditions: [
+                { field: 'verified', operator: Operator.EQ, value: true, when: { path: 'mode', equals: 'strict' } },
+                {
+                    operator: Operator.OR,
+                    conditions: [{ field: 'shared', operator: Operator.EQ, value: true }],
+                    unless: { any: ['isAdmin', { path: 'role', in: ['owner'] }] }
+                },
+                {
+                    if: { not: 'mine' },
+                    then: { field: 'shared', operator: Operator.EQ, value: true },
+                    else: { field: 'ownerId', operator: Operator.EQ, value: '$userId' }
+                }
+            ]
+        };
+
+        expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    it('should fail on invalid predicates and conditional conditions', () => {
+        expect(() => validateConfig({
+            conditions: [{ field: 'a', operator: Operator.EQ, value: 1, when: { path: 'mode', is: 'x' } }]
+        })).toThrow();
+        expect(() => validateConfig({
+            conditions: [{ field: 'a', operator: Operator.EQ, value: 1, unless: { all: [] } }]
+        })).toThrow();
+        expect(() => validateConfig({
+            conditions: [{ if: 'mine', else: { field: 'a', operator: Operator.EQ, value: 1 } }]
+        })).toThrow();
+    });
 });
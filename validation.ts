@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { QueryConfig } from './query-builder';
+import { AggregationConfig } from './pipeline-builder';
+import { AccessPolicy } from './access-policy';
+import { isDateExpression, parseDateExpression, parseIsoDate, isValidTimeZone } from './date-expressions';
 
 // Enum validation
 // We define the enum values manually to avoid circular dependency with query-builder.ts
@@ -8,24 +11,185 @@ export const OperatorSchema = z.enum([
     '$and', '$or', '$not', '$nor',
     '$exists', '$type',
     '$regex',
-    '$all', '$elemMatch', '$size'
+    '$all', '$elemMatch', '$size',
+    '$expr', '$text', '$mod',
+    '$geoWithin', '$near'
+]);
+
+// Target types for value coercion
+export const ValueTypeSchema = z.enum([
+    'string', 'number', 'boolean', 'date', 'objectId', 'decimal', 'stringArray'
+]);
+
+// Date expressions are parsed so malformed ones fail validation instead of the build
+function checkDateExpression(value: string, ctx: z.RefinementCtx): void {
+    try {
+        parseDateExpression(value);
+    } catch (error) {
+        ctx.addIssue({ code: 'custom', message: (error as Error).message });
+    }
+}
+
+// Date expression, e.g. 'now-7d/d' or '2025-01-01||+1M'
+export const DateExpressionSchema = z.string().superRefine(checkDateExpression);
+
+// IANA time zone, e.g. 'Asia/Kolkata'
+export const TimeZoneSchema = z.string().refine(isValidTimeZone, { message: 'Unknown time zone' });
+
+// Date range bound: a date, or a string that is a date expression or a literal (e.g. an ISO date)
+const DateBoundSchema = z.union([
+    z.date(),
+    z.string().superRefine((value, ctx) => {
+        if (isDateExpression(value)) {
+            checkDateExpression(value, ctx);
+        }
+    })
 ]);
 
 // Base schemas for recursive definitions
 const BaseConditionSchema = z.object({});
 
+// Conditional Inclusion Predicate Schema
+export const ConditionPredicateSchema: z.ZodType<any> = z.lazy(() =>
+    z.union([
+        z.string().min(1),
+        z.object({
+            path: z.string().min(1),
+            equals: z.any(),
+            notEquals: z.any(),
+            in: z.array(z.any()).optional(),
+            exists: z.boolean().optional(),
+            truthy: z.boolean().optional()
+        }).strict(),
+        z.object({ all: z.array(ConditionPredicateSchema).min(1) }).strict(),
+        z.object({ any: z.array(ConditionPredicateSchema).min(1) }).strict(),
+        z.object({ not: ConditionPredicateSchema }).strict()
+    ])
+);
+
+// when/unless rules shared by every condition type
+const ConditionRuleShape = {
+    when: ConditionPredicateSchema.optional(),
+    unless: ConditionPredicateSchema.optional()
+};
+
 // Field Condition Schema
 export const FieldConditionSchema = z.object({
     field: z.string().min(1),
     operator: z.union([OperatorSchema, z.string()]),
-    value: z.any()
+    value: z.any(),
+    allowRegex: z.boolean().optional(),
+    type: ValueTypeSchema.optional(),
+    // Reserved for geospatial conditions
+    geometry: z.undefined().optional(),
+    ...ConditionRuleShape
 });
 
+// Range bounds: '[' and ']' include a bound, '(' and ')' exclude it
+export const RangeBoundsSchema = z.enum(['[]', '[)', '(]', '()']);
+
+// Literal date range bounds as timestamps; expressions are relative and not compared
+function boundTime(value: Date | string | undefined): number | undefined {
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'string' && !isDateExpression(value)) return parseIsoDate(value)?.getTime();
+    return undefined;
+}
+
 // Date Range Condition Schema
 export const DateRangeConditionSchema = z.object({
     field: z.string().min(1),
-    from: z.union([z.date(), z.string()]).optional(),
-    to: z.union([z.date(), z.string()]).optional()
+    from: DateBoundSchema.optional(),
+    to: DateBoundSchema.optional(),
+    type: ValueTypeSchema.optional(),
+    bounds: RangeBoundsSchema.optional(),
+    wholeDays: z.boolean().optional(),
+    parseDates: z.boolean().optional(),
+    timeZone: TimeZoneSchema.optional(),
+    ...ConditionRuleShape
+}).strict().superRefine((range, ctx) => {
+    const from = boundTime(range.from);
+    const to = boundTime(range.to);
+    if (from !== undefined && to !== undefined && from > to) {
+        ctx.addIssue({ code: 'custom', path: ['from'], message: 'from must not be after to' });
+    }
+});
+
+// Range Condition Schema (bounds are values or `$` data references)
+export const RangeConditionSchema = z.object({
+    field: z.string().min(1),
+    min: z.any().optional(),
+    max: z.any().optional(),
+    bounds: RangeBoundsSchema.optional(),
+    type: ValueTypeSchema.optional(),
+    ...ConditionRuleShape
+}).strict().superRefine((range, ctx) => {
+    if (!('min' in range) && !('max' in range)) {
+        ctx.addIssue({ code: 'custom', message: 'a range needs min, max or both' });
+        return;
+    }
+    const { min, max } = range;
+    const isStatic = (value: unknown) => typeof value === 'number' || (typeof value === 'string' && !value.startsWith('$'));
+    if (isStatic(min) && typeof min === typeof max && isStatic(max) && min > max) {
+        ctx.addIssue({ code: 'custom', path: ['min'], message: 'min must not be greater than max' });
+    }
+});
+
+// Field Mapping Schema (data path, or data path with a target type)
+export const FieldMappingSchema = z.union([
+    z.string(),
+    z.object({
+        path: z.string().min(1),
+        type: ValueTypeSchema.optional()
+    }).strict()
+]);
+
+// $expr, $text and Geospatial Condition Schemas
+export const ExprConditionSchema = z.object({
+    operator: z.literal('$expr'),
+    expression: z.record(z.string(), z.any()),
+    ...ConditionRuleShape
+}).strict();
+
+export const TextConditionSchema = z.object({
+    operator: z.literal('$text'),
+    search: z.string().min(1),
+    language: z.string().optional(),
+    caseSensitive: z.boolean().optional(),
+    diacriticSensitive: z.boolean().optional(),
+    ...ConditionRuleShape
+}).strict();
+
+// A GeoJSON geometry, or a `$` data reference resolving to one
+const GeometrySchema = z.union([
+    z.object({
+        type: z.string().min(1),
+        coordinates: z.array(z.any())
+    }).strict(),
+    z.string().startsWith('$')
+]);
+
+const DistanceSchema = z.union([z.number().nonnegative(), z.string().startsWith('$')]);
+
+export const GeoWithinConditionSchema = z.object({
+    field: z.string().min(1),
+    operator: z.literal('$geoWithin'),
+    geometry: GeometrySchema,
+    ...ConditionRuleShape
+}).strict();
+
+export const NearConditionSchema = z.object({
+    field: z.string().min(1),
+    operator: z.literal('$near'),
+    geometry: GeometrySchema,
+    maxDistance: DistanceSchema.optional(),
+    minDistance: DistanceSchema.optional(),
+    ...ConditionRuleShape
+}).strict();
+
+// A reference to a stored config's conditions, resolved before building
+export const ConditionRefSchema = z.object({
+    $ref: z.string().min(1),
+    ...ConditionRuleShape
 }).strict();
 
 // Recursive Logical Condition Schema
@@ -34,21 +198,145 @@ export const QueryConditionSchema: z.ZodType<any> = z.lazy(() =>
     z.union([
         FieldConditionSchema,
         LogicalConditionSchema,
-        DateRangeConditionSchema
+        NotConditionSchema,
+        ExprConditionSchema,
+        TextConditionSchema,
+        GeoWithinConditionSchema,
+        NearConditionSchema,
+        ConditionalConditionSchema,
+        DateRangeConditionSchema,
+        RangeConditionSchema,
+        ConditionRefSchema
     ])
 );
 
 export const LogicalConditionSchema = z.object({
     operator: z.enum(['$and', '$or', '$nor']),
-    conditions: z.array(QueryConditionSchema).min(1)
+    conditions: z.array(QueryConditionSchema).min(1),
+    ...ConditionRuleShape
 });
 
+export const NotConditionSchema = z.object({
+    operator: z.literal('$not'),
+    condition: QueryConditionSchema,
+    ...ConditionRuleShape
+}).strict();
+
+export const ConditionalConditionSchema = z.object({
+    if: ConditionPredicateSchema,
+    then: QueryConditionSchema,
+    else: QueryConditionSchema.optional(),
+    ...ConditionRuleShape
+}).strict();
+
+// Find Option Schemas (sort, projection, limit, skip)
+const SortDirectionSchema = z.union([z.literal(1), z.literal(-1)]);
+
+export const SortConfigSchema = z.object({
+    value: z.union([z.record(z.string(), SortDirectionSchema), z.string().min(1)]).optional(),
+    default: z.record(z.string(), SortDirectionSchema).optional(),
+    allowedFields: z.array(z.string().min(1)).optional()
+}).strict();
+
+export const ProjectionConfigSchema = z.object({
+    value: z.union([z.record(z.string(), z.union([z.literal(0), z.literal(1)])), z.string().min(1)]).optional(),
+    default: z.record(z.string(), z.union([z.literal(0), z.literal(1)])).optional(),
+    allowedFields: z.array(z.string().min(1)).optional()
+}).strict();
+
+export const PageConfigSchema = z.object({
+    value: z.union([z.number().int().nonnegative(), z.string().startsWith('$')]).optional(),
+    default: z.number().int().nonnegative().optional(),
+    max: z.number().int().positive().optional()
+}).strict();
+
+// Input Parameter Schema
+export const ParameterDefinitionSchema = z.object({
+    type: ValueTypeSchema.optional(),
+    required: z.boolean().optional(),
+    enum: z.array(z.any()).min(1).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    description: z.string().optional()
+}).strict();
+
 // Main Query Config Schema
 export const QueryConfigSchema = z.object({
     staticFilters: z.record(z.string(), z.any()).optional(),
     conditions: z.array(QueryConditionSchema).optional(),
-    fieldMappings: z.record(z.string(), z.string()).optional(),
-    dateRanges: z.array(DateRangeConditionSchema).optional()
+    fieldMappings: z.record(z.string(), FieldMappingSchema).optional(),
+    dateRanges: z.array(DateRangeConditionSchema).optional(),
+    parameters: z.record(z.string().min(1), ParameterDefinitionSchema).optional(),
+    sort: SortConfigSchema.optional(),
+    projection: ProjectionConfigSchema.optional(),
+    limit: PageConfigSchema.optional(),
+    skip: PageConfigSchema.optional()
+});
+
+// Access Policy Schema
+const PolicyOperatorSchema = z.string().startsWith('$');
+
+export const AccessPolicySchema = z.object({
+    allowedFields: z.array(z.string().min(1)).optional(),
+    fieldOperators: z.record(z.string(), z.array(PolicyOperatorSchema)).optional(),
+    bannedOperators: z.array(PolicyOperatorSchema).optional(),
+    allowServerSideJavaScript: z.boolean().optional()
+}).strict();
+
+// Aggregation Pipeline Stage Schemas
+// Data references (e.g. '$pageSize') are only allowed where noted
+export const MatchStageSchema = z.object({
+    $match: QueryConfigSchema
+}).strict();
+
+export const GroupStageSchema = z.object({
+    $group: z.object({ _id: z.any() }).catchall(z.record(z.string(), z.any()))
+}).strict();
+
+export const ProjectStageSchema = z.object({
+    $project: z.record(z.string(), z.any())
+}).strict();
+
+export const SortStageSchema = z.object({
+    $sort: z.record(z.string(), z.union([z.literal(1), z.literal(-1)]))
+}).strict();
+
+export const LimitStageSchema = z.object({
+    $limit: z.union([z.number().int().positive(), z.string().startsWith('$')])
+}).strict();
+
+export const LookupStageSchema = z.object({
+    $lookup: z.object({
+        from: z.string().min(1),
+        localField: z.string().min(1),
+        foreignField: z.string().min(1),
+        as: z.string().min(1)
+    }).strict()
+}).strict();
+
+export const UnwindStageSchema = z.object({
+    $unwind: z.union([
+        z.string().startsWith('$'),
+        z.object({
+            path: z.string().startsWith('$'),
+            includeArrayIndex: z.string().optional(),
+            preserveNullAndEmptyArrays: z.boolean().optional()
+        }).strict()
+    ])
+}).strict();
+
+export const PipelineStageSchema = z.union([
+    MatchStageSchema,
+    GroupStageSchema,
+    ProjectStageSchema,
+    SortStageSchema,
+    LimitStageSchema,
+    LookupStageSchema,
+    UnwindStageSchema
+]);
+
+export const AggregationConfigSchema = z.object({
+    stages: z.array(PipelineStageSchema)
 });
 
 /**
@@ -66,3 +354,19 @@ export function validateConfig(config: unknown): QueryConfig {
 export function safeValidateConfig(config: unknown) {
     return QueryConfigSchema.safeParse(config);
 }
+
+/**
+ * Validate an aggregation configuration object
+ * @throws ZodError if validation fails
+ */
+export function validateAggregationConfig(config: unknown): AggregationConfig {
+    return AggregationConfigSchema.parse(config) as AggregationConfig;
+}
+
+/**
+ * Validate an access policy object
+ * @throws ZodError if validation fails
+ */
+export function validateAccessPolicy(policy: unknown): AccessPolicy {
+    return AccessPolicySchema.parse(policy) as AccessPolicy;
+}